@@ -0,0 +1,378 @@
+/**
+ * WAAudio Capture - PCM 采集
+ * 
+ * 通过 AudioWorklet 从任意节点取得逐样本的 Float32 数据
+ * 供计量、录音等模块共用
+ */
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface CaptureOptions {
+  /** 声道数（输入按此声道数上/下混，默认 2） */
+  channels?: number;
+  /** 每次回调的帧数（默认约 100ms） */
+  blockSize?: number;
+}
+
+/** 数据回调：每个声道一段等长的样本 */
+export type CaptureCallback = (channels: Float32Array[]) => void;
+
+/** 处理器名称 */
+const PROCESSOR_NAME = 'waaudio-capture';
+
+/**
+ * 处理器源码
+ * 
+ * 攒满 blockSize 帧后通过 port 转移给主线程；未连接输入时写入静音，保持时间对齐
+ * 暂停在音频线程上生效，暂停前已采集的数据会先发送
+ * 首次处理时报告首个样本的上下文时间，供按样本对齐
+ */
+const PROCESSOR_SOURCE = `
+class WAAudioCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.channels = options.processorOptions.channels;
+    this.blockSize = options.processorOptions.blockSize;
+    this.active = true;
+    this.paused = false;
+    this.started = false;
+    this.allocate();
+    this.port.onmessage = (e) => {
+      if (e.data === 'flush' || e.data === 'pause' || e.data === 'stop') this.flush();
+      if (e.data === 'pause') this.paused = true;
+      if (e.data === 'resume') this.paused = false;
+      if (e.data === 'stop') {
+        this.active = false;
+        this.port.postMessage('stopped');
+      }
+    };
+  }
+  allocate() {
+    this.buffers = [];
+    for (let c = 0; c < this.channels; c++) this.buffers.push(new Float32Array(this.blockSize));
+    this.offset = 0;
+  }
+  flush() {
+    if (this.offset === 0) return;
+    const data = this.buffers.map((buffer) => buffer.slice(0, this.offset));
+    this.port.postMessage(data, data.map((channel) => channel.buffer));
+    this.allocate();
+  }
+  process(inputs) {
+    if (!this.active) return false;
+    if (this.paused) return true;
+    if (!this.started) {
+      this.started = true;
+      this.port.postMessage({ startTime: currentTime });
+    }
+    const input = inputs[0];
+    const length = input.length > 0 ? input[0].length : 128;
+    let read = 0;
+    while (read < length) {
+      const count = Math.min(length - read, this.blockSize - this.offset);
+      for (let c = 0; c < this.channels; c++) {
+        const target = this.buffers[c];
+        const channel = input.length > 0 ? input[Math.min(c, input.length - 1)] : null;
+        if (channel) {
+          target.set(channel.subarray(read, read + count), this.offset);
+        } else {
+          target.fill(0, this.offset, this.offset + count);
+        }
+      }
+      this.offset += count;
+      read += count;
+      if (this.offset === this.blockSize) this.flush();
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', WAAudioCaptureProcessor);
+`;
+
+/** 每个上下文只加载一次处理器模块 */
+const loadedContexts: WeakMap<BaseAudioContext, Promise<void>> = new WeakMap();
+
+/**
+ * 在上下文中加载采集处理器
+ */
+function loadProcessor(context: BaseAudioContext): Promise<void> {
+  let loading = loadedContexts.get(context);
+  if (!loading) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    loading = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    loadedContexts.set(context, loading);
+  }
+  return loading;
+}
+
+// ============================================
+// 采集类
+// ============================================
+
+/**
+ * WAAudioCapture - PCM 采集
+ * 
+ * 使用示例：
+ * ```typescript
+ * const capture = await WAAudioCapture.create(context, { channels: 2 });
+ * capture.onData = (channels) => meter.process(channels);
+ * capture.connect(mixer.masterGain);
+ * ```
+ */
+export class WAAudioCapture {
+  /** 上下文 */
+  private readonly _context: BaseAudioContext;
+  
+  /** 采集节点 */
+  private readonly _node: AudioWorkletNode;
+  
+  /** 声道数 */
+  private readonly _channels: number;
+  
+  /** 已连接的源 */
+  private readonly _sources: Set<AudioNode> = new Set();
+  
+  /** 数据回调 */
+  private _onData: CaptureCallback | null = null;
+  
+  /** 已采集帧数 */
+  private _frames = 0;
+  
+  /** 是否已停止 */
+  private _stopped = false;
+  
+  /** 是否暂停 */
+  private _paused = false;
+  
+  /** 首个样本的上下文时间 */
+  private _startTime: number | null = null;
+  
+  /** 等待开始处理的回调 */
+  private _startWaiters: ((startTime: number) => void)[] = [];
+  
+  /** 停止完成（剩余数据已送达） */
+  private _onStopped: (() => void) | null = null;
+  
+  // ============================================
+  // 构造函数
+  // ============================================
+  
+  /**
+   * 使用 WAAudioCapture.create() 创建（需先异步加载处理器）
+   */
+  private constructor(context: BaseAudioContext, channels: number, blockSize: number) {
+    this._context = context;
+    this._channels = channels;
+    
+    this._node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      channelCount: channels,
+      channelCountMode: 'explicit',
+      channelInterpretation: 'speakers',
+      processorOptions: { channels, blockSize }
+    });
+    
+    this._node.port.onmessage = (e: MessageEvent<Float32Array[] | 'stopped' | { startTime: number }>) => {
+      if (e.data === 'stopped') {
+        this._onStopped?.();
+        this._onStopped = null;
+        return;
+      }
+      if (!Array.isArray(e.data)) {
+        const startTime = e.data.startTime;
+        this._startTime = startTime;
+        this._startWaiters.forEach(resolve => resolve(startTime));
+        this._startWaiters = [];
+        return;
+      }
+      this._frames += e.data[0]?.length ?? 0;
+      this._onData?.(e.data);
+    };
+    
+    // 输出为静音，仅用于让渲染图持续拉取该节点
+    this._node.connect(context.destination);
+  }
+  
+  /**
+   * 创建采集器
+   * 
+   * @param context - 上下文
+   * @param options - 声道数、块大小
+   */
+  static async create(context: BaseAudioContext, options: CaptureOptions = {}): Promise<WAAudioCapture> {
+    await loadProcessor(context);
+    
+    const channels = Math.max(1, Math.round(options.channels ?? 2));
+    const blockSize = Math.max(128, Math.round(options.blockSize ?? context.sampleRate * 0.1));
+    return new WAAudioCapture(context, channels, blockSize);
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 上下文 */
+  get context(): BaseAudioContext {
+    return this._context;
+  }
+  
+  /** 采集节点（可直接作为连接目标） */
+  get node(): AudioNode {
+    return this._node;
+  }
+  
+  /** 声道数 */
+  get channels(): number {
+    return this._channels;
+  }
+  
+  /** 采样率 */
+  get sampleRate(): number {
+    return this._context.sampleRate;
+  }
+  
+  /** 已采集帧数 */
+  get frames(): number {
+    return this._frames;
+  }
+  
+  /**
+   * 首个样本对应的上下文时间（尚未开始处理时为 null）
+   * 
+   * 未暂停过时，第 n 帧对应 startTime + n / sampleRate
+   */
+  get startTime(): number | null {
+    return this._startTime;
+  }
+  
+  /** 是否暂停 */
+  get paused(): boolean {
+    return this._paused;
+  }
+  
+  /** 是否已停止 */
+  get stopped(): boolean {
+    return this._stopped;
+  }
+  
+  /** 数据回调 */
+  set onData(callback: CaptureCallback | null) {
+    this._onData = callback;
+  }
+  
+  // ============================================
+  // 连接
+  // ============================================
+  
+  /** 连接源节点 */
+  connect(source: AudioNode): void {
+    if (this._sources.has(source)) return;
+    source.connect(this._node);
+    this._sources.add(source);
+  }
+  
+  /** 断开源节点（不传则断开全部） */
+  disconnect(source?: AudioNode): void {
+    const sources = source ? [source] : Array.from(this._sources);
+    for (const node of sources) {
+      if (this._sources.delete(node)) {
+        node.disconnect(this._node);
+      }
+    }
+  }
+  
+  /**
+   * 等待开始处理
+   * 
+   * @returns 首个样本对应的上下文时间
+   */
+  started(): Promise<number> {
+    if (this._startTime !== null) return Promise.resolve(this._startTime);
+    return new Promise(resolve => this._startWaiters.push(resolve));
+  }
+  
+  /** 立即发送尚未攒满的数据 */
+  flush(): void {
+    this._node.port.postMessage('flush');
+  }
+  
+  /** 暂停采集（不产生数据，也不写入静音） */
+  pause(): void {
+    if (this._stopped || this._paused) return;
+    this._paused = true;
+    this._node.port.postMessage('pause');
+  }
+  
+  /** 恢复采集 */
+  resume(): void {
+    if (this._stopped || !this._paused) return;
+    this._paused = false;
+    this._node.port.postMessage('resume');
+  }
+  
+  /**
+   * 停止采集
+   * 
+   * @returns 剩余数据全部送达 onData 后完成
+   */
+  stop(): Promise<void> {
+    if (this._stopped) return Promise.resolve();
+    this._stopped = true;
+    
+    const stopped = new Promise<void>(resolve => {
+      this._onStopped = resolve;
+    });
+    
+    this.disconnect();
+    this._node.port.postMessage('stop');
+    return stopped.then(() => this._node.disconnect());
+  }
+}
+
+// ============================================
+// 工具函数
+// ============================================
+
+/**
+ * 拼接采集数据块为 AudioBuffer
+ * 
+ * @param context - 上下文
+ * @param chunks - 数据块（每块各声道等长）
+ * @param channels - 声道数
+ * @param from - 起始帧
+ * @param to - 结束帧（不含，默认到末尾）
+ */
+export function concatCaptureChunks(
+  context: BaseAudioContext,
+  chunks: Float32Array[][],
+  channels: number,
+  from: number = 0,
+  to: number = Infinity
+): AudioBuffer {
+  const total = chunks.reduce((sum, chunk) => sum + chunk[0].length, 0);
+  const start = Math.max(0, from);
+  const end = Math.min(to, total);
+  const buffer = context.createBuffer(channels, Math.max(1, end - start), context.sampleRate);
+  
+  for (let channel = 0; channel < channels; channel++) {
+    const data = buffer.getChannelData(channel);
+    let position = 0;
+    for (const chunk of chunks) {
+      const samples = chunk[Math.min(channel, chunk.length - 1)];
+      const chunkEnd = position + samples.length;
+      if (chunkEnd > start && position < end) {
+        const begin = Math.max(start, position);
+        data.set(samples.subarray(begin - position, Math.min(end, chunkEnd) - position), begin - start);
+      }
+      position = chunkEnd;
+    }
+  }
+  
+  return buffer;
+}
+
+export default WAAudioCapture;
@@ -2,8 +2,20 @@
  * WAAudio Editor - 波形编辑器
  * 
  * 支持波形剪辑、淡入淡出、归一化等功能
+ * 
+ * 编辑以非破坏方式记录在编辑列表中：每个片段引用源缓冲区的一段，
+ * 附带反向、增益与淡化包络；需要样本时才渲染
  */
 
+import { WAAudioLoudness } from './loudness';
+import { WAAudioPeakDetector, amplitudeToDb, dbToAmplitude } from './meter';
+import type { WAAudioEffect, WAAudioEffectChain } from './effects';
+import type { WAAudioMarkers, MarkerRegion } from './markers';
+import { resampleBuffer } from './resampler';
+import type { ResampleQuality } from './resampler';
+import { timeStretchBuffer } from './time-stretch';
+import type { TimeStretchOptions } from './time-stretch';
+
 // ============================================
 // 类型定义
 // ============================================
@@ -19,6 +31,189 @@ export interface FadeParams {
   curve: 'linear' | 'exponential' | 'sigmoid';
 }
 
+export interface LoudnessNormalizeOptions {
+  /** 目标综合响度（LUFS），默认 -23（EBU R128），播客常用 -16 */
+  target?: number;
+  /** 真峰值上限（dBTP），不设置则不限制 */
+  truePeakCeiling?: number;
+  /** 超出上限时是否限幅（默认 true）；为 false 时改为降低增益，可能达不到目标响度 */
+  limit?: boolean;
+  /** 限幅器预读时长（秒），默认 0.005 */
+  lookahead?: number;
+  /** 限幅器释放时间（秒），默认 0.05 */
+  release?: number;
+}
+
+export interface LoudnessMeasurement {
+  /** 综合响度 (LUFS) */
+  integrated: number;
+  /** 真峰值 (dBTP) */
+  truePeak: number;
+}
+
+export interface LoudnessNormalizeResult {
+  /** 处理前 */
+  before: LoudnessMeasurement;
+  /** 处理后 */
+  after: LoudnessMeasurement;
+  /** 应用的增益 (dB) */
+  gain: number;
+  /** 是否进行了限幅 */
+  limited: boolean;
+  /** 限幅器最大增益衰减 (dB) */
+  gainReduction: number;
+}
+
+/** 历史记录：编辑列表在 index 处的差异（只记录改动的片段） */
+interface HistoryRecord {
+  label: string;
+  timestamp: number;
+  index: number;
+  removed: readonly EditSegment[];
+  inserted: readonly EditSegment[];
+  /** 编辑前后的声道数 */
+  channels: readonly [number, number];
+  /** 编辑前后的采样率 */
+  sampleRates: readonly [number, number];
+}
+
+/** 默认历史记录内存上限 */
+const DEFAULT_HISTORY_BUDGET = 256 * 1024 * 1024;
+
+/** 每个片段记录的估算开销（字节） */
+const SEGMENT_BYTES = 64;
+
+/** 静音检测的分析窗口（秒） */
+const SILENCE_WINDOW = 0.01;
+
+/** 矩阵乘法 (a × b) */
+function multiplyMatrix(a: readonly (readonly number[])[], b: readonly (readonly number[])[]): number[][] {
+  return a.map(row => b[0].map((_, k) => row.reduce((sum, weight, j) => sum + weight * b[j][k], 0)));
+}
+
+/** 默认声道映射矩阵（to × from）：单声道复制到各声道，多声道平均缩混为单声道，其余按序对应 */
+function channelMatrix(from: number, to: number): number[][] {
+  return Array.from({ length: to }, (_, c) => Array.from({ length: from }, (_, k) => {
+    if (to === 1) return 1 / from;
+    return k === Math.min(c, from - 1) ? 1 : 0;
+  }));
+}
+
+/** 格式化区间，如 0:01.00–0:03.00 */
+function formatRange(start: number, end: number): string {
+  const format = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    return `${mins}:${(seconds - mins * 60).toFixed(2).padStart(5, '0')}`;
+  };
+  return `${format(start)}–${format(end)}`;
+}
+
+/** 片段上的淡化包络（片段内样本坐标，可超出片段范围） */
+export interface EditFade {
+  /** 包络起点（样本，相对片段起点） */
+  readonly start: number;
+  /** 包络长度（样本） */
+  readonly length: number;
+  /** 曲线类型 */
+  readonly curve: FadeParams['curve'];
+  /** 是否为淡入 */
+  readonly fadeIn: boolean;
+  /** 是否镜像（区间被反转后从末端计算曲线） */
+  readonly mirrored: boolean;
+}
+
+/** 编辑列表片段：引用源缓冲区的一段（源缓冲区不会被修改） */
+export interface EditSegment {
+  /** 源缓冲区 */
+  readonly source: AudioBuffer;
+  /** 源起始样本 */
+  readonly offset: number;
+  /** 样本数 */
+  readonly length: number;
+  /** 是否反向读取 */
+  readonly reversed: boolean;
+  /** 线性增益 */
+  readonly gain: number;
+  /** 淡化包络 */
+  readonly fades: readonly EditFade[];
+  /**
+   * 声道矩阵：输出声道 c = Σ matrix[c][k] × 源声道 k
+   * 
+   * 未设置时输出声道 c 读取源声道 min(c, 源声道数 - 1)
+   */
+  readonly matrix?: readonly (readonly number[])[];
+}
+
+/** 单声道缩混方式：平均 (-6dB)、等功率 (-3dB)、直接相加 (0dB，可能削波) */
+export type DownmixLaw = 'average' | 'equal-power' | 'sum';
+
+export interface SpliceOptions {
+  /**
+   * 拼接点吸附到过零点（默认 false）
+   * - 'joint': 所有声道幅度之和最小处
+   * - 'channel': snapChannel 声道最近的过零点
+   */
+  snap?: false | 'joint' | 'channel';
+  /** 'channel' 模式使用的声道（默认 0） */
+  snapChannel?: number;
+  /** 吸附搜索范围（秒，向两侧，默认 0.005） */
+  snapWindow?: number;
+  /** 拼接处交叉淡化时长（秒，默认 0 不淡化） */
+  crossfade?: number;
+  /** 交叉淡化曲线（默认 linear） */
+  curve?: FadeParams['curve'];
+}
+
+export interface ApplyEffectOptions {
+  /**
+   * 尾音处理（混响、延迟等在选区结束后仍有输出）
+   * - 'truncate': 截断在选区内（默认）
+   * - 'extend': 尾音插入选区之后，后续内容后移
+   */
+  tail?: 'truncate' | 'extend';
+  /** 尾音最长时长（秒，默认 5） */
+  maxTail?: number;
+  /** 尾音低于该电平 (dB，默认 -60) 后视为结束 */
+  tailThreshold?: number;
+  /** 干湿比 (0 = 原声, 1 = 全部处理，默认 1) */
+  mix?: number;
+}
+
+export interface SilenceOptions {
+  /** 静音阈值 (dBFS，默认 -50)，所有声道的短时 RMS 均低于阈值视为静音 */
+  threshold?: number;
+  /** 最短静音时长（秒，默认 0.5），更短的停顿视为正常语流 */
+  minDuration?: number;
+  /** 声音两侧保留的余量（秒，默认 0.1） */
+  padding?: number;
+}
+
+export interface StripSilenceOptions extends SilenceOptions {
+  /** 静音缩短到的时长（秒，默认 0 即完全移除） */
+  maxDuration?: number;
+}
+
+export interface EditorOptions {
+  /** 历史记录内存上限（字节，默认 256MB），超出时丢弃最早的记录 */
+  historyBudget?: number;
+  /** 剪切/删除/粘贴的拼接选项 */
+  splice?: SpliceOptions;
+  /** 采样率转换质量（粘贴不同采样率的音频、重采样时使用，默认 'high'） */
+  resampleQuality?: ResampleQuality;
+}
+
+/** 历史记录条目 */
+export interface HistoryEntry {
+  /** 名称，如 "淡入 0:01.00–0:03.00" */
+  label: string;
+  /** 创建时间 (ms) */
+  timestamp: number;
+  /** 该条目独占的内存估算（字节；多个条目共享的源缓冲区分别计入） */
+  bytes: number;
+  /** 是否已应用（位于当前状态之前） */
+  applied: boolean;
+}
+
 export interface EditOperation {
   type: 'cut' | 'copy' | 'delete' | 'trim' | 'silence' | 'reverse';
   range: EditRange;
@@ -36,88 +231,300 @@ export interface EditOperation {
  * const editor = new WAAudioEditor(context, buffer);
  * editor.cut(0, 5);  // 剪切 0-5 秒
  * editor.fadeIn(0, 1);  // 淡入 0-1 秒
+ * 
+ * // 拼接点吸附过零点并做 5ms 交叉淡化，避免咔嗒声
+ * editor.setSpliceOptions({ snap: 'joint', crossfade: 0.005 });
+ * 
+ * // 对选区应用混响并保留尾音
+ * await editor.applyEffect(2, 4, reverb, { tail: 'extend', mix: 0.5 });
+ * 
+ * // 播客：停顿超过 0.8 秒的缩短到 0.4 秒
+ * editor.stripSilence({ threshold: -45, minDuration: 0.8, maxDuration: 0.4 });
+ * 
+ * // 10-20 秒放慢到 0.8 倍速，音高不变
+ * editor.timeStretch(10, 20, 1.25, { mode: 'speech' });
+ * 
+ * editor.getHistory();  // [{ label: '剪切 0:00.00–0:05.00', ... }, ...]
+ * editor.goTo(0);       // 回到打开时的状态
+ * 
+ * const result = editor.render();  // 渲染编辑结果
  * ```
  */
 export class WAAudioEditor {
-  private readonly context: AudioContext;
-  private _buffer: AudioBuffer;
-  private _undoStack: AudioBuffer[] = [];
-  private _redoStack: AudioBuffer[] = [];
-  private readonly _maxUndoSteps = 20;
+  private readonly _context: AudioContext;
+  private _sampleRate: number;
+  private _numberOfChannels: number;
+  
+  /** 编辑列表（每次编辑替换为新数组，片段不可变） */
+  private _segments: readonly EditSegment[];
+  
+  /** 编辑列表总样本数 */
+  private _length: number;
+  
+  /** 渲染缓存（编辑后失效） */
+  private _rendered: AudioBuffer | null = null;
   
-  constructor(context: AudioContext, buffer: AudioBuffer) {
-    this.context = context;
-    this._buffer = this._cloneBuffer(buffer);
+  /** 历史记录（前 _historyPosition 条已应用） */
+  private _history: HistoryRecord[] = [];
+  private _historyPosition = 0;
+  private _historyBudget: number;
+  
+  /** 拼接选项 */
+  private _spliceOptions: Required<SpliceOptions> = {
+    snap: false,
+    snapChannel: 0,
+    snapWindow: 0.005,
+    crossfade: 0,
+    curve: 'linear'
+  };
+  
+  /** 采样率转换质量 */
+  private _resampleQuality: ResampleQuality;
+  
+  constructor(context: AudioContext, buffer: AudioBuffer, options: EditorOptions = {}) {
+    this._context = context;
+    this._historyBudget = Math.max(0, options.historyBudget ?? DEFAULT_HISTORY_BUDGET);
+    this._resampleQuality = options.resampleQuality ?? 'high';
+    this._sampleRate = buffer.sampleRate;
+    this._numberOfChannels = buffer.numberOfChannels;
+    this._segments = [this._createSegment(this._cloneBuffer(buffer))];
+    this._length = buffer.length;
+    
+    if (options.splice) {
+      this.setSpliceOptions(options.splice);
+    }
   }
   
   // ============================================
   // 属性访问器
   // ============================================
   
-  /** 音频缓冲区 */
+  /** 音频缓冲区（渲染结果） */
   get buffer(): AudioBuffer {
-    return this._buffer;
+    return this.render();
   }
   
   /** 时长（秒） */
   get duration(): number {
-    return this._buffer.duration;
+    return this._length / this._sampleRate;
   }
   
   /** 采样数 */
   get length(): number {
-    return this._buffer.length;
+    return this._length;
   }
   
   /** 采样率 */
   get sampleRate(): number {
-    return this._buffer.sampleRate;
+    return this._sampleRate;
   }
   
   /** 声道数 */
   get numberOfChannels(): number {
-    return this._buffer.numberOfChannels;
+    return this._numberOfChannels;
+  }
+  
+  /** 编辑列表 */
+  get editList(): readonly EditSegment[] {
+    return this._segments;
+  }
+  
+  /** 拼接选项 */
+  get spliceOptions(): Required<SpliceOptions> {
+    return { ...this._spliceOptions };
   }
   
   // ============================================
-  // 撤销/重做
+  // 渲染
   // ============================================
   
-  /** 保存当前状态到撤销栈 */
-  private _saveState(): void {
-    this._undoStack.push(this._cloneBuffer(this._buffer));
-    
-    // 限制撤销栈大小
-    if (this._undoStack.length > this._maxUndoSteps) {
-      this._undoStack.shift();
+  /**
+   * 渲染编辑结果
+   * 
+   * 结果会被缓存直到下次编辑；返回的缓冲区不应被修改，需要修改请使用 toBuffer()
+   */
+  render(): AudioBuffer {
+    if (!this._rendered) {
+      this._rendered = this._renderRange(0, this._length);
     }
-    
-    // 清空重做栈
-    this._redoStack = [];
+    return this._rendered;
+  }
+  
+  // ============================================
+  // 撤销/重做
+  // ============================================
+  
+  /** 可撤销的步数 */
+  get undoSteps(): number {
+    return this._historyPosition;
+  }
+  
+  /** 可重做的步数 */
+  get redoSteps(): number {
+    return this._history.length - this._historyPosition;
+  }
+  
+  /** 历史记录占用的内存估算（字节，不含当前状态） */
+  get historyBytes(): number {
+    return this._historyBytes(this._history);
   }
   
   /** 撤销 */
   undo(): boolean {
-    if (this._undoStack.length === 0) return false;
+    if (this._historyPosition === 0) return false;
     
-    this._redoStack.push(this._cloneBuffer(this._buffer));
-    this._buffer = this._undoStack.pop()!;
+    const record = this._history[--this._historyPosition];
+    this._numberOfChannels = record.channels[0];
+    this._sampleRate = record.sampleRates[0];
+    this._setSegments(this._splice(record.index, record.inserted.length, record.removed));
     return true;
   }
   
   /** 重做 */
   redo(): boolean {
-    if (this._redoStack.length === 0) return false;
+    if (this._historyPosition === this._history.length) return false;
+    
+    const record = this._history[this._historyPosition++];
+    this._numberOfChannels = record.channels[1];
+    this._sampleRate = record.sampleRates[1];
+    this._setSegments(this._splice(record.index, record.removed.length, record.inserted));
+    return true;
+  }
+  
+  /**
+   * 跳转到历史中的任意位置
+   * 
+   * @param position - 已应用的条目数（0 为最早可恢复的状态）
+   */
+  goTo(position: number): boolean {
+    if (position < 0 || position > this._history.length) return false;
     
-    this._undoStack.push(this._cloneBuffer(this._buffer));
-    this._buffer = this._redoStack.pop()!;
+    while (this._historyPosition > position) this.undo();
+    while (this._historyPosition < position) this.redo();
     return true;
   }
   
+  /** 获取历史记录（按时间顺序） */
+  getHistory(): HistoryEntry[] {
+    return this._history.map((record, index) => ({
+      label: record.label,
+      timestamp: record.timestamp,
+      bytes: this._historyBytes([record]),
+      applied: index < this._historyPosition
+    }));
+  }
+  
+  /**
+   * 设置历史记录内存上限
+   * 
+   * @param bytes - 字节数
+   */
+  setHistoryBudget(bytes: number): this {
+    this._historyBudget = Math.max(0, bytes);
+    this._enforceBudget();
+    return this;
+  }
+  
   /** 清空历史 */
   clearHistory(): void {
-    this._undoStack = [];
-    this._redoStack = [];
+    this._history = [];
+    this._historyPosition = 0;
+  }
+  
+  /**
+   * 应用编辑并记录差异
+   * 
+   * 新编辑会丢弃可重做的记录
+   * 
+   * @param channels - 编辑后的声道数（默认不变）
+   * @param sampleRate - 编辑后的采样率（默认不变）
+   */
+  private _commit(
+    label: string,
+    segments: readonly EditSegment[],
+    channels: number = this._numberOfChannels,
+    sampleRate: number = this._sampleRate
+  ): void {
+    const previous = this._segments;
+    
+    // 跳过首尾未改动的片段（片段不可变，按引用比较）
+    let prefix = 0;
+    while (prefix < previous.length && prefix < segments.length && previous[prefix] === segments[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < previous.length - prefix &&
+      suffix < segments.length - prefix &&
+      previous[previous.length - 1 - suffix] === segments[segments.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+    
+    this._history.length = this._historyPosition;
+    this._history.push({
+      label,
+      timestamp: Date.now(),
+      index: prefix,
+      removed: previous.slice(prefix, previous.length - suffix),
+      inserted: segments.slice(prefix, segments.length - suffix),
+      channels: [this._numberOfChannels, channels],
+      sampleRates: [this._sampleRate, sampleRate]
+    });
+    this._historyPosition++;
+    
+    this._numberOfChannels = channels;
+    this._sampleRate = sampleRate;
+    this._setSegments(segments);
+    this._enforceBudget();
+  }
+  
+  /**
+   * 替换当前编辑列表的一段
+   */
+  private _splice(index: number, count: number, segments: readonly EditSegment[]): EditSegment[] {
+    return [
+      ...this._segments.slice(0, index),
+      ...segments,
+      ...this._segments.slice(index + count)
+    ];
+  }
+  
+  /**
+   * 估算历史记录的内存：当前状态未引用的源缓冲区 + 片段记录开销
+   */
+  private _historyBytes(records: readonly HistoryRecord[]): number {
+    const current = new Set(this._segments.map(segment => segment.source));
+    const sources: Set<AudioBuffer> = new Set();
+    let bytes = 0;
+    
+    for (const record of records) {
+      for (const segment of [...record.removed, ...record.inserted]) {
+        bytes += SEGMENT_BYTES;
+        if (!current.has(segment.source)) {
+          sources.add(segment.source);
+        }
+      }
+    }
+    
+    sources.forEach(source => {
+      bytes += source.length * source.numberOfChannels * Float32Array.BYTES_PER_ELEMENT;
+    });
+    return bytes;
+  }
+  
+  /**
+   * 超出内存上限时丢弃记录：先丢最早的撤销记录，再丢最远的重做记录
+   */
+  private _enforceBudget(): void {
+    while (this._history.length > 0 && this.historyBytes > this._historyBudget) {
+      if (this._historyPosition > 0) {
+        this._history.shift();
+        this._historyPosition--;
+      } else {
+        this._history.pop();
+      }
+    }
   }
   
   // ============================================
@@ -134,27 +541,17 @@ export class WAAudioEditor {
   cut(start: number, end: number): AudioBuffer | null {
     if (start >= end || start < 0 || end > this.duration) return null;
     
-    this._saveState();
-    
-    const startSample = Math.floor(start * this.sampleRate);
-    const endSample = Math.floor(end * this.sampleRate);
-    const cutLength = endSample - startSample;
+    const startSample = this._snapToZero(Math.floor(start * this.sampleRate));
+    const endSample = this._snapToZero(Math.floor(end * this.sampleRate));
+    if (startSample >= endSample) return null;
     
     // 保存被剪切的片段
-    const cutBuffer = this._context.createBuffer(
-      this.numberOfChannels,
-      cutLength,
-      this.sampleRate
-    );
-    
-    for (let channel = 0; channel < this.numberOfChannels; channel++) {
-      const srcData = this._buffer.getChannelData(channel);
-      const dstData = cutBuffer.getChannelData(channel);
-      dstData.set(srcData.subarray(startSample, endSample));
-    }
+    const cutBuffer = this._renderRange(startSample, endSample);
     
-    // 创建新缓冲区
-    this._buffer = this._createBufferWithGap(startSample, endSample);
+    this._commit(
+      `剪切 ${formatRange(startSample / this.sampleRate, endSample / this.sampleRate)}`,
+      this._spliceRemove(startSample, endSample)
+    );
     
     return cutBuffer;
   }
@@ -168,10 +565,13 @@ export class WAAudioEditor {
   delete(start: number, end: number): void {
     if (start >= end || start < 0 || end > this.duration) return;
     
-    this._saveState();
-    this._buffer = this._createBufferWithGap(
-      Math.floor(start * this.sampleRate),
-      Math.floor(end * this.sampleRate)
+    const startSample = this._snapToZero(Math.floor(start * this.sampleRate));
+    const endSample = this._snapToZero(Math.floor(end * this.sampleRate));
+    if (startSample >= endSample) return;
+    
+    this._commit(
+      `删除 ${formatRange(startSample / this.sampleRate, endSample / this.sampleRate)}`,
+      this._spliceRemove(startSample, endSample)
     );
   }
   
@@ -185,27 +585,16 @@ export class WAAudioEditor {
   copy(start: number, end: number): AudioBuffer | null {
     if (start >= end || start < 0 || end > this.duration) return null;
     
-    const startSample = Math.floor(start * this.sampleRate);
-    const endSample = Math.floor(end * this.sampleRate);
-    const copyLength = endSample - startSample;
-    
-    const copyBuffer = this._context.createBuffer(
-      this.numberOfChannels,
-      copyLength,
-      this.sampleRate
+    return this._renderRange(
+      Math.floor(start * this.sampleRate),
+      Math.floor(end * this.sampleRate)
     );
-    
-    for (let channel = 0; channel < this.numberOfChannels; channel++) {
-      const srcData = this._buffer.getChannelData(channel);
-      const dstData = copyBuffer.getChannelData(channel);
-      dstData.set(srcData.subarray(startSample, endSample));
-    }
-    
-    return copyBuffer;
   }
   
   /**
-   * 粘贴 - 在指定位置粘贴音频
+   * 粘贴 - 在指定位置粘贴音频（覆盖原有内容，超出末尾时延长）
+   * 
+   * 采样率不同的音频先转换为当前采样率
    * 
    * @param position - 粘贴位置（秒）
    * @param buffer - 要粘贴的音频
@@ -213,32 +602,30 @@ export class WAAudioEditor {
   paste(position: number, buffer: AudioBuffer): void {
     if (position < 0 || position > this.duration) return;
     
-    this._saveState();
+    const source = buffer.sampleRate === this.sampleRate
+      ? this._cloneBuffer(buffer)
+      : resampleBuffer(this._context, buffer, this.sampleRate, this._resampleQuality);
     
-    const positionSample = Math.floor(position * this.sampleRate);
-    const newLength = positionSample + buffer.length;
-    
-    const newBuffer = this._context.createBuffer(
-      this.numberOfChannels,
-      Math.max(this.length, newLength),
-      this.sampleRate
+    const positionSample = this._snapToZero(Math.floor(position * this.sampleRate));
+    const time = positionSample / this.sampleRate;
+    this._commit(
+      `粘贴 ${formatRange(time, time + source.duration)}`,
+      this._spliceInsert(positionSample, this._createSegment(source, this.numberOfChannels))
     );
-    
-    // 复制原有数据
-    for (let channel = 0; channel < this.numberOfChannels; channel++) {
-      const srcData = this._buffer.getChannelData(channel);
-      const dstData = newBuffer.getChannelData(channel);
-      dstData.set(srcData);
-    }
-    
-    // 插入新数据
-    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
-      const srcData = buffer.getChannelData(Math.min(channel, this.numberOfChannels - 1));
-      const dstData = newBuffer.getChannelData(channel);
-      dstData.set(srcData, positionSample);
-    }
-    
-    this._buffer = newBuffer;
+  }
+  
+  /**
+   * 设置拼接选项（剪切/删除/粘贴时生效）
+   */
+  setSpliceOptions(options: SpliceOptions): this {
+    this._spliceOptions = {
+      snap: options.snap ?? this._spliceOptions.snap,
+      snapChannel: Math.max(0, Math.min(options.snapChannel ?? this._spliceOptions.snapChannel, this.numberOfChannels - 1)),
+      snapWindow: Math.max(0, options.snapWindow ?? this._spliceOptions.snapWindow),
+      crossfade: Math.max(0, options.crossfade ?? this._spliceOptions.crossfade),
+      curve: options.curve ?? this._spliceOptions.curve
+    };
+    return this;
   }
   
   /**
@@ -250,25 +637,10 @@ export class WAAudioEditor {
   trim(start: number, end: number): void {
     if (start >= end || start < 0 || end > this.duration) return;
     
-    this._saveState();
-    
-    const startSample = Math.floor(start * this.sampleRate);
-    const endSample = Math.floor(end * this.sampleRate);
-    const newLength = endSample - startSample;
-    
-    const newBuffer = this._context.createBuffer(
-      this.numberOfChannels,
-      newLength,
-      this.sampleRate
-    );
-    
-    for (let channel = 0; channel < this.numberOfChannels; channel++) {
-      const srcData = this._buffer.getChannelData(channel);
-      const dstData = newBuffer.getChannelData(channel);
-      dstData.set(srcData.subarray(startSample, endSample));
-    }
-    
-    this._buffer = newBuffer;
+    this._commit(`修剪 ${formatRange(start, end)}`, this._slice(
+      Math.floor(start * this.sampleRate),
+      Math.floor(end * this.sampleRate)
+    ));
   }
   
   /**
@@ -280,15 +652,11 @@ export class WAAudioEditor {
   silence(start: number, end: number): void {
     if (start >= end || start < 0 || end > this.duration) return;
     
-    this._saveState();
-    
-    const startSample = Math.floor(start * this.sampleRate);
-    const endSample = Math.floor(end * this.sampleRate);
-    
-    for (let channel = 0; channel < this.numberOfChannels; channel++) {
-      const data = this._buffer.getChannelData(channel);
-      data.fill(0, startSample, endSample);
-    }
+    this._commit(`静音 ${formatRange(start, end)}`, this._mapRange(
+      Math.floor(start * this.sampleRate),
+      Math.floor(end * this.sampleRate),
+      segment => ({ ...segment, gain: 0, fades: [] })
+    ));
   }
   
   /**
@@ -300,22 +668,145 @@ export class WAAudioEditor {
   reverse(start: number, end: number): void {
     if (start >= end || start < 0 || end > this.duration) return;
     
-    this._saveState();
-    
     const startSample = Math.floor(start * this.sampleRate);
     const endSample = Math.floor(end * this.sampleRate);
-    const length = endSample - startSample;
     
-    for (let channel = 0; channel < this.numberOfChannels; channel++) {
-      const data = this._buffer.getChannelData(channel);
-      const reversed = new Float32Array(length);
+    // 片段倒序，每个片段反向读取，包络随之镜像
+    const reversed = this._slice(startSample, endSample).reverse().map(segment => ({
+      ...segment,
+      reversed: !segment.reversed,
+      fades: segment.fades.map(fade => ({
+        ...fade,
+        start: segment.length - fade.start - fade.length,
+        mirrored: !fade.mirrored
+      }))
+    }));
+    
+    this._commit(`反转 ${formatRange(start, end)}`, [
+      ...this._slice(0, startSample),
+      ...reversed,
+      ...this._slice(endSample, this._length)
+    ]);
+  }
+  
+  // ============================================
+  // 拼接
+  // ============================================
+  
+  /**
+   * 把拼接点吸附到过零点
+   * 
+   * 拼接点 i 位于样本 i-1 与 i 之间；找不到时保持原位置
+   */
+  private _snapToZero(sample: number): number {
+    const { snap, snapChannel, snapWindow } = this._spliceOptions;
+    if (!snap || sample <= 0 || sample >= this._length) return sample;
+    
+    const radius = Math.max(1, Math.round(snapWindow * this.sampleRate));
+    const from = Math.max(1, sample - radius);
+    const to = Math.min(this._length - 1, sample + radius);
+    if (from > to) return sample;
+    
+    const window = this._renderRange(from - 1, to + 1);
+    const channels = this._getChannels(window);
+    
+    let best = sample;
+    let bestScore = Infinity;
+    for (let i = from; i <= to; i++) {
+      const k = i - from + 1;
+      let score: number;
       
-      for (let i = 0; i < length; i++) {
-        reversed[i] = data[endSample - 1 - i];
+      if (snap === 'joint') {
+        score = channels.reduce((sum, data) => sum + Math.abs(data[k - 1]) + Math.abs(data[k]), 0);
+      } else {
+        const data = channels[Math.min(snapChannel, channels.length - 1)];
+        const crosses = data[k] === 0 || (data[k - 1] < 0) !== (data[k] < 0);
+        if (!crosses) continue;
+        score = Math.abs(i - sample);
+      }
+      
+      // 同分时取距离近者
+      if (score < bestScore || (score === bestScore && Math.abs(i - sample) < Math.abs(best - sample))) {
+        best = i;
+        bestScore = score;
       }
+    }
+    
+    return best;
+  }
+  
+  /**
+   * 移除 [from, to) 并在拼接点做交叉淡化
+   * 
+   * 淡化以拼接点为中心：前段延续到被删部分中淡出，后段从被删部分中提前淡入，总长度不变
+   */
+  private _spliceRemove(from: number, to: number): EditSegment[] {
+    const half = Math.floor(Math.min(this._spliceOptions.crossfade * this.sampleRate / 2, from, this._length - to));
+    if (half < 1) {
+      return this._removeRange(from, to);
+    }
+    
+    const crossfade = this._crossfadeBuffers(
+      this._renderRange(from - half, from + half),
+      this._renderRange(to - half, to + half)
+    );
+    
+    return [
+      ...this._slice(0, from - half),
+      this._createSegment(crossfade),
+      ...this._slice(to + half, this._length)
+    ];
+  }
+  
+  /**
+   * 在 position 处覆盖插入片段，并在两端做交叉淡化
+   * 
+   * 淡化位于插入片段内部：开头由原内容淡入插入内容，结尾由插入内容淡回原内容
+   */
+  private _spliceInsert(position: number, segment: EditSegment): EditSegment[] {
+    const end = position + segment.length;
+    const length = Math.floor(Math.min(this._spliceOptions.crossfade * this.sampleRate, segment.length / 2));
+    const head = Math.min(length, Math.max(0, this._length - position));
+    const tail = Math.min(length, Math.max(0, this._length - end));
+    
+    const segments: EditSegment[] = [...this._slice(0, position)];
+    
+    if (head > 0) {
+      segments.push(this._createSegment(this._crossfadeBuffers(
+        this._renderRange(position, position + head),
+        this._renderSegments([this._sliceSegment(segment, 0, head)], head)
+      )));
+    }
+    segments.push(this._sliceSegment(segment, head, segment.length - tail));
+    if (tail > 0) {
+      segments.push(this._createSegment(this._crossfadeBuffers(
+        this._renderSegments([this._sliceSegment(segment, segment.length - tail, segment.length)], tail),
+        this._renderRange(end - tail, end)
+      )));
+    }
+    
+    segments.push(...this._slice(end, this._length));
+    return segments;
+  }
+  
+  /**
+   * 交叉淡化两段等长音频：前者淡出，后者淡入（结果写入前者）
+   */
+  private _crossfadeBuffers(fadingOut: AudioBuffer, fadingIn: AudioBuffer): AudioBuffer {
+    const length = fadingOut.length;
+    const curve = this._spliceOptions.curve;
+    
+    for (let channel = 0; channel < fadingOut.numberOfChannels; channel++) {
+      const outData = fadingOut.getChannelData(channel);
+      const inData = fadingIn.getChannelData(channel);
       
-      data.set(reversed, startSample);
+      for (let i = 0; i < length; i++) {
+        const t = i / length;
+        outData[i] = outData[i] * this._applyCurve(t, curve, false) + inData[i] * this._applyCurve(t, curve, true);
+      }
     }
+    
+    return fadingOut;
   }
   
   // ============================================
@@ -350,20 +841,16 @@ export class WAAudioEditor {
   private _fade(start: number, duration: number, curve: FadeParams['curve'], isFadeIn: boolean): void {
     if (duration <= 0 || start < 0 || start + duration > this.duration) return;
     
-    this._saveState();
-    
     const startSample = Math.floor(start * this.sampleRate);
     const endSample = Math.floor((start + duration) * this.sampleRate);
+    const length = endSample - startSample;
     
-    for (let channel = 0; channel < this.numberOfChannels; channel++) {
-      const data = this._buffer.getChannelData(channel);
-      
-      for (let i = 0; i < endSample - startSample; i++) {
-        const t = i / (endSample - startSample);
-        const gain = this._applyCurve(t, curve, isFadeIn);
-        data[startSample + i] *= gain;
-      }
-    }
+    // 包络覆盖整个区间，各片段按自身位置偏移
+    const label = `${isFadeIn ? '淡入' : '淡出'} ${formatRange(start, start + duration)}`;
+    this._commit(label, this._mapRange(startSample, endSample, (segment, position) => ({
+      ...segment,
+      fades: [...segment.fades, { start: -position, length, curve, fadeIn: isFadeIn, mirrored: false }]
+    })));
   }
   
   /**
@@ -406,50 +893,627 @@ export class WAAudioEditor {
     const targetLinear = Math.pow(10, targetDb / 20);
     const gain = targetLinear / peak;
     
-    this._saveState();
-    this._applyGain(0, this.duration, gain);
+    this._commit(`归一化 ${targetDb}dB`, this._applyGain(0, this.duration, gain));
     
     return gain;
   }
   
   /**
-   * 增益 - 调整音量
+   * 响度归一化 - 将综合响度调整到目标 LUFS
    * 
-   * @param gainDb - 增益量（dB）
+   * 设置真峰值上限时，增益后超出上限的部分由预读限幅器压住（或改为降低增益）
+   * 
+   * @returns 处理前后的测量值；静音时返回 null 且不做修改
    */
-  gain(gainDb: number): void {
-    const linearGain = Math.pow(10, gainDb / 20);
-    this._saveState();
-    this._applyGain(0, this.duration, linearGain);
+  normalizeLoudness(options: LoudnessNormalizeOptions = {}): LoudnessNormalizeResult | null {
+    const target = options.target ?? -23;
+    const ceiling = options.truePeakCeiling;
+    const before = this.measureLoudness();
+    
+    if (!isFinite(before.integrated)) return null;
+    
+    let gainDb = target - before.integrated;
+    const overshoot = ceiling === undefined ? 0 : before.truePeak + gainDb - ceiling;
+    
+    // 不限幅：降低增益以满足真峰值上限
+    if (overshoot > 0 && options.limit === false) {
+      gainDb -= overshoot;
+    }
+    
+    const original = this._getChannels(this.render());
+    const working = this._context.createBuffer(this.numberOfChannels, this.length, this.sampleRate);
+    const channels = this._getChannels(working);
+    
+    let after = before;
+    let limited = false;
+    let gainReduction = 0;
+    
+    // 限幅会降低响度：补偿增益后重新处理，直到接近目标
+    for (let pass = 0; pass < 4; pass++) {
+      const gain = dbToAmplitude(gainDb);
+      channels.forEach((data, channel) => {
+        const source = original[channel];
+        for (let i = 0; i < data.length; i++) {
+          data[i] = source[i] * gain;
+        }
+      });
+      
+      limited = ceiling !== undefined && options.limit !== false && before.truePeak + gainDb > ceiling;
+      gainReduction = limited
+        ? this._limitTruePeak(channels, ceiling!, options.lookahead ?? 0.005, options.release ?? 0.05)
+        : 0;
+      
+      after = this._measure(working);
+      if (!limited || Math.abs(target - after.integrated) < 0.1) break;
+      
+      gainDb += target - after.integrated;
+    }
+    
+    // 仅增益时保留编辑列表；限幅结果作为新的源缓冲区
+    const label = `响度归一化 ${target} LUFS`;
+    this._commit(label, limited
+      ? [this._createSegment(working)]
+      : this._applyGain(0, this.duration, dbToAmplitude(gainDb)));
+    
+    return { before, after, gain: gainDb, limited, gainReduction };
   }
   
   /**
-   * 应用增益到指定范围
+   * 测量综合响度与真峰值
    */
-  private _applyGain(start: number, end: number, gain: number): void {
-    const startSample = Math.floor(start * this.sampleRate);
+  measureLoudness(): LoudnessMeasurement {
+    return this._measure(this.render());
+  }
+  
+  /**
+   * 增益 - 调整音量
+   * 
+   * @param gainDb - 增益量（dB）
+   */
+  gain(gainDb: number): void {
+    const linearGain = Math.pow(10, gainDb / 20);
+    this._commit(`增益 ${gainDb >= 0 ? '+' : ''}${gainDb.toFixed(1)}dB`, this._applyGain(0, this.duration, linearGain));
+  }
+  
+  /**
+   * 应用增益到指定范围
+   */
+  private _applyGain(start: number, end: number, gain: number): EditSegment[] {
+    return this._mapRange(
+      Math.floor(start * this.sampleRate),
+      Math.floor(end * this.sampleRate),
+      segment => ({ ...segment, gain: segment.gain * gain })
+    );
+  }
+  
+  /**
+   * 真峰值限幅（声道联动）
+   * 
+   * 预读期间线性压下增益，之后按释放时间恢复；结果仍超出上限时降低阈值重试
+   * 
+   * @returns 最大增益衰减 (dB)
+   */
+  private _limitTruePeak(channels: Float32Array[], ceilingDb: number, lookahead: number, release: number): number {
+    let threshold = ceilingDb;
+    let output: Float32Array[] = channels;
+    let minGain = 1;
+    
+    for (let attempt = 0; attempt < 4; attempt++) {
+      const gains = this._limiterGains(channels, dbToAmplitude(threshold), lookahead, release);
+      output = channels.map(data => data.map((sample, i) => sample * gains[i]));
+      minGain = gains.reduce((min, gain) => Math.min(min, gain), 1);
+      
+      const truePeak = this._measureTruePeak(output);
+      if (truePeak <= ceilingDb) break;
+      
+      // 采样间峰值仍越限：按超出量降低阈值
+      threshold -= truePeak - ceilingDb + 0.1;
+    }
+    
+    output.forEach((data, channel) => channels[channel].set(data));
+    return -amplitudeToDb(minGain);
+  }
+  
+  /**
+   * 计算限幅增益曲线
+   * 
+   * 先取预读窗口内所需增益的最小值，再做等长的滑动平均，保证峰值处增益不高于所需
+   */
+  private _limiterGains(channels: Float32Array[], ceiling: number, lookahead: number, release: number): Float32Array {
+    const length = channels[0]?.length ?? 0;
+    const window = Math.max(1, Math.round(lookahead * this.sampleRate));
+    
+    // 所需增益（声道联动）
+    const required = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      let peak = 0;
+      for (const data of channels) {
+        peak = Math.max(peak, Math.abs(data[i]));
+      }
+      required[i] = peak > ceiling ? ceiling / peak : 1;
+    }
+    
+    // 向后 window 个样本内的最小值（单调队列）
+    const held = new Float32Array(length);
+    const queue: number[] = [];
+    let head = 0;
+    for (let i = length - 1; i >= 0; i--) {
+      while (queue.length > head && required[queue[queue.length - 1]] >= required[i]) {
+        queue.pop();
+      }
+      queue.push(i);
+      while (queue[head] > i + window) {
+        head++;
+      }
+      held[i] = required[queue[head]];
+    }
+    
+    // 向前 window 个样本的滑动平均 + 释放（开头之前视为与首个值相同）
+    const gains = new Float32Array(length);
+    const releaseCoef = 1 - Math.exp(-1 / Math.max(1, release * this.sampleRate));
+    const initial = held[0] ?? 1;
+    let sum = 0;
+    let gain = 1;
+    for (let i = 0; i < length; i++) {
+      sum += held[i] - (i > window ? held[i - window - 1] : initial);
+      const attack = initial + sum / (window + 1);
+      gain = attack < gain ? attack : gain + (attack - gain) * releaseCoef;
+      gains[i] = Math.min(gain, attack);
+    }
+    
+    return gains;
+  }
+  
+  // ============================================
+  // 静音处理
+  // ============================================
+  
+  /**
+   * 检测静音区间
+   * 
+   * @returns 扣除余量后的静音区间（秒，按时间排序）
+   */
+  detectSilence(options: SilenceOptions = {}): EditRange[] {
+    const threshold = dbToAmplitude(options.threshold ?? -50);
+    const minDuration = Math.max(0, options.minDuration ?? 0.5);
+    const padding = Math.max(0, options.padding ?? 0.1);
+    
+    const channels = this._getChannels(this.render());
+    const window = Math.max(1, Math.round(SILENCE_WINDOW * this.sampleRate));
+    const ranges: EditRange[] = [];
+    let runStart: number | null = null;
+    
+    const closeRun = (runEnd: number) => {
+      if (runStart === null) return;
+      
+      const start = runStart / this.sampleRate;
+      const end = runEnd / this.sampleRate;
+      runStart = null;
+      if (end - start < minDuration) return;
+      
+      // 开头与结尾的静音不需要余量
+      const paddedStart = start === 0 ? 0 : start + padding;
+      const paddedEnd = runEnd === this._length ? this.duration : end - padding;
+      if (paddedEnd > paddedStart) {
+        ranges.push({ start: paddedStart, end: paddedEnd });
+      }
+    };
+    
+    for (let from = 0; from < this._length; from += window) {
+      const to = Math.min(from + window, this._length);
+      const silent = channels.every(data => {
+        let sum = 0;
+        for (let i = from; i < to; i++) {
+          sum += data[i] * data[i];
+        }
+        return Math.sqrt(sum / (to - from)) < threshold;
+      });
+      
+      if (silent) {
+        runStart ??= from;
+      } else {
+        closeRun(from);
+      }
+    }
+    closeRun(this._length);
+    
+    return ranges;
+  }
+  
+  /**
+   * 移除或缩短静音（一步撤销）
+   * 
+   * @returns 减少的时长（秒）
+   */
+  stripSilence(options: StripSilenceOptions = {}): number {
+    const maxDuration = Math.max(0, options.maxDuration ?? 0);
+    
+    // 缩短时保留静音的前后各一半
+    const removals = this.detectSilence(options)
+      .map(range => {
+        const keep = Math.min(maxDuration, range.end - range.start) / 2;
+        return {
+          start: Math.floor((range.start + keep) * this.sampleRate),
+          end: Math.floor((range.end - keep) * this.sampleRate)
+        };
+      })
+      .filter(range => range.end > range.start);
+    
+    if (removals.length === 0) return 0;
+    
+    const segments: EditSegment[] = [];
+    let position = 0;
+    let removed = 0;
+    for (const range of removals) {
+      segments.push(...this._slice(position, range.start));
+      removed += range.end - range.start;
+      position = range.end;
+    }
+    segments.push(...this._slice(position, this._length));
+    
+    const label = maxDuration > 0 ? '缩短静音' : '删除静音';
+    this._commit(`${label} (${removals.length} 处)`, segments);
+    return removed / this.sampleRate;
+  }
+  
+  /**
+   * 按静音分割
+   * 
+   * @returns 有声区间（秒，按时间排序）
+   */
+  findSoundRegions(options: SilenceOptions = {}): EditRange[] {
+    const regions: EditRange[] = [];
+    let position = 0;
+    
+    for (const silence of this.detectSilence(options)) {
+      if (silence.start > position) {
+        regions.push({ start: position, end: silence.start });
+      }
+      position = silence.end;
+    }
+    if (position < this.duration) {
+      regions.push({ start: position, end: this.duration });
+    }
+    
+    return regions;
+  }
+  
+  /**
+   * 按静音分割为多个缓冲区（不修改当前内容）
+   */
+  splitOnSilence(options: SilenceOptions = {}): AudioBuffer[] {
+    return this.findSoundRegions(options)
+      .map(region => this.copy(region.start, region.end))
+      .filter((buffer): buffer is AudioBuffer => buffer !== null);
+  }
+  
+  /**
+   * 按静音分割为标记区间
+   * 
+   * 在 markers 中为每个有声区间添加起止标记
+   * 
+   * @param markers - 标记管理器
+   * @param options - 静音检测选项
+   * @param name - 区间名称前缀
+   */
+  markSoundRegions(markers: WAAudioMarkers, options: SilenceOptions = {}, name: string = '片段'): MarkerRegion[] {
+    return this.findSoundRegions(options).map((region, index) => {
+      const startId = markers.add(`${name} ${index + 1}`, region.start);
+      const endId = markers.add(`${name} ${index + 1} 结束`, region.end);
+      return { start: markers.get(startId)!, end: markers.get(endId)! };
+    });
+  }
+  
+  // ============================================
+  // 声道操作
+  // ============================================
+  
+  /**
+   * 缩混为单声道
+   * 
+   * @param law - 缩混方式（默认 'average'）
+   */
+  toMono(law: DownmixLaw = 'average'): void {
+    const channels = this.numberOfChannels;
+    if (channels === 1) return;
+    
+    const weight = law === 'sum' ? 1 : law === 'equal-power' ? 1 / Math.sqrt(channels) : 1 / channels;
+    this._applyMatrix('缩混为单声道', [new Array(channels).fill(weight)]);
+  }
+  
+  /**
+   * 单声道升混为多声道
+   * 
+   * @param channels - 目标声道数（默认 2）
+   * @param law - 'copy' 各声道原样复制，'equal-power' 各声道 -3dB 保持总功率
+   */
+  upmix(channels: number = 2, law: 'copy' | 'equal-power' = 'copy'): void {
+    if (this.numberOfChannels !== 1) {
+      throw new Error('只能从单声道升混');
+    }
+    if (channels < 2) return;
+    
+    const weight = law === 'equal-power' ? 1 / Math.sqrt(channels) : 1;
+    this._applyMatrix(`升混为 ${channels} 声道`, Array.from({ length: channels }, () => [weight]));
+  }
+  
+  /**
+   * 交换两个声道（默认左右声道）
+   */
+  swapChannels(a: number = 0, b: number = 1): void {
+    this._requireChannel(a);
+    this._requireChannel(b);
+    if (a === b) return;
+    
+    const matrix = this._identityMatrix();
+    [matrix[a], matrix[b]] = [matrix[b], matrix[a]];
+    this._applyMatrix('交换声道', matrix);
+  }
+  
+  /**
+   * 提取单个声道（结果为单声道）
+   */
+  extractChannel(channel: number): void {
+    this._requireChannel(channel);
+    
+    const row = new Array(this.numberOfChannels).fill(0);
+    row[channel] = 1;
+    this._applyMatrix(`提取声道 ${channel + 1}`, [row]);
+  }
+  
+  /**
+   * 反转极性
+   * 
+   * @param channels - 要反转的声道（默认全部）
+   */
+  invertPolarity(channels?: number[]): void {
+    const targets = channels ?? Array.from({ length: this.numberOfChannels }, (_, c) => c);
+    targets.forEach(channel => this._requireChannel(channel));
+    if (targets.length === 0) return;
+    
+    const matrix = this._identityMatrix();
+    for (const channel of new Set(targets)) {
+      matrix[channel][channel] = -1;
+    }
+    this._applyMatrix('反转极性', matrix);
+  }
+  
+  /**
+   * 左右声道转为中置/侧边 (M = (L+R)/2, S = (L-R)/2)
+   */
+  toMidSide(): void {
+    this._requireStereo();
+    this._applyMatrix('转为 M/S', [[0.5, 0.5], [0.5, -0.5]]);
+  }
+  
+  /**
+   * 中置/侧边转回左右声道 (L = M+S, R = M-S)
+   */
+  fromMidSide(): void {
+    this._requireStereo();
+    this._applyMatrix('M/S 转为左右', [[1, 1], [1, -1]]);
+  }
+  
+  /**
+   * 对所有片段应用声道矩阵（目标声道数 × 当前声道数）
+   */
+  private _applyMatrix(label: string, matrix: number[][]): void {
+    const channels = this.numberOfChannels;
+    const segments = this._segments.map(segment => {
+      // 未设置矩阵的片段按渲染规则展开：输出声道 c 读取源声道 min(c, 源声道数 - 1)
+      const sourceChannels = segment.source.numberOfChannels;
+      const current = segment.matrix ?? Array.from({ length: channels }, (_, c) =>
+        Array.from({ length: sourceChannels }, (_, k) => k === Math.min(c, sourceChannels - 1) ? 1 : 0)
+      );
+      return { ...segment, matrix: multiplyMatrix(matrix, current) };
+    });
+    this._commit(label, segments, matrix.length);
+  }
+  
+  /** 当前声道数的单位矩阵 */
+  private _identityMatrix(): number[][] {
+    const channels = this.numberOfChannels;
+    return Array.from({ length: channels }, (_, c) => Array.from({ length: channels }, (_, k) => c === k ? 1 : 0));
+  }
+  
+  /** 检查声道序号 */
+  private _requireChannel(channel: number): void {
+    if (!Number.isInteger(channel) || channel < 0 || channel >= this.numberOfChannels) {
+      throw new Error(`声道不存在: ${channel}`);
+    }
+  }
+  
+  /** 检查是否为立体声 */
+  private _requireStereo(): void {
+    if (this.numberOfChannels !== 2) {
+      throw new Error('需要立体声');
+    }
+  }
+  
+  // ============================================
+  // 采样率转换
+  // ============================================
+  
+  /**
+   * 转换整个音频的采样率（可撤销）
+   * 
+   * @param sampleRate - 目标采样率
+   * @param quality - 转换质量（默认使用 EditorOptions.resampleQuality）
+   */
+  resample(sampleRate: number, quality: ResampleQuality = this._resampleQuality): void {
+    if (sampleRate === this.sampleRate) return;
+    
+    const buffer = resampleBuffer(this._context, this.render(), sampleRate, quality);
+    this._commit(
+      `重采样 ${this.sampleRate} → ${sampleRate}Hz`,
+      [this._createSegment(buffer)],
+      this.numberOfChannels,
+      sampleRate
+    );
+  }
+  
+  /**
+   * 设置采样率转换质量
+   */
+  setResampleQuality(quality: ResampleQuality): this {
+    this._resampleQuality = quality;
+    return this;
+  }
+  
+  // ============================================
+  // 变速不变调
+  // ============================================
+  
+  /**
+   * 拉伸选区时长，音高不变（可撤销）
+   * 
+   * 选区之后的内容随之前移或后移
+   * 
+   * @param start - 起始时间（秒）
+   * @param end - 结束时间（秒）
+   * @param ratio - 时长比例 (0.25-4)，1.25 即放慢到 0.8 倍速
+   * @param options - 处理模式（语音/音乐）
+   */
+  timeStretch(start: number, end: number, ratio: number, options: TimeStretchOptions = {}): void {
+    if (start >= end || start < 0 || end > this.duration || ratio === 1) return;
+    
+    const startSample = Math.floor(start * this.sampleRate);
+    const endSample = Math.floor(end * this.sampleRate);
+    const stretched = timeStretchBuffer(this._context, this._renderRange(startSample, endSample), ratio, options);
+    
+    this._commit(`变速 ×${Number(ratio.toFixed(3))} ${formatRange(start, end)}`, [
+      ...this._slice(0, startSample),
+      this._createSegment(stretched),
+      ...this._slice(endSample, this._length)
+    ]);
+  }
+  
+  // ============================================
+  // 效果处理
+  // ============================================
+  
+  /**
+   * 对选区应用效果器（离线渲染，可撤销）
+   * 
+   * 效果器在 OfflineAudioContext 中复制后渲染，原效果器不受影响
+   * 
+   * @param start - 起始时间（秒）
+   * @param end - 结束时间（秒）
+   * @param effect - 效果器或效果器链
+   * @param options - 尾音与干湿比
+   */
+  async applyEffect(
+    start: number,
+    end: number,
+    effect: WAAudioEffect | WAAudioEffectChain,
+    options: ApplyEffectOptions = {}
+  ): Promise<void> {
+    if (start >= end || start < 0 || end > this.duration) return;
+    
+    const startSample = Math.floor(start * this.sampleRate);
     const endSample = Math.floor(end * this.sampleRate);
+    const length = endSample - startSample;
+    const maxTail = options.tail === 'extend'
+      ? Math.round(Math.max(0, options.maxTail ?? 5) * this.sampleRate)
+      : 0;
+    const mix = Math.max(0, Math.min(options.mix ?? 1, 1));
+    
+    const segments = this._segments;
+    const dry = this._renderRange(startSample, endSample);
     
+    // 离线渲染：选区 + 最长尾音
+    const offline = new OfflineAudioContext(this.numberOfChannels, length + maxTail, this.sampleRate);
+    const processor = effect.clone(offline);
+    const source = offline.createBufferSource();
+    source.buffer = dry;
+    source.connect(processor.input);
+    processor.output.connect(offline.destination);
+    source.start(0);
+    const wet = await offline.startRendering();
+    
+    if (this._segments !== segments) {
+      throw new Error('渲染期间内容已被修改');
+    }
+    
+    // 尾音截到最后一个高于阈值的样本
+    const threshold = dbToAmplitude(options.tailThreshold ?? -60);
+    let tail = 0;
+    for (let channel = 0; channel < wet.numberOfChannels; channel++) {
+      const data = wet.getChannelData(channel);
+      for (let i = data.length - 1; i >= length + tail; i--) {
+        if (Math.abs(data[i]) > threshold) {
+          tail = i - length + 1;
+          break;
+        }
+      }
+    }
+    
+    const result = this._context.createBuffer(this.numberOfChannels, length + tail, this.sampleRate);
     for (let channel = 0; channel < this.numberOfChannels; channel++) {
-      const data = this._buffer.getChannelData(channel);
-      for (let i = startSample; i < endSample; i++) {
-        data[i] *= gain;
+      const wetData = wet.getChannelData(channel);
+      const dryData = dry.getChannelData(channel);
+      const output = result.getChannelData(channel);
+      
+      for (let i = 0; i < output.length; i++) {
+        output[i] = wetData[i] * mix + (i < length ? dryData[i] * (1 - mix) : 0);
       }
     }
+    
+    const name = 'ids' in effect ? effect.ids.join(' + ') : effect.type;
+    this._commit(`效果 ${name} ${formatRange(start, end)}`, [
+      ...this._slice(0, startSample),
+      this._createSegment(result),
+      ...this._slice(endSample, this._length)
+    ]);
   }
   
   // ============================================
   // 工具方法
   // ============================================
   
+  /**
+   * 获取各声道数据
+   */
+  private _getChannels(buffer: AudioBuffer): Float32Array[] {
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      channels.push(buffer.getChannelData(channel));
+    }
+    return channels;
+  }
+  
+  /**
+   * 测量缓冲区的综合响度与真峰值
+   */
+  private _measure(buffer: AudioBuffer): LoudnessMeasurement {
+    return {
+      integrated: WAAudioLoudness.measure(buffer).integrated,
+      truePeak: this._measureTruePeak(this._getChannels(buffer))
+    };
+  }
+  
+  /**
+   * 测量真峰值 (dBTP，所有声道中的最大值)
+   */
+  private _measureTruePeak(channels: Float32Array[]): number {
+    const detector = new WAAudioPeakDetector(channels.length);
+    const peaks = detector.process(channels);
+    
+    // 末尾补零，输出最后几个样本附近的插值峰值
+    const tail = detector.process(channels.map(() => new Float32Array(16)));
+    const peak = Math.max(...peaks.map((p, c) => Math.max(p.true, tail[c].true)));
+    return amplitudeToDb(peak);
+  }
+  
   /**
    * 获取峰值电平
    */
   private _getPeak(): number {
     let peak = 0;
+    const buffer = this.render();
     
     for (let channel = 0; channel < this.numberOfChannels; channel++) {
-      const data = this._buffer.getChannelData(channel);
+      const data = buffer.getChannelData(channel);
       for (let i = 0; i < data.length; i++) {
         const abs = Math.abs(data[i]);
         if (abs > peak) peak = abs;
@@ -465,9 +1529,10 @@ export class WAAudioEditor {
   getRMS(): number {
     let sum = 0;
     const total = this.length * this.numberOfChannels;
+    const buffer = this.render();
     
     for (let channel = 0; channel < this.numberOfChannels; channel++) {
-      const data = this._buffer.getChannelData(channel);
+      const data = buffer.getChannelData(channel);
       for (let i = 0; i < data.length; i++) {
         sum += data[i] * data[i];
       }
@@ -482,9 +1547,10 @@ export class WAAudioEditor {
   getPeakTime(): number {
     let peak = 0;
     let peakTime = 0;
+    const buffer = this.render();
     
     for (let channel = 0; channel < this.numberOfChannels; channel++) {
-      const data = this._buffer.getChannelData(channel);
+      const data = buffer.getChannelData(channel);
       for (let i = 0; i < data.length; i++) {
         const abs = Math.abs(data[i]);
         if (abs > peak) {
@@ -501,7 +1567,7 @@ export class WAAudioEditor {
    * 导出为 AudioBuffer
    */
   toBuffer(): AudioBuffer {
-    return this._cloneBuffer(this._buffer);
+    return this._cloneBuffer(this.render());
   }
   
   /**
@@ -521,29 +1587,197 @@ export class WAAudioEditor {
     return newBuffer;
   }
   
+  // ============================================
+  // 编辑列表
+  // ============================================
+  
   /**
-   * 创建带间隙的缓冲区（用于剪切/删除）
+   * 创建引用整个缓冲区的片段
    */
-  private _createBufferWithGap(removeStart: number, removeEnd: number): AudioBuffer {
-    const newLength = this.length - (removeEnd - removeStart);
-    const newBuffer = this._context.createBuffer(
+  private _createSegment(source: AudioBuffer, channels: number = source.numberOfChannels): EditSegment {
+    const segment: EditSegment = { source, offset: 0, length: source.length, reversed: false, gain: 1, fades: [] };
+    
+    // 声道数不同：单声道复制、缩混为单声道时取平均
+    return channels === source.numberOfChannels
+      ? segment
+      : { ...segment, matrix: channelMatrix(source.numberOfChannels, channels) };
+  }
+  
+  /**
+   * 替换编辑列表并使渲染缓存失效
+   */
+  private _setSegments(segments: readonly EditSegment[]): void {
+    this._segments = segments;
+    this._length = segments.reduce((sum, segment) => sum + segment.length, 0);
+    this._rendered = null;
+  }
+  
+  /**
+   * 截取片段的一部分（片段内坐标 [from, to)）
+   */
+  private _sliceSegment(segment: EditSegment, from: number, to: number): EditSegment {
+    if (from === 0 && to === segment.length) return segment;
+    
+    const length = to - from;
+    return {
+      ...segment,
+      // 反向片段的第 k 个样本读取 offset + length - 1 - k
+      offset: segment.reversed ? segment.offset + segment.length - to : segment.offset + from,
+      length,
+      fades: segment.fades
+        .map(fade => ({ ...fade, start: fade.start - from }))
+        .filter(fade => fade.start < length && fade.start + fade.length > 0)
+    };
+  }
+  
+  /**
+   * 截取编辑列表的 [from, to) 样本区间
+   */
+  private _slice(from: number, to: number): EditSegment[] {
+    const result: EditSegment[] = [];
+    let position = 0;
+    
+    for (const segment of this._segments) {
+      const segmentEnd = position + segment.length;
+      if (segmentEnd > from && position < to) {
+        result.push(this._sliceSegment(
+          segment,
+          Math.max(0, from - position),
+          Math.min(segment.length, to - position)
+        ));
+      }
+      position = segmentEnd;
+      if (position >= to) break;
+    }
+    
+    return result;
+  }
+  
+  /**
+   * 移除 [from, to) 样本区间后的编辑列表
+   */
+  private _removeRange(from: number, to: number): EditSegment[] {
+    return [...this._slice(0, from), ...this._slice(to, this._length)];
+  }
+  
+  /**
+   * 对 [from, to) 区间内的片段逐个变换
+   * 
+   * @param transform - 接收片段及其相对区间起点的位置（样本）
+   * @returns 变换后的编辑列表
+   */
+  private _mapRange(
+    from: number,
+    to: number,
+    transform: (segment: EditSegment, position: number) => EditSegment
+  ): EditSegment[] {
+    let position = 0;
+    const middle = this._slice(from, to).map(segment => {
+      const mapped = transform(segment, position);
+      position += segment.length;
+      return mapped;
+    });
+    
+    return [
+      ...this._slice(0, from),
+      ...middle,
+      ...this._slice(to, this._length)
+    ];
+  }
+  
+  /**
+   * 渲染编辑列表的 [from, to) 样本区间
+   */
+  private _renderRange(from: number, to: number): AudioBuffer {
+    return this._renderSegments(this._slice(from, to), to - from);
+  }
+  
+  /**
+   * 依次渲染片段
+   */
+  private _renderSegments(segments: readonly EditSegment[], length: number): AudioBuffer {
+    const output = this._context.createBuffer(
       this.numberOfChannels,
-      newLength,
+      Math.max(1, length),
       this.sampleRate
     );
     
-    for (let channel = 0; channel < this.numberOfChannels; channel++) {
-      const srcData = this._buffer.getChannelData(channel);
-      const dstData = newBuffer.getChannelData(channel);
+    let position = 0;
+    for (const segment of segments) {
+      if (segment.gain !== 0) {
+        this._renderSegment(segment, output, position);
+      }
+      position += segment.length;
+    }
+    
+    return output;
+  }
+  
+  /**
+   * 把片段写入输出的指定位置
+   */
+  private _renderSegment(segment: EditSegment, output: AudioBuffer, position: number): void {
+    // 包络与增益合成一条曲线，各声道共用
+    let envelope: Float32Array | null = null;
+    if (segment.fades.length > 0) {
+      envelope = new Float32Array(segment.length).fill(segment.gain);
+      for (const fade of segment.fades) {
+        const first = Math.max(0, fade.start);
+        const last = Math.min(segment.length, fade.start + fade.length);
+        for (let k = first; k < last; k++) {
+          const i = fade.mirrored ? fade.start + fade.length - 1 - k : k - fade.start;
+          envelope[k] *= this._applyCurve(i / fade.length, fade.curve, fade.fadeIn);
+        }
+      }
+    }
+    
+    const source = segment.source;
+    const last = segment.offset + segment.length - 1;
+    
+    for (let channel = 0; channel < output.numberOfChannels; channel++) {
+      const dstData = output.getChannelData(channel);
+      
+      if (segment.matrix) {
+        this._renderMatrixRow(segment, segment.matrix[channel], envelope, dstData, position);
+        continue;
+      }
       
-      // 复制删除段之前的数据
-      dstData.set(srcData.subarray(0, removeStart));
+      const srcData = source.getChannelData(Math.min(channel, source.numberOfChannels - 1));
+      if (!segment.reversed && !envelope && segment.gain === 1) {
+        dstData.set(srcData.subarray(segment.offset, segment.offset + segment.length), position);
+        continue;
+      }
       
-      // 复制删除段之后的数据
-      dstData.set(srcData.subarray(removeEnd), removeStart);
+      for (let k = 0; k < segment.length; k++) {
+        const sample = srcData[segment.reversed ? last - k : segment.offset + k];
+        dstData[position + k] = sample * (envelope ? envelope[k] : segment.gain);
+      }
     }
+  }
+  
+  /**
+   * 按声道矩阵的一行混合源声道
+   */
+  private _renderMatrixRow(
+    segment: EditSegment,
+    row: readonly number[],
+    envelope: Float32Array | null,
+    dstData: Float32Array,
+    position: number
+  ): void {
+    const inputs = row
+      .map((weight, k) => ({ weight, data: segment.source.getChannelData(k) }))
+      .filter(input => input.weight !== 0);
+    const last = segment.offset + segment.length - 1;
     
-    return newBuffer;
+    for (let k = 0; k < segment.length; k++) {
+      const index = segment.reversed ? last - k : segment.offset + k;
+      let sum = 0;
+      for (const input of inputs) {
+        sum += input.data[index] * input.weight;
+      }
+      dstData[position + k] = sum * (envelope ? envelope[k] : segment.gain);
+    }
   }
 }
 
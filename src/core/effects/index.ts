@@ -4,6 +4,162 @@
  * 统一的效果器类，支持链式调用
  */
 
+// ============================================
+// 效果器基类
+// ============================================
+
+/** 旁路/干湿切换的平滑时间常数（秒） */
+const BYPASS_TIME_CONSTANT = 0.01;
+
+/**
+ * 效果器基类 - 统一输入/输出、旁路和干湿比
+ * 
+ * 信号路径:
+ *   Input -> Dry ---------------------> Output
+ *   Input -> [处理节点] -> Wet --------> Output
+ * 
+ * 禁用时 Wet 渐变到 0、Dry 渐变到 1，渐变结束后断开处理节点（真旁路）
+ */
+export abstract class WAAudioEffectBase {
+  abstract readonly type: string;
+  
+  protected readonly context: BaseAudioContext;
+  private readonly inputNode: GainNode;
+  private readonly outputNode: GainNode;
+  private readonly dryNode: GainNode;
+  private readonly wetNode: GainNode;
+  private processorInput: AudioNode | null = null;
+  private processorConnected = false;
+  private bypassTimer: ReturnType<typeof setTimeout> | null = null;
+  private _enabled = true;
+  private _dryWet = 1;
+  
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+    
+    this.inputNode = context.createGain();
+    this.outputNode = context.createGain();
+    
+    this.dryNode = context.createGain();
+    this.dryNode.gain.value = 0;
+    
+    this.wetNode = context.createGain();
+    this.wetNode.gain.value = 1;
+    
+    this.inputNode.connect(this.dryNode);
+    this.dryNode.connect(this.outputNode);
+    this.wetNode.connect(this.outputNode);
+  }
+  
+  /** 输入节点 */
+  get input(): AudioNode {
+    return this.inputNode;
+  }
+  
+  /** 输出节点 */
+  get output(): AudioNode {
+    return this.outputNode;
+  }
+  
+  get enabled(): boolean {
+    return this._enabled;
+  }
+  
+  /** 插入干湿比 (0 = 全干, 1 = 全湿) */
+  get dryWet(): number {
+    return this._dryWet;
+  }
+  
+  /** 启用/禁用（禁用即旁路，无爆音） */
+  setEnabled(value: boolean): this {
+    if (value === this._enabled) return this;
+    this._enabled = value;
+    
+    if (this.bypassTimer) {
+      clearTimeout(this.bypassTimer);
+      this.bypassTimer = null;
+    }
+    
+    if (value) {
+      this._connectProcessor();
+    } else {
+      // 等待渐变完成后再断开处理节点
+      this.bypassTimer = setTimeout(() => {
+        this.bypassTimer = null;
+        this._disconnectProcessor();
+      }, BYPASS_TIME_CONSTANT * 5 * 1000);
+    }
+    
+    this._applyMix();
+    return this;
+  }
+  
+  /** 设置插入干湿比 (0 ~ 1) */
+  setDryWet(value: number): this {
+    this._dryWet = Math.max(0, Math.min(1, value));
+    this._applyMix();
+    return this;
+  }
+  
+  /** 可自动化参数名称 */
+  get paramNames(): string[] {
+    return Object.keys(this._params());
+  }
+  
+  /** 获取可自动化参数 */
+  getParam(name: string): AudioParam | undefined {
+    return this._params()[name];
+  }
+  
+  /** 在指定上下文中复制效果器（含参数、启用状态和干湿比） */
+  abstract clone(context: BaseAudioContext): WAAudioEffectBase;
+  
+  /** 可自动化参数表（子类实现） */
+  protected abstract _params(): Record<string, AudioParam>;
+  
+  /** 复制启用状态和干湿比（子类 clone 时调用） */
+  protected _copyStateTo<T extends WAAudioEffectBase>(effect: T): T {
+    effect.setDryWet(this._dryWet);
+    effect.setEnabled(this._enabled);
+    return effect;
+  }
+  
+  /** 注册处理节点（子类构造时调用） */
+  protected _setProcessor(first: AudioNode, last: AudioNode): void {
+    this.processorInput = first;
+    last.connect(this.wetNode);
+    this._connectProcessor();
+  }
+  
+  /** 应用干湿增益 */
+  private _applyMix(): void {
+    const wet = this._enabled ? this._dryWet : 0;
+    
+    // 未运行的上下文（如 OfflineAudioContext 渲染前）直接设置，无需平滑
+    if (this.context.state !== 'running') {
+      this.wetNode.gain.value = wet;
+      this.dryNode.gain.value = 1 - wet;
+      return;
+    }
+    
+    const now = this.context.currentTime;
+    this.wetNode.gain.setTargetAtTime(wet, now, BYPASS_TIME_CONSTANT);
+    this.dryNode.gain.setTargetAtTime(1 - wet, now, BYPASS_TIME_CONSTANT);
+  }
+  
+  private _connectProcessor(): void {
+    if (!this.processorInput || this.processorConnected) return;
+    this.inputNode.connect(this.processorInput);
+    this.processorConnected = true;
+  }
+  
+  private _disconnectProcessor(): void {
+    if (!this.processorInput || !this.processorConnected) return;
+    this.inputNode.disconnect(this.processorInput);
+    this.processorConnected = false;
+  }
+}
+
 // ============================================
 // 基础效果器类
 // ============================================
@@ -11,19 +167,15 @@
 /**
  * 均衡器 (3段)
  */
-export class WAAudioEQ {
+export class WAAudioEQ extends WAAudioEffectBase {
   readonly type = 'eq';
   
-  private readonly context: AudioContext;
   private readonly lowFilter: BiquadFilterNode;
   private readonly midFilter: BiquadFilterNode;
   private readonly highFilter: BiquadFilterNode;
-  private readonly inputNode: BiquadFilterNode;
-  private readonly outputNode: BiquadFilterNode;
-  private _enabled = true;
   
-  constructor(context: AudioContext) {
-    this.context = context;
+  constructor(context: BaseAudioContext) {
+    super(context);
     
     // 低频 (Low Shelf) - 320Hz
     this.lowFilter = context.createBiquadFilter();
@@ -48,26 +200,7 @@ export class WAAudioEQ {
     this.lowFilter.connect(this.midFilter);
     this.midFilter.connect(this.highFilter);
     
-    // 输入/输出节点
-    this.inputNode = this.lowFilter;
-    this.outputNode = this.highFilter;
-  }
-  
-  get input(): AudioNode {
-    return this.inputNode;
-  }
-  
-  get output(): AudioNode {
-    return this.outputNode;
-  }
-  
-  get enabled(): boolean {
-    return this._enabled;
-  }
-  
-  setEnabled(value: boolean): this {
-    this._enabled = value;
-    return this;
+    this._setProcessor(this.lowFilter, this.highFilter);
   }
   
   /** 设置低频增益 (-12dB ~ +12dB) */
@@ -88,6 +221,23 @@ export class WAAudioEQ {
     return this;
   }
   
+  /** 在指定上下文中复制 */
+  clone(context: BaseAudioContext): WAAudioEQ {
+    const eq = new WAAudioEQ(context)
+      .setLow(this.lowFilter.gain.value)
+      .setMid(this.midFilter.gain.value)
+      .setHigh(this.highFilter.gain.value);
+    return this._copyStateTo(eq);
+  }
+  
+  protected _params(): Record<string, AudioParam> {
+    return {
+      low: this.lowFilter.gain,
+      mid: this.midFilter.gain,
+      high: this.highFilter.gain
+    };
+  }
+  
   /** 预设: 增强低音 */
   bassBoost(): this {
     return this.setLow(6).setMid(-2).setHigh(-2);
@@ -112,17 +262,15 @@ export class WAAudioEQ {
 /**
  * 压缩器
  */
-export class WAAudioCompressor {
+export class WAAudioCompressor extends WAAudioEffectBase {
   readonly type = 'compressor';
   
-  private readonly context: AudioContext;
   private readonly _node: DynamicsCompressorNode;
   private readonly inputGain: GainNode;
   private readonly outputGain: GainNode;
-  private _enabled = true;
   
-  constructor(context: AudioContext) {
-    this.context = context;
+  constructor(context: BaseAudioContext) {
+    super(context);
     
     this._node = context.createDynamicsCompressor();
     this._node.threshold.value = -24;
@@ -137,29 +285,14 @@ export class WAAudioCompressor {
     
     this.inputGain.connect(this._node);
     this._node.connect(this.outputGain);
-  }
-  
-  get input(): AudioNode {
-    return this.inputGain;
-  }
-  
-  get output(): AudioNode {
-    return this.outputGain;
+    
+    this._setProcessor(this.inputGain, this.outputGain);
   }
   
   get node(): DynamicsCompressorNode {
     return this._node;
   }
   
-  get enabled(): boolean {
-    return this._enabled;
-  }
-  
-  setEnabled(value: boolean): this {
-    this._enabled = value;
-    return this;
-  }
-  
   /** 设置阈值 (dB, -100 ~ 0) */
   setThreshold(value: number): this {
     this.node.threshold.value = Math.max(-100, Math.min(0, value));
@@ -190,6 +323,27 @@ export class WAAudioCompressor {
     return this;
   }
   
+  /** 在指定上下文中复制 */
+  clone(context: BaseAudioContext): WAAudioCompressor {
+    const compressor = new WAAudioCompressor(context)
+      .setThreshold(this._node.threshold.value)
+      .setRatio(this._node.ratio.value)
+      .setAttack(this._node.attack.value)
+      .setRelease(this._node.release.value)
+      .setKnee(this._node.knee.value);
+    return this._copyStateTo(compressor);
+  }
+  
+  protected _params(): Record<string, AudioParam> {
+    return {
+      threshold: this._node.threshold,
+      ratio: this._node.ratio,
+      attack: this._node.attack,
+      release: this._node.release,
+      knee: this._node.knee
+    };
+  }
+  
   /** 预设: 柔和压缩 */
   soft(): this {
     return this.setThreshold(-20).setRatio(2).setAttack(0.01).setRelease(0.2);
@@ -209,62 +363,35 @@ export class WAAudioCompressor {
 /**
  * 混响
  */
-export class WAAudioReverb {
+export class WAAudioReverb extends WAAudioEffectBase {
   readonly type = 'reverb';
   
-  private readonly context: AudioContext;
   private readonly convolver: ConvolverNode;
   private readonly wetGain: GainNode;
-  private readonly dryGain: GainNode;
-  private readonly outputGain: GainNode;
-  private _enabled = true;
   
-  constructor(context: AudioContext) {
-    this.context = context;
+  constructor(context: BaseAudioContext) {
+    super(context);
     
     this.convolver = context.createConvolver();
     this.wetGain = context.createGain();
-    this.dryGain = context.createGain();
-    this.outputGain = context.createGain();
     
-    this.wetGain.gain.value = 0.3;
-    this.dryGain.gain.value = 0.7;
-    this.outputGain.gain.value = 1;
+    // 连接: Convolver -> Wet（干声由基类的干湿比提供）
+    this.convolver.connect(this.wetGain);
+    this._setProcessor(this.convolver, this.wetGain);
     
-    // 预设为房间混响
+    // 默认 70% 干声 / 30% 混响，预设为房间混响
+    this.setDryWet(0.3);
     this.setRoomSize(0.5);
   }
   
-  get input(): AudioNode {
-    return this.convolver;
-  }
-  
-  get output(): AudioNode {
-    return this.outputGain;
-  }
-  
+  /** 混响返回电平 */
   get wet(): GainNode {
     return this.wetGain;
   }
   
-  get dry(): GainNode {
-    return this.dryGain;
-  }
-  
-  get enabled(): boolean {
-    return this._enabled;
-  }
-  
-  setEnabled(value: boolean): this {
-    this._enabled = value;
-    return this;
-  }
-  
-  /** 设置混响强度 (0 ~ 1) */
+  /** 设置混响强度 (0 ~ 1)，即插入干湿比 */
   setMix(value: number): this {
-    this.wetGain.gain.value = Math.max(0, Math.min(1, value));
-    this.dryGain.gain.value = 1 - value;
-    return this;
+    return this.setDryWet(value);
   }
   
   /** 设置房间大小 (0 ~ 1) */
@@ -281,6 +408,20 @@ export class WAAudioReverb {
     return this;
   }
   
+  /** 在指定上下文中复制（共用同一脉冲响应） */
+  clone(context: BaseAudioContext): WAAudioReverb {
+    const reverb = new WAAudioReverb(context);
+    reverb.convolver.buffer = this.convolver.buffer;
+    reverb.wetGain.gain.value = this.wetGain.gain.value;
+    return this._copyStateTo(reverb);
+  }
+  
+  protected _params(): Record<string, AudioParam> {
+    return {
+      wet: this.wetGain.gain
+    };
+  }
+  
   /** 预设: 小房间 */
   smallRoom(): this {
     return this.setRoomSize(0.2).setMix(0.25);
@@ -321,19 +462,17 @@ export class WAAudioReverb {
 /**
  * 延迟
  */
-export class WAAudioDelay {
+export class WAAudioDelay extends WAAudioEffectBase {
   readonly type = 'delay';
   
-  private readonly context: AudioContext;
   private readonly delayNode: DelayNode;
   private readonly feedbackGain: GainNode;
   private readonly wetGain: GainNode;
-  private readonly dryGain: GainNode;
-  private readonly outputGain: GainNode;
-  private _enabled = true;
+  private _time = 0.3;
+  private _feedback = 0.4;
   
-  constructor(context: AudioContext) {
-    this.context = context;
+  constructor(context: BaseAudioContext) {
+    super(context);
     
     this.delayNode = context.createDelay(5);
     this.delayNode.delayTime.value = 0.3;
@@ -342,54 +481,54 @@ export class WAAudioDelay {
     this.feedbackGain.gain.value = 0.4;
     
     this.wetGain = context.createGain();
-    this.wetGain.gain.value = 0.3;
     
-    this.dryGain = context.createGain();
-    this.dryGain.gain.value = 0.7;
-    
-    this.outputGain = context.createGain();
-    this.outputGain.gain.value = 1;
-    
-    // 连接: Input -> Dry + Delay
-    //              |-> Feedback -> Delay
+    // 连接: Delay -> Wet（干声由基类的干湿比提供）
+    //         |-> Feedback -> Delay
     this.delayNode.connect(this.feedbackGain);
     this.feedbackGain.connect(this.delayNode);
-  }
-  
-  get input(): AudioNode {
-    return this.delayNode;
-  }
-  
-  get output(): AudioNode {
-    return this.outputGain;
-  }
-  
-  get enabled(): boolean {
-    return this._enabled;
-  }
-  
-  setEnabled(value: boolean): this {
-    this._enabled = value;
-    return this;
+    this.delayNode.connect(this.wetGain);
+    this._setProcessor(this.delayNode, this.wetGain);
+    
+    // 默认 70% 干声 / 30% 延迟
+    this.setDryWet(0.3);
   }
   
   /** 设置延迟时间 (秒, 0 ~ 5) */
   setTime(value: number): this {
-    this.delayNode.delayTime.setTargetAtTime(Math.max(0, Math.min(5, value)), this.context.currentTime, 0.01);
+    this._time = Math.max(0, Math.min(5, value));
+    this.delayNode.delayTime.setTargetAtTime(this._time, this.context.currentTime, 0.01);
     return this;
   }
   
   /** 设置反馈量 (0 ~ 0.95) */
   setFeedback(value: number): this {
-    this.feedbackGain.gain.setTargetAtTime(Math.max(0, Math.min(0.95, value)), this.context.currentTime, 0.01);
+    this._feedback = Math.max(0, Math.min(0.95, value));
+    this.feedbackGain.gain.setTargetAtTime(this._feedback, this.context.currentTime, 0.01);
     return this;
   }
   
-  /** 设置干湿比 (0 ~ 1) */
+  /** 设置干湿比 (0 ~ 1)，即插入干湿比 */
   setMix(value: number): this {
-    this.wetGain.gain.value = Math.max(0, Math.min(1, value));
-    this.dryGain.gain.value = 1 - value;
-    return this;
+    return this.setDryWet(value);
+  }
+  
+  /** 在指定上下文中复制 */
+  clone(context: BaseAudioContext): WAAudioDelay {
+    const delay = new WAAudioDelay(context);
+    delay.delayNode.delayTime.value = this._time;
+    delay.feedbackGain.gain.value = this._feedback;
+    delay._time = this._time;
+    delay._feedback = this._feedback;
+    delay.wetGain.gain.value = this.wetGain.gain.value;
+    return this._copyStateTo(delay);
+  }
+  
+  protected _params(): Record<string, AudioParam> {
+    return {
+      time: this.delayNode.delayTime,
+      feedback: this.feedbackGain.gain,
+      wet: this.wetGain.gain
+    };
   }
   
   /** 预设: 简单延迟 */
@@ -416,17 +555,16 @@ export class WAAudioDelay {
 /**
  * 失真
  */
-export class WAAudioDistortion {
+export class WAAudioDistortion extends WAAudioEffectBase {
   readonly type = 'distortion';
   
-  private readonly context: AudioContext;
   private readonly node: WaveShaperNode;
   private readonly inputGain: GainNode;
   private readonly outputGain: GainNode;
-  private _enabled = true;
+  private _amount = 50;
   
-  constructor(context: AudioContext) {
-    this.context = context;
+  constructor(context: BaseAudioContext) {
+    super(context);
     
     this.node = context.createWaveShaper();
     this._setCurve(50);
@@ -439,29 +577,29 @@ export class WAAudioDistortion {
     
     this.inputGain.connect(this.node);
     this.node.connect(this.outputGain);
+    
+    this._setProcessor(this.inputGain, this.outputGain);
   }
   
-  get input(): AudioNode {
-    return this.inputGain;
-  }
-  
-  get output(): AudioNode {
-    return this.outputGain;
-  }
-  
-  get enabled(): boolean {
-    return this._enabled;
+  /** 设置失真量 (0 ~ 100) */
+  setAmount(value: number): this {
+    this._amount = Math.max(0, Math.min(100, value));
+    this._setCurve(this._amount);
+    return this;
   }
   
-  setEnabled(value: boolean): this {
-    this._enabled = value;
-    return this;
+  /** 在指定上下文中复制 */
+  clone(context: BaseAudioContext): WAAudioDistortion {
+    const distortion = new WAAudioDistortion(context).setAmount(this._amount);
+    distortion.inputGain.gain.value = this.inputGain.gain.value;
+    return this._copyStateTo(distortion);
   }
   
-  /** 设置失真量 (0 ~ 100) */
-  setAmount(value: number): this {
-    this._setCurve(Math.max(0, Math.min(100, value)));
-    return this;
+  protected _params(): Record<string, AudioParam> {
+    return {
+      drive: this.inputGain.gain,
+      output: this.outputGain.gain
+    };
   }
   
   /** 预设: 轻度失真 */
@@ -522,9 +660,9 @@ export interface EffectOptions {
  * 效果器工厂类
  */
 export class WAAudioEffectFactory {
-  private readonly context: AudioContext;
+  private readonly context: BaseAudioContext;
   
-  constructor(context: AudioContext) {
+  constructor(context: BaseAudioContext) {
     this.context = context;
   }
   
@@ -560,27 +698,70 @@ export class WAAudioEffectFactory {
 
 /**
  * 效果器链 - 管理多个效果器
+ * 
+ * 按顺序串联: Input -> Effect 1 -> Effect 2 -> ... -> Output
+ * 输入/输出节点固定不变，空链时 Input 直通 Output
+ * 
+ * 使用示例：
+ * ```typescript
+ * const chain = new WAAudioEffectChain(context);
+ * source.connect(chain.input);
+ * chain.output.connect(context.destination);
+ * chain.add('eq', eq).add('reverb', reverb);
+ * chain.move('reverb', 0);
+ * chain.setEnabled('eq', false);
+ * ```
  */
 export class WAAudioEffectChain {
   private readonly effects: Map<string, WAAudioEffect> = new Map();
-  private readonly context: AudioContext;
-  private _inputNode: AudioNode | null = null;
-  private _outputNode: AudioNode | null = null;
+  private readonly context: BaseAudioContext;
+  private readonly _inputNode: GainNode;
+  private readonly _outputNode: GainNode;
+  
+  /** 效果器顺序 */
+  private order: string[] = [];
   
-  constructor(context: AudioContext) {
+  /** 当前已连接的效果器（用于重建时断开） */
+  private wired: WAAudioEffect[] = [];
+  
+  constructor(context: BaseAudioContext) {
     this.context = context;
+    this._inputNode = context.createGain();
+    this._outputNode = context.createGain();
+    this._rebuild();
   }
   
-  /** 添加效果器 */
+  /** 添加效果器（追加到末尾） */
   add(id: string, effect: WAAudioEffect): this {
+    return this.insert(this.order.length, id, effect);
+  }
+  
+  /** 在指定位置插入效果器（同 ID 已存在时替换） */
+  insert(index: number, id: string, effect: WAAudioEffect): this {
+    this.order = this.order.filter(existing => existing !== id);
+    const position = Math.max(0, Math.min(index, this.order.length));
+    this.order.splice(position, 0, id);
     this.effects.set(id, effect);
     this._rebuild();
     return this;
   }
   
+  /** 移动效果器到指定位置 */
+  move(id: string, index: number): this {
+    const from = this.order.indexOf(id);
+    if (from === -1) return this;
+    
+    this.order.splice(from, 1);
+    const position = Math.max(0, Math.min(index, this.order.length));
+    this.order.splice(position, 0, id);
+    this._rebuild();
+    return this;
+  }
+  
   /** 移除效果器 */
   remove(id: string): this {
-    this.effects.delete(id);
+    if (!this.effects.delete(id)) return this;
+    this.order = this.order.filter(existing => existing !== id);
     this._rebuild();
     return this;
   }
@@ -590,9 +771,15 @@ export class WAAudioEffectChain {
     return this.effects.get(id);
   }
   
+  /** 获取效果器位置（不存在返回 -1） */
+  indexOf(id: string): number {
+    return this.order.indexOf(id);
+  }
+  
   /** 清空所有效果器 */
   clear(): this {
     this.effects.clear();
+    this.order = [];
     this._rebuild();
     return this;
   }
@@ -606,37 +793,78 @@ export class WAAudioEffectChain {
     return this;
   }
   
-  get input(): AudioNode | null {
+  /** 设置效果器干湿比 */
+  setDryWet(id: string, value: number): this {
+    const effect = this.effects.get(id);
+    if (effect) {
+      effect.setDryWet(value);
+    }
+    return this;
+  }
+  
+  /** 在指定上下文中复制整条效果器链 */
+  clone(context: BaseAudioContext): WAAudioEffectChain {
+    const chain = new WAAudioEffectChain(context);
+    for (const id of this.order) {
+      chain.add(id, this.effects.get(id)!.clone(context));
+    }
+    return chain;
+  }
+  
+  /** 效果器 ID（按信号顺序） */
+  get ids(): string[] {
+    return [...this.order];
+  }
+  
+  /** 效果器数量 */
+  get size(): number {
+    return this.order.length;
+  }
+  
+  get input(): AudioNode {
     return this._inputNode;
   }
   
-  get output(): AudioNode | null {
+  get output(): AudioNode {
     return this._outputNode;
   }
   
+  /** 断开当前链路 */
+  private _disconnectAll(): void {
+    this._inputNode.disconnect();
+    for (const effect of this.wired) {
+      effect.output.disconnect();
+    }
+    this.wired = [];
+  }
+  
   /** 重建连接 */
   private _rebuild(): void {
-    const effectsArray = Array.from(this.effects.values());
+    this._disconnectAll();
     
-    if (effectsArray.length === 0) {
-      this._inputNode = null;
-      this._outputNode = null;
-      return;
-    }
+    let previousNode: AudioNode = this._inputNode;
     
-    // 第一个效果器的输入
-    this._inputNode = effectsArray[0].input;
+    for (const id of this.order) {
+      const effect = this.effects.get(id)!;
+      previousNode.connect(effect.input);
+      previousNode = effect.output;
+      this.wired.push(effect);
+    }
     
-    // 最后一个效果器的输出
-    this._outputNode = effectsArray[effectsArray.length - 1].output;
+    previousNode.connect(this._outputNode);
   }
 }
 
 // 基础效果器接口
-interface WAAudioEffect {
+export interface WAAudioEffect {
   readonly type: string;
   readonly enabled: boolean;
+  readonly dryWet: number;
   setEnabled(value: boolean): this;
+  readonly paramNames: string[];
+  setDryWet(value: number): this;
+  getParam(name: string): AudioParam | undefined;
+  clone(context: BaseAudioContext): WAAudioEffect;
   get input(): AudioNode;
   get output(): AudioNode;
 }
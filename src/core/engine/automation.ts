@@ -0,0 +1,388 @@
+/**
+ * WAAudio Automation - 参数自动化包络
+ * 
+ * 断点列表（线性/指数/保持曲线），按走带位置调度到 AudioParam，
+ * 支持 read / write / latch / touch 写入模式
+ */
+
+import type { WAAudioEffectChain } from '../effects';
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 到达断点的曲线类型 */
+export type AutomationCurve = 'linear' | 'exponential' | 'hold';
+
+/**
+ * 自动化模式
+ * - off: 不回放、不写入
+ * - read: 回放
+ * - write: 播放期间全程覆盖写入
+ * - latch: 触碰后开始写入，持续到停止
+ * - touch: 仅在触碰期间写入，松开后回到原有包络
+ */
+export type AutomationMode = 'off' | 'read' | 'write' | 'latch' | 'touch';
+
+/** 自动化目标: 轨道音量、声像或效果器参数 (effect:<效果器 ID>:<参数名>) */
+export type AutomationTarget = 'volume' | 'pan' | `effect:${string}:${string}`;
+
+export interface AutomationPoint {
+  /** 走带位置（秒） */
+  time: number;
+  /** 参数值 */
+  value: number;
+  /** 从上一个断点到此断点的曲线 */
+  curve: AutomationCurve;
+}
+
+export interface AutomationLaneState {
+  target: AutomationTarget;
+  mode: AutomationMode;
+  points: AutomationPoint[];
+}
+
+/** 解析自动化目标所需的参数来源 */
+export interface AutomationParams {
+  volume: AudioParam;
+  pan: AudioParam;
+  effects: WAAudioEffectChain;
+}
+
+// ============================================
+// 工具函数
+// ============================================
+
+/**
+ * 解析自动化目标对应的 AudioParam
+ */
+export function resolveAutomationParam(target: AutomationTarget, params: AutomationParams): AudioParam | undefined {
+  if (target === 'volume') return params.volume;
+  if (target === 'pan') return params.pan;
+  
+  const [, effectId, paramName] = target.split(':');
+  return params.effects.get(effectId)?.getParam(paramName);
+}
+
+/**
+ * 生成效果器参数的自动化目标
+ */
+export function effectAutomationTarget(effectId: string, paramName: string): AutomationTarget {
+  return `effect:${effectId}:${paramName}`;
+}
+
+// ============================================
+// 自动化通道类
+// ============================================
+
+/**
+ * WAAudioAutomationLane - 自动化通道
+ * 
+ * 使用示例：
+ * ```typescript
+ * const lane = track.getAutomationLane('volume');
+ * lane.addPoint(0, 0).addPoint(2, 1).addPoint(10, 0.5, 'exponential');
+ * track.scheduleAutomation(0);  // 从走带位置 0 开始回放
+ * ```
+ */
+export class WAAudioAutomationLane {
+  /** 目标 */
+  private readonly _target: AutomationTarget;
+  
+  /** 模式 */
+  private _mode: AutomationMode;
+  
+  /** 断点（按时间排序） */
+  private _points: AutomationPoint[] = [];
+  
+  /** 是否处于播放写入周期 */
+  private _inPass = false;
+  
+  /** 是否正在写入 */
+  private _writing = false;
+  
+  /** 最后写入位置 */
+  private _lastWriteTime = 0;
+  
+  /** 最后写入值 */
+  private _lastWriteValue = 0;
+  
+  constructor(target: AutomationTarget, mode: AutomationMode = 'read', points: AutomationPoint[] = []) {
+    this._target = target;
+    this._mode = mode;
+    for (const point of points) {
+      this.addPoint(point.time, point.value, point.curve);
+    }
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 目标 */
+  get target(): AutomationTarget {
+    return this._target;
+  }
+  
+  /** 模式 */
+  get mode(): AutomationMode {
+    return this._mode;
+  }
+  
+  /** 断点副本 */
+  get points(): AutomationPoint[] {
+    return this._points.map(point => ({ ...point }));
+  }
+  
+  /** 是否回放（非 off / write 模式） */
+  get isReading(): boolean {
+    return this._mode !== 'off' && this._mode !== 'write';
+  }
+  
+  /** 是否正在写入 */
+  get isWriting(): boolean {
+    return this._writing;
+  }
+  
+  // ============================================
+  // 断点编辑
+  // ============================================
+  
+  /** 设置模式 */
+  setMode(mode: AutomationMode): this {
+    this._mode = mode;
+    if (mode === 'off' || mode === 'read') {
+      this._writing = false;
+    }
+    return this;
+  }
+  
+  /** 添加断点（同一位置已有断点时替换） */
+  addPoint(time: number, value: number, curve: AutomationCurve = 'linear'): this {
+    const point: AutomationPoint = { time: Math.max(0, time), value, curve };
+    const index = this._points.findIndex(existing => existing.time >= point.time);
+    
+    if (index === -1) {
+      this._points.push(point);
+    } else if (this._points[index].time === point.time) {
+      this._points[index] = point;
+    } else {
+      this._points.splice(index, 0, point);
+    }
+    return this;
+  }
+  
+  /** 移除指定位置的断点 */
+  removePoint(time: number): boolean {
+    const index = this._points.findIndex(point => point.time === time);
+    if (index === -1) return false;
+    this._points.splice(index, 1);
+    return true;
+  }
+  
+  /** 移除范围内的断点 (start, end] */
+  removeRange(start: number, end: number): this {
+    this._points = this._points.filter(point => point.time <= start || point.time > end);
+    return this;
+  }
+  
+  /** 清空断点 */
+  clear(): this {
+    this._points = [];
+    return this;
+  }
+  
+  /**
+   * 计算指定位置的值
+   * 
+   * @param time - 走带位置（秒）
+   * @param fallback - 没有断点时的默认值
+   */
+  valueAt(time: number, fallback: number = 0): number {
+    const points = this._points;
+    if (points.length === 0) return fallback;
+    if (time <= points[0].time) return points[0].value;
+    
+    const last = points[points.length - 1];
+    if (time >= last.time) return last.value;
+    
+    const index = points.findIndex(point => point.time > time);
+    const from = points[index - 1];
+    const to = points[index];
+    const t = (time - from.time) / (to.time - from.time);
+    
+    switch (this._effectiveCurve(from.value, to)) {
+      case 'hold':
+        return from.value;
+      case 'exponential':
+        return from.value * Math.pow(to.value / from.value, t);
+      case 'linear':
+      default:
+        return from.value + (to.value - from.value) * t;
+    }
+  }
+  
+  // ============================================
+  // 调度
+  // ============================================
+  
+  /**
+   * 调度到 AudioParam
+   * 
+   * @param param - 目标参数
+   * @param position - 起始走带位置（秒）
+   * @param when - 该位置对应的上下文时间
+   */
+  schedule(param: AudioParam, position: number, when: number): void {
+    param.cancelScheduledValues(when);
+    if (this._points.length === 0) return;
+    
+    let previousValue = this.valueAt(position);
+    param.setValueAtTime(previousValue, when);
+    
+    for (const point of this._points) {
+      if (point.time <= position) continue;
+      
+      const time = when + (point.time - position);
+      
+      switch (this._effectiveCurve(previousValue, point)) {
+        case 'hold':
+          param.setValueAtTime(point.value, time);
+          break;
+        case 'exponential':
+          param.exponentialRampToValueAtTime(point.value, time);
+          break;
+        case 'linear':
+        default:
+          param.linearRampToValueAtTime(point.value, time);
+          break;
+      }
+      
+      previousValue = point.value;
+    }
+  }
+  
+  /**
+   * 取消调度并保持在指定位置的值
+   */
+  cancel(param: AudioParam, position: number, when: number): void {
+    param.cancelScheduledValues(when);
+    if (this._points.length > 0) {
+      param.setValueAtTime(this.valueAt(position), when);
+    }
+  }
+  
+  // ============================================
+  // 写入
+  // ============================================
+  
+  /**
+   * 开始播放周期（走带开始时调用）
+   * 
+   * @param position - 起始走带位置
+   * @param value - 当前参数值
+   */
+  beginPass(position: number, value: number): void {
+    this._inPass = true;
+    this._writing = false;
+    
+    if (this._mode === 'write') {
+      this._startWriting(position, value);
+    }
+  }
+  
+  /**
+   * 触碰/修改参数
+   * 
+   * @returns 是否写入了自动化
+   */
+  touch(position: number, value: number): boolean {
+    if (!this._inPass) return false;
+    if (this._mode !== 'write' && this._mode !== 'latch' && this._mode !== 'touch') return false;
+    
+    if (!this._writing) {
+      // 从原有包络的当前值开始写入
+      this._startWriting(position, this.valueAt(position, value));
+    }
+    
+    this._write(position, value);
+    return true;
+  }
+  
+  /**
+   * 松开参数（touch 模式下停止写入，回到原有包络）
+   */
+  release(position: number): void {
+    if (!this._writing || this._mode !== 'touch') return;
+    
+    this._write(position, this._lastWriteValue);
+    this._writing = false;
+  }
+  
+  /**
+   * 结束播放周期（走带停止时调用）
+   */
+  endPass(position: number): void {
+    if (this._writing) {
+      // write / latch 模式保持最后写入的值到停止位置
+      this._write(position, this._lastWriteValue);
+    }
+    
+    this._writing = false;
+    this._inPass = false;
+  }
+  
+  // ============================================
+  // 序列化
+  // ============================================
+  
+  /** 获取状态快照 */
+  getState(): AutomationLaneState {
+    return {
+      target: this._target,
+      mode: this._mode,
+      points: this.points
+    };
+  }
+  
+  /** 从状态快照恢复 */
+  static fromState(state: AutomationLaneState): WAAudioAutomationLane {
+    return new WAAudioAutomationLane(state.target, state.mode, state.points);
+  }
+  
+  // ============================================
+  // 私有方法
+  // ============================================
+  
+  /** 开始写入 */
+  private _startWriting(position: number, value: number): void {
+    this._writing = true;
+    this._lastWriteTime = position;
+    this._lastWriteValue = value;
+    this.addPoint(position, value);
+  }
+  
+  /** 写入断点，覆盖上次写入后的原有断点 */
+  private _write(position: number, value: number): void {
+    if (position < this._lastWriteTime) return;
+    
+    this.removeRange(this._lastWriteTime, position);
+    this.addPoint(position, value);
+    this._lastWriteTime = position;
+    this._lastWriteValue = value;
+  }
+  
+  /** 指数曲线要求两端同号且非零，否则退化为线性 */
+  private _effectiveCurve(fromValue: number, to: AutomationPoint): AutomationCurve {
+    if (to.curve === 'exponential' && (fromValue === 0 || to.value === 0 || fromValue * to.value < 0)) {
+      return 'linear';
+    }
+    return to.curve;
+  }
+}
+
+// ============================================
+// 导出
+// ============================================
+
+export default WAAudioAutomationLane;
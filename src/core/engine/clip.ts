@@ -0,0 +1,337 @@
+/**
+ * WAAudio Clip - Timeline Clip
+ * 
+ * 时间线片段
+ * 引用一段 AudioBuffer，放置在轨道的时间线上
+ */
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface ClipConfig {
+  /** 时间线起点（秒） */
+  start?: number;
+  /** 源偏移（秒） */
+  offset?: number;
+  /** 长度（秒，默认到缓冲区末尾） */
+  duration?: number;
+  /** 片段增益 (0-2) */
+  gain?: number;
+  /** 淡入时长（秒） */
+  fadeIn?: number;
+  /** 淡出时长（秒） */
+  fadeOut?: number;
+  /** 名称 */
+  name?: string;
+}
+
+export interface ClipState {
+  id: string;
+  name: string;
+  start: number;
+  offset: number;
+  duration: number;
+  gain: number;
+  fadeIn: number;
+  fadeOut: number;
+}
+
+/** 已调度的片段播放 */
+export interface ClipVoice {
+  clip: WAAudioClip;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+/** 截断处的去爆音时长（秒） */
+const DECLICK_TIME = 0.005;
+
+// ============================================
+// 片段类
+// ============================================
+
+/**
+ * WAAudioClip - 时间线片段
+ * 
+ * 使用示例：
+ * ```typescript
+ * const clip = track.addClip(buffer, { start: 4, offset: 1, duration: 8 });
+ * clip.setFades(0.05, 0.5).setGain(0.8);
+ * ```
+ */
+export class WAAudioClip {
+  /** 片段 ID */
+  private readonly _id: string;
+  
+  /** 音频缓冲区 */
+  private readonly _buffer: AudioBuffer;
+  
+  /** 名称 */
+  private _name: string;
+  
+  /** 时间线起点 */
+  private _start: number;
+  
+  /** 源偏移 */
+  private _offset: number;
+  
+  /** 长度 */
+  private _duration: number;
+  
+  /** 片段增益 */
+  private _gain: number;
+  
+  /** 淡入时长 */
+  private _fadeIn: number;
+  
+  /** 淡出时长 */
+  private _fadeOut: number;
+  
+  // ============================================
+  // 构造函数
+  // ============================================
+  
+  /**
+   * @param id - 片段 ID
+   * @param buffer - 音频缓冲区
+   * @param config - 片段配置
+   */
+  constructor(id: string, buffer: AudioBuffer, config: ClipConfig = {}) {
+    this._id = id;
+    this._buffer = buffer;
+    this._name = config.name ?? id;
+    this._start = Math.max(0, config.start ?? 0);
+    this._offset = Math.max(0, Math.min(config.offset ?? 0, buffer.duration));
+    this._duration = this._clampDuration(config.duration ?? buffer.duration - this._offset);
+    this._gain = Math.max(0, Math.min(config.gain ?? 1, 2));
+    this._fadeIn = 0;
+    this._fadeOut = 0;
+    this.setFades(config.fadeIn ?? 0, config.fadeOut ?? 0);
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 片段 ID */
+  get id(): string {
+    return this._id;
+  }
+  
+  /** 音频缓冲区 */
+  get buffer(): AudioBuffer {
+    return this._buffer;
+  }
+  
+  /** 名称 */
+  get name(): string {
+    return this._name;
+  }
+  
+  /** 时间线起点 */
+  get start(): number {
+    return this._start;
+  }
+  
+  /** 时间线终点 */
+  get end(): number {
+    return this._start + this._duration;
+  }
+  
+  /** 源偏移 */
+  get offset(): number {
+    return this._offset;
+  }
+  
+  /** 长度 */
+  get duration(): number {
+    return this._duration;
+  }
+  
+  /** 片段增益 */
+  get gain(): number {
+    return this._gain;
+  }
+  
+  /** 淡入时长 */
+  get fadeIn(): number {
+    return this._fadeIn;
+  }
+  
+  /** 淡出时长 */
+  get fadeOut(): number {
+    return this._fadeOut;
+  }
+  
+  // ============================================
+  // 编辑
+  // ============================================
+  
+  /** 设置名称 */
+  setName(name: string): this {
+    this._name = name;
+    return this;
+  }
+  
+  /** 移动到时间线位置 */
+  moveTo(start: number): this {
+    this._start = Math.max(0, start);
+    return this;
+  }
+  
+  /**
+   * 修剪片段
+   * 
+   * @param offset - 新的源偏移
+   * @param duration - 新的长度
+   */
+  trim(offset: number, duration: number): this {
+    this._offset = Math.max(0, Math.min(offset, this._buffer.duration));
+    this._duration = this._clampDuration(duration);
+    return this.setFades(this._fadeIn, this._fadeOut);
+  }
+  
+  /** 设置片段增益 */
+  setGain(gain: number): this {
+    this._gain = Math.max(0, Math.min(gain, 2));
+    return this;
+  }
+  
+  /** 设置淡入淡出（两者之和不超过片段长度） */
+  setFades(fadeIn: number, fadeOut: number): this {
+    this._fadeIn = Math.max(0, Math.min(fadeIn, this._duration));
+    this._fadeOut = Math.max(0, Math.min(fadeOut, this._duration - this._fadeIn));
+    return this;
+  }
+  
+  /** 是否与时间线区间 [start, end) 重叠 */
+  overlaps(start: number, end: number): boolean {
+    return this._start < end && this.end > start;
+  }
+  
+  /**
+   * 片段内某时刻的包络增益（含淡入淡出）
+   * 
+   * @param time - 相对片段起点的时间（秒）
+   */
+  gainAt(time: number): number {
+    if (time < 0 || time > this._duration) return 0;
+    
+    let gain = this._gain;
+    if (this._fadeIn > 0 && time < this._fadeIn) {
+      gain *= time / this._fadeIn;
+    }
+    const fadeOutStart = this._duration - this._fadeOut;
+    if (this._fadeOut > 0 && time > fadeOutStart) {
+      gain *= (this._duration - time) / this._fadeOut;
+    }
+    return gain;
+  }
+  
+  // ============================================
+  // 调度
+  // ============================================
+  
+  /**
+   * 调度播放
+   * 
+   * 可在实时或离线上下文中使用
+   * 
+   * @param context - 上下文
+   * @param destination - 目标节点（轨道输入）
+   * @param position - 走带位置（秒）
+   * @param when - 该位置对应的上下文时间
+   * @param until - 截止走带位置（如循环终点，默认片段终点）
+   * @returns 已调度的播放，不在区间内时返回 null
+   */
+  schedule(
+    context: BaseAudioContext,
+    destination: AudioNode,
+    position: number,
+    when: number,
+    until: number = this.end
+  ): ClipVoice | null {
+    const from = Math.max(position, this._start);
+    const to = Math.min(until, this.end);
+    if (to <= from) return null;
+    
+    const startTime = when + (from - position);
+    const length = to - from;
+    const clipTime = from - this._start;
+    
+    const source = context.createBufferSource();
+    source.buffer = this._buffer;
+    
+    const gain = context.createGain();
+    this._scheduleEnvelope(gain.gain, clipTime, startTime, length, to < this.end);
+    
+    source.connect(gain);
+    gain.connect(destination);
+    source.start(startTime, this._offset + clipTime, length);
+    
+    const voice: ClipVoice = { clip: this, source, gain };
+    source.onended = () => {
+      source.disconnect();
+      gain.disconnect();
+    };
+    return voice;
+  }
+  
+  /** 获取状态快照 */
+  getState(): ClipState {
+    return {
+      id: this._id,
+      name: this._name,
+      start: this._start,
+      offset: this._offset,
+      duration: this._duration,
+      gain: this._gain,
+      fadeIn: this._fadeIn,
+      fadeOut: this._fadeOut
+    };
+  }
+  
+  // ============================================
+  // 内部方法
+  // ============================================
+  
+  /** 长度限制在缓冲区范围内 */
+  private _clampDuration(duration: number): number {
+    return Math.max(0, Math.min(duration, this._buffer.duration - this._offset));
+  }
+  
+  /**
+   * 调度增益包络
+   * 
+   * @param clipTime - 播放起点（相对片段起点）
+   * @param startTime - 播放起点的上下文时间
+   * @param length - 播放长度
+   * @param truncated - 是否在片段结束前截断（需要去爆音）
+   */
+  private _scheduleEnvelope(
+    param: AudioParam,
+    clipTime: number,
+    startTime: number,
+    length: number,
+    truncated: boolean
+  ): void {
+    const endTime = clipTime + length;
+    const declick = truncated ? Math.min(DECLICK_TIME, length / 2) : 0;
+    
+    // 包络在这些断点之间是线性的
+    const times = [clipTime, this._fadeIn, this._duration - this._fadeOut, endTime - declick]
+      .filter(time => time >= clipTime && time < endTime);
+    times.sort((a, b) => a - b);
+    
+    param.setValueAtTime(this.gainAt(clipTime), startTime);
+    for (const time of times) {
+      if (time > clipTime) {
+        param.linearRampToValueAtTime(this.gainAt(time), startTime + (time - clipTime));
+      }
+    }
+    param.linearRampToValueAtTime(truncated ? 0 : this.gainAt(endTime), startTime + length);
+  }
+}
+
+export default WAAudioClip;
@@ -2,9 +2,26 @@
  * WAAudio Mixer - 混音引擎
  * 
  * 多轨道混音管理器
- * 支持音量、声像、独奏、静音控制
+ * 支持音量、声像、独奏、静音控制，以及发送/返回总线
  */
 
+import { WAAudioEffectChain } from '../effects';
+import type { WAAudioEffect } from '../effects';
+import { WAAudioAutomationLane, resolveAutomationParam } from './automation';
+import type { AutomationTarget, AutomationLaneState } from './automation';
+import { WAAudioClip } from './clip';
+import type { ClipConfig, ClipVoice } from './clip';
+import { WAAudioTransport } from './transport';
+import { WAAudioSessionRecorder } from './session-recorder';
+import { WAAudioTakeLanes } from './takes';
+import { WAAudioLoudnessMeter } from '../loudness';
+import { WAAudioPeakMeter } from '../meter';
+import type { PeakMeterOptions } from '../meter';
+import { WAAudioOfflineRenderer } from './offline-renderer';
+import type { OfflineRenderOptions } from './offline-renderer';
+import { WAAudioStemExporter } from './stem-exporter';
+import type { StemExportOptions } from './stem-exporter';
+
 // ============================================
 // 类型定义
 // ============================================
@@ -24,9 +41,19 @@ export interface TrackConfig {
   color?: string;
 }
 
+/**
+ * 轨道录音输入
+ * 
+ * - number：单个设备输入声道（从 0 开始）
+ * - number[]：多个设备输入声道（如立体声 [0, 1]）
+ * - AudioNode：任意节点（如合成器输出）
+ */
+export type TrackInput = number | number[] | AudioNode;
+
 export interface MixerState {
   masterVolume: number;
   tracks: TrackState[];
+  buses: BusState[];
 }
 
 export interface TrackState {
@@ -37,6 +64,47 @@ export interface TrackState {
   muted: boolean;
   solo: boolean;
   color: string;
+  sends: SendState[];
+  automation: AutomationLaneState[];
+  /** 是否预备录音 */
+  recordArmed?: boolean;
+  /** 录音输入（仅保存设备声道） */
+  recordInput?: number[] | null;
+}
+
+/** 发送位置: 推子前 / 推子后 */
+export type SendMode = 'pre' | 'post';
+
+export interface SendState {
+  /** 目标总线名称 */
+  bus: string;
+  /** 发送电平 (0-1) */
+  level: number;
+  /** 发送位置 */
+  mode: SendMode;
+}
+
+export interface BusConfig {
+  /** 初始音量 */
+  volume?: number;
+  /** 是否静音 */
+  muted?: boolean;
+  /** 是否独奏 */
+  solo?: boolean;
+}
+
+export interface BusState {
+  name: string;
+  volume: number;
+  muted: boolean;
+  solo: boolean;
+}
+
+/** 轨道发送（内部） */
+interface TrackSend {
+  gain: GainNode;
+  level: number;
+  mode: SendMode;
 }
 
 // ============================================
@@ -68,23 +136,59 @@ export class WAAudioTrack {
   /** 增益节点（音量） */
   private readonly _gainNode: GainNode;
   
+  /** 静音节点（与音量分离，避免与音量自动化冲突） */
+  private readonly _muteNode: GainNode;
+  
   /** 声像节点 */
   private readonly _panNode: StereoPannerNode;
   
   /** 效果器链 */
-  private _effectsChain: AudioNode[] = [];
+  private readonly _effectsChain: WAAudioEffectChain;
+  
+  /** 下一个效果器 ID */
+  private _nextEffectId = 1;
   
   /** 分析器 */
   private _analyser: AnalyserNode | null = null;
   
+  /** 发送（按总线名称） */
+  private readonly _sends: Map<string, TrackSend> = new Map();
+  
+  /** 自动化通道（按目标） */
+  private readonly _automation: Map<AutomationTarget, WAAudioAutomationLane> = new Map();
+  
+  /** 自动化回放段（走带位置与对应的上下文时间）：首项为当前段，其后为已调度的后续段 */
+  private _automationPasses: { position: number; when: number }[] = [];
+  
+  /** 时间线片段（按 ID） */
+  private readonly _clips: Map<string, WAAudioClip> = new Map();
+  
+  /** 下一个片段 ID */
+  private _nextClipId = 1;
+  
+  /** 已调度的片段播放 */
+  private readonly _voices: Set<ClipVoice> = new Set();
+  
+  /** 循环录音版本通道 */
+  private readonly _takes: WAAudioTakeLanes;
+  
   /** 静音状态 */
   private _muted = false;
   
   /** 独奏状态 */
   private _solo = false;
   
-  /** 原始音量（静音时保存） */
-  private _originalVolume = 1;
+  /** 是否预备录音 */
+  private _recordArmed = false;
+  
+  /** 录音输入 */
+  private _recordInput: TrackInput | null = null;
+  
+  /** 是否因其他独奏而静音 */
+  private _soloMuted = false;
+  
+  /** 原始音量（推子位置） */
+  private _originalVolume: number;
   
   /** 颜色标识 */
   private readonly _color: string;
@@ -111,17 +215,27 @@ export class WAAudioTrack {
     this._name = config.name ?? `Track ${id}`;
     this._color = config.color ?? this._getRandomColor();
     
+    // 创建效果器链
+    this._effectsChain = new WAAudioEffectChain(context);
+    this._takes = new WAAudioTakeLanes(context);
+    
     // 创建声像节点
     this._panNode = context.createStereoPanner();
     this._panNode.pan.value = config.pan ?? 0;
     
     // 创建增益节点
+    this._originalVolume = Math.max(0, Math.min(config.volume ?? 1, 1));
     this._gainNode = context.createGain();
-    this._gainNode.gain.value = config.volume ?? 1;
+    this._gainNode.gain.value = this._originalVolume;
+    
+    // 创建静音节点
+    this._muteNode = context.createGain();
     
-    // 连接: Source -> Effects -> Pan -> Gain -> Mixer
+    // 连接: Source -> Effects -> Pan -> Gain -> Mute -> Mixer
+    this._effectsChain.output.connect(this._panNode);
     this._panNode.connect(this._gainNode);
-    this._gainNode.connect(mixer.masterGain);
+    this._gainNode.connect(this._muteNode);
+    this._muteNode.connect(mixer.input);
   }
   
   // ============================================
@@ -148,6 +262,21 @@ export class WAAudioTrack {
     return this._context;
   }
   
+  /** 输入节点（音频源连接到这里） */
+  get input(): AudioNode {
+    return this._effectsChain.input;
+  }
+  
+  /** 效果器链 */
+  get effects(): WAAudioEffectChain {
+    return this._effectsChain;
+  }
+  
+  /** 输出节点（推子后、静音后，可用于录音或计量） */
+  get output(): AudioNode {
+    return this._muteNode;
+  }
+  
   /** 增益节点 */
   get gainNode(): GainNode {
     return this._gainNode;
@@ -160,7 +289,12 @@ export class WAAudioTrack {
   
   /** 音量 (0-1) */
   get volume(): number {
-    return this._muted ? 0 : this._gainNode.gain.value;
+    return this._muted || this._soloMuted ? 0 : this._gainNode.gain.value;
+  }
+  
+  /** 推子音量（不受静音影响） */
+  get faderVolume(): number {
+    return this._originalVolume;
   }
   
   /** 声像 (-1 到 1) */
@@ -196,10 +330,7 @@ export class WAAudioTrack {
   setVolume(value: number): void {
     const clampedValue = Math.max(0, Math.min(value, 1));
     
-    if (!this._muted) {
-      this._gainNode.gain.setTargetAtTime(clampedValue, this._context.currentTime, 0.01);
-    }
-    
+    this._touchParam('volume', this._gainNode.gain, clampedValue);
     this._originalVolume = clampedValue;
   }
   
@@ -208,6 +339,7 @@ export class WAAudioTrack {
     const clampedValue = Math.max(0, Math.min(value, 1));
     this._gainNode.gain.cancelScheduledValues(this._context.currentTime);
     this._gainNode.gain.linearRampToValueAtTime(clampedValue, this._context.currentTime + duration);
+    this._originalVolume = clampedValue;
   }
   
   // ============================================
@@ -217,7 +349,7 @@ export class WAAudioTrack {
   /** 设置声像 */
   setPan(value: number): void {
     const clampedValue = Math.max(-1, Math.min(value, 1));
-    this._panNode.pan.setTargetAtTime(clampedValue, this._context.currentTime, 0.01);
+    this._touchParam('pan', this._panNode.pan, clampedValue);
   }
   
   // ============================================
@@ -232,12 +364,13 @@ export class WAAudioTrack {
   /** 设置静音 */
   setMute(muted: boolean): void {
     this._muted = muted;
-    
-    if (muted) {
-      this._gainNode.gain.setTargetAtTime(0, this._context.currentTime, 0.01);
-    } else {
-      this._gainNode.gain.setTargetAtTime(this._originalVolume, this._context.currentTime, 0.01);
-    }
+    this._applyMute();
+  }
+  
+  /** 设置独奏静音（内部使用） */
+  setSoloMuted(muted: boolean): void {
+    this._soloMuted = muted;
+    this._applyMute();
   }
   
   /** 切换独奏 */
@@ -252,58 +385,457 @@ export class WAAudioTrack {
     this._mixer.updateSoloState();
   }
   
+  /** 应用静音（用户静音或独奏静音） */
+  private _applyMute(): void {
+    const value = this._muted || this._soloMuted ? 0 : 1;
+    this._muteNode.gain.setTargetAtTime(value, this._context.currentTime, 0.01);
+    
+    // 发送在静音节点之前取信号，需单独静音
+    for (const send of this._sends.values()) {
+      this._applySendLevel(send);
+    }
+  }
+  
   // ============================================
-  // 效果器连接
+  // 录音预备
   // ============================================
   
-  /** 添加效果器 */
-  addEffect(effect: AudioNode): void {
-    // 断开当前位置的连接
-    if (this._effectsChain.length > 0) {
-      const lastNode = this._effectsChain[this._effectsChain.length - 1];
-      lastNode.disconnect();
-    } else {
-      this._panNode.disconnect();
-    }
+  /** 是否预备录音 */
+  get recordArmed(): boolean {
+    return this._recordArmed;
+  }
+  
+  /** 录音输入 */
+  get recordInput(): TrackInput | null {
+    return this._recordInput;
+  }
+  
+  /** 录音声道数（设备输入按所选声道数，节点输入为立体声） */
+  get recordChannels(): number {
+    const input = this._recordInput;
+    if (typeof input === 'number') return 1;
+    if (Array.isArray(input)) return Math.max(1, input.length);
+    return 2;
+  }
+  
+  /** 设置录音预备 */
+  setRecordArm(armed: boolean): void {
+    this._recordArmed = armed;
+  }
+  
+  /** 切换录音预备 */
+  toggleRecordArm(): void {
+    this.setRecordArm(!this._recordArmed);
+  }
+  
+  /** 循环录音版本通道 */
+  get takes(): WAAudioTakeLanes {
+    return this._takes;
+  }
+  
+  /**
+   * 将版本拼选结果合成为片段
+   * 
+   * 新片段放在拼选起点，随后清空版本通道
+   * 
+   * @returns 新片段，无拼选时返回 null
+   */
+  flattenTakes(): WAAudioClip | null {
+    const start = this._takes.compStart;
+    const editor = this._takes.flatten();
+    if (!editor) return null;
     
-    // 添加到效果链
-    this._effectsChain.push(effect);
+    const clip = this.addClip(editor.toBuffer(), { start, name: `${this._name} Comp` });
+    this._takes.clear();
+    return clip;
+  }
+  
+  /**
+   * 设置录音输入
+   * 
+   * @param input - 设备声道（从 0 开始）、声道数组或节点；null 为清除
+   */
+  setRecordInput(input: TrackInput | null): void {
+    if (Array.isArray(input) && input.length === 0) {
+      throw new Error('录音输入至少需要一个声道');
+    }
+    this._recordInput = Array.isArray(input) ? [...input] : input;
+  }
+  
+  // ============================================
+  // 时间线片段
+  // ============================================
+  
+  /**
+   * 添加片段
+   * 
+   * @param buffer - 音频缓冲区
+   * @param config - 片段配置（起点、偏移、长度、增益、淡入淡出）
+   */
+  addClip(buffer: AudioBuffer, config: ClipConfig = {}): WAAudioClip {
+    const clip = new WAAudioClip(`clip_${this._nextClipId++}`, buffer, config);
+    this._clips.set(clip.id, clip);
+    return clip;
+  }
+  
+  /** 移除片段（正在播放的部分随之停止） */
+  removeClip(clip: WAAudioClip | string): boolean {
+    const id = typeof clip === 'string' ? clip : clip.id;
     
-    // 重新连接
-    this._reconnectChain();
+    for (const voice of Array.from(this._voices)) {
+      if (voice.clip.id === id) {
+        this._stopVoice(voice, this._context.currentTime);
+      }
+    }
+    return this._clips.delete(id);
+  }
+  
+  /** 获取片段 */
+  getClip(id: string): WAAudioClip | undefined {
+    return this._clips.get(id);
+  }
+  
+  /** 获取所有片段（按起点排序） */
+  getClips(): WAAudioClip[] {
+    return Array.from(this._clips.values()).sort((a, b) => a.start - b.start);
+  }
+  
+  /** 清除所有片段 */
+  clearClips(): void {
+    this.stop();
+    this._clips.clear();
+  }
+  
+  /** 最后一个片段的终点 */
+  get clipsEnd(): number {
+    let end = 0;
+    for (const clip of this._clips.values()) {
+      end = Math.max(end, clip.end);
+    }
+    return end;
+  }
+  
+  /**
+   * 调度片段播放（由走带调用）
+   * 
+   * @param position - 走带位置
+   * @param when - 该位置对应的上下文时间
+   * @param until - 截止走带位置
+   */
+  scheduleClip(clip: WAAudioClip, position: number, when: number, until?: number): ClipVoice | null {
+    const voice = clip.schedule(this._context, this.input, position, when, until);
+    if (voice) {
+      this._voices.add(voice);
+      voice.source.addEventListener('ended', () => this._voices.delete(voice));
+    }
+    return voice;
+  }
+  
+  /** 停止一个片段播放（短暂淡出避免爆音） */
+  private _stopVoice(voice: ClipVoice, when: number): void {
+    voice.gain.gain.cancelScheduledValues(when);
+    voice.gain.gain.setTargetAtTime(0, when, 0.002);
+    voice.source.stop(when + 0.01);
+    this._voices.delete(voice);
+  }
+  
+  // ============================================
+  // 效果器连接
+  // ============================================
+  
+  /**
+   * 添加效果器
+   * 
+   * @returns 效果器 ID
+   */
+  addEffect(effect: WAAudioEffect, id: string = `fx_${this._nextEffectId++}`): string {
+    this._effectsChain.add(id, effect);
+    return id;
   }
   
   /** 移除效果器 */
-  removeEffect(effect: AudioNode): void {
-    const index = this._effectsChain.indexOf(effect);
-    if (index > -1) {
-      this._effectsChain.splice(index, 1);
-      
-      // 断开并重新连接
-      effect.disconnect();
-      this._reconnectChain();
+  removeEffect(effect: WAAudioEffect | string): void {
+    const id = typeof effect === 'string'
+      ? effect
+      : this._effectsChain.ids.find(existing => this._effectsChain.get(existing) === effect);
+    
+    if (id !== undefined) {
+      this._effectsChain.remove(id);
     }
   }
   
   /** 清除所有效果器 */
   clearEffects(): void {
-    for (const effect of this._effectsChain) {
-      effect.disconnect();
+    this._effectsChain.clear();
+  }
+  
+  // ============================================
+  // 发送
+  // ============================================
+  
+  /**
+   * 设置发送到总线
+   * 
+   * @param busName - 总线名称
+   * @param level - 发送电平 (0-1)
+   * @param mode - 推子前/推子后
+   * @returns 总线不存在时返回 false
+   */
+  setSend(busName: string, level: number, mode: SendMode = 'post'): boolean {
+    const bus = this._mixer.getBus(busName);
+    if (!bus) return false;
+    
+    let send = this._sends.get(busName);
+    
+    // 切换发送位置时重新连接
+    if (send && send.mode !== mode) {
+      this.removeSend(busName);
+      send = undefined;
+    }
+    
+    if (!send) {
+      const gain = this._context.createGain();
+      gain.gain.value = 0;
+      this._sendSource(mode).connect(gain);
+      gain.connect(bus.input);
+      send = { gain, level: 0, mode };
+      this._sends.set(busName, send);
+    }
+    
+    send.level = Math.max(0, Math.min(level, 1));
+    this._applySendLevel(send);
+    this._mixer.updateSoloState();
+    return true;
+  }
+  
+  /** 移除发送 */
+  removeSend(busName: string): void {
+    const send = this._sends.get(busName);
+    if (send) {
+      this._sendSource(send.mode).disconnect(send.gain);
+      send.gain.disconnect();
+      this._sends.delete(busName);
     }
-    this._effectsChain = [];
-    this._reconnectChain();
   }
   
-  /** 重新连接效果链 */
-  private _reconnectChain(): void {
-    let previousNode: AudioNode = this._panNode;
+  /** 获取发送 */
+  getSend(busName: string): SendState | undefined {
+    const send = this._sends.get(busName);
+    return send ? { bus: busName, level: send.level, mode: send.mode } : undefined;
+  }
+  
+  /** 获取所有发送 */
+  getSends(): SendState[] {
+    return Array.from(this._sends.keys()).map(busName => this.getSend(busName)!);
+  }
+  
+  /** 是否有发送到指定总线 */
+  sendsTo(busName: string): boolean {
+    const send = this._sends.get(busName);
+    return send !== undefined && send.level > 0;
+  }
+  
+  /** 发送取信号的节点: 推子前取声像后，推子后取增益后 */
+  private _sendSource(mode: SendMode): AudioNode {
+    return mode === 'pre' ? this._panNode : this._gainNode;
+  }
+  
+  /** 应用发送电平 */
+  private _applySendLevel(send: TrackSend): void {
+    const level = this._muted || this._soloMuted ? 0 : send.level;
+    send.gain.gain.setTargetAtTime(level, this._context.currentTime, 0.01);
+  }
+  
+  // ============================================
+  // 自动化
+  // ============================================
+  
+  /**
+   * 获取自动化通道（不存在时创建）
+   * 
+   * @param target - 'volume' | 'pan' | 'effect:<效果器 ID>:<参数名>'
+   */
+  getAutomationLane(target: AutomationTarget): WAAudioAutomationLane {
+    let lane = this._automation.get(target);
+    if (!lane) {
+      lane = new WAAudioAutomationLane(target);
+      this._automation.set(target, lane);
+    }
+    return lane;
+  }
+  
+  /** 获取所有自动化通道 */
+  getAutomationLanes(): WAAudioAutomationLane[] {
+    return Array.from(this._automation.values());
+  }
+  
+  /** 移除自动化通道 */
+  removeAutomationLane(target: AutomationTarget): boolean {
+    const lane = this._automation.get(target);
+    if (!lane) return false;
     
-    for (const effect of this._effectsChain) {
-      previousNode.connect(effect);
-      previousNode = effect;
+    const param = this._resolveParam(target);
+    if (param) {
+      param.cancelScheduledValues(this._context.currentTime);
+    }
+    return this._automation.delete(target);
+  }
+  
+  /**
+   * 从走带位置开始回放自动化
+   * 
+   * 回放中调度未来的段（如循环的下一圈）时，参数提前调度，
+   * 写入状态与位置参考保持在当前段，到达 when 时再切换
+   * 
+   * @param position - 走带位置（秒）
+   * @param when - 该位置对应的上下文时间（默认现在）
+   */
+  scheduleAutomation(position: number, when: number = this._context.currentTime): void {
+    if (this._automationPasses.length > 0 && when > this._context.currentTime) {
+      this._automationPasses.push({ position, when });
+      
+      for (const lane of this._automation.values()) {
+        const param = this._resolveParam(lane.target);
+        if (param && lane.isReading) {
+          lane.schedule(param, position, when);
+        }
+      }
+      return;
     }
     
-    previousNode.connect(this._gainNode);
+    this._automationPasses = [{ position, when }];
+    
+    for (const lane of this._automation.values()) {
+      const param = this._resolveParam(lane.target);
+      if (!param) continue;
+      
+      lane.beginPass(position, param.value);
+      if (lane.isReading) {
+        lane.schedule(param, position, when);
+      }
+    }
+  }
+  
+  /**
+   * 停止自动化回放（参数保持在停止位置的值）
+   */
+  cancelAutomation(when: number = this._context.currentTime): void {
+    if (this._automationPasses.length === 0) return;
+    
+    // 尚未开始的后续段随参数调度一起取消
+    this._advanceAutomation(when);
+    const position = this._automationPosition(when);
+    this._automationPasses = [];
+    
+    for (const lane of this._automation.values()) {
+      lane.endPass(position);
+      
+      const param = this._resolveParam(lane.target);
+      if (param && lane.mode !== 'off') {
+        lane.cancel(param, position, when);
+      }
+    }
+    
+    const volumeLane = this._automation.get('volume');
+    if (volumeLane && volumeLane.mode !== 'off') {
+      this._originalVolume = volumeLane.valueAt(position, this._originalVolume);
+    }
+  }
+  
+  /**
+   * 触碰参数：立即设置值，并在写入模式下记录自动化
+   * 
+   * 用于效果器参数等没有专门 setter 的目标
+   */
+  touchAutomation(target: AutomationTarget, value: number): void {
+    const param = this._resolveParam(target);
+    if (param) {
+      this._touchParam(target, param, value);
+    }
+  }
+  
+  /**
+   * 松开参数（touch 模式下回到原有包络）
+   */
+  releaseAutomation(target: AutomationTarget): void {
+    const lane = this._automation.get(target);
+    if (!lane || this._automationPasses.length === 0) return;
+    
+    const now = this._context.currentTime;
+    this._advanceAutomation(now);
+    const position = this._automationPosition(now);
+    lane.release(position);
+    
+    // 回到包络回放（重新调度会取消后续段，需一并恢复）
+    const param = this._resolveParam(target);
+    if (param && lane.isReading && !lane.isWriting) {
+      lane.schedule(param, position, now);
+      for (const pass of this._automationPasses.slice(1)) {
+        lane.schedule(param, pass.position, pass.when);
+      }
+    }
+  }
+  
+  /**
+   * 设置参数并按需写入自动化
+   * 
+   * 回放包络且未在写入时不改动参数，避免与包络冲突（调用方只记录静态值）
+   */
+  private _touchParam(target: AutomationTarget, param: AudioParam, value: number): void {
+    const now = this._context.currentTime;
+    const lane = this._automation.get(target);
+    this._advanceAutomation(now);
+    
+    if (lane && this._automationPasses.length > 0) {
+      if (lane.touch(this._automationPosition(now), value)) {
+        // 写入期间由用户控制参数
+        param.cancelScheduledValues(now);
+      } else if (lane.isReading && lane.points.length > 0) {
+        return;
+      }
+    }
+    
+    param.setTargetAtTime(value, now, 0.01);
+  }
+  
+  /**
+   * 切换到已开始的后续回放段
+   * 
+   * 在上一段的结束位置结束写入，并从新段的起点重新开始
+   */
+  private _advanceAutomation(now: number): void {
+    const passes = this._automationPasses;
+    
+    while (passes.length > 1 && passes[1].when <= now) {
+      const [current, next] = passes;
+      const end = current.position + (next.when - current.when);
+      passes.shift();
+      
+      for (const lane of this._automation.values()) {
+        lane.endPass(end);
+        
+        const param = this._resolveParam(lane.target);
+        if (param) {
+          lane.beginPass(next.position, param.value);
+        }
+      }
+    }
+  }
+  
+  /** 上下文时间对应的走带位置（当前回放段内） */
+  private _automationPosition(when: number): number {
+    const pass = this._automationPasses[0];
+    if (!pass) return 0;
+    return pass.position + Math.max(0, when - pass.when);
+  }
+  
+  /** 解析自动化目标参数 */
+  private _resolveParam(target: AutomationTarget): AudioParam | undefined {
+    return resolveAutomationParam(target, {
+      volume: this._gainNode.gain,
+      pan: this._panNode.pan,
+      effects: this._effectsChain
+    });
   }
   
   // ============================================
@@ -312,21 +844,24 @@ export class WAAudioTrack {
   
   /** 添加分析器 */
   setAnalyser(analyser: AnalyserNode): void {
+    this.removeAnalyser();
     this._analyser = analyser;
-    this._gainNode.disconnect();
-    this._gainNode.connect(this._mixer.masterGain);
-    this._gainNode.connect(analyser);
+    this._muteNode.connect(analyser);
   }
   
   /** 移除分析器 */
   removeAnalyser(): void {
     if (this._analyser) {
-      this._gainNode.disconnect();
-      this._gainNode.connect(this._mixer.masterGain);
+      this._muteNode.disconnect(this._analyser);
       this._analyser = null;
     }
   }
   
+  /** 创建峰值表（推子后、静音后） */
+  createPeakMeter(options: PeakMeterOptions = {}): Promise<WAAudioPeakMeter> {
+    return WAAudioPeakMeter.create(this._context, this._muteNode, options);
+  }
+  
   // ============================================
   // 实用工具
   // ============================================
@@ -340,7 +875,13 @@ export class WAAudioTrack {
       pan: this._panNode.pan.value,
       muted: this._muted,
       solo: this._solo,
-      color: this._color
+      color: this._color,
+      sends: this.getSends(),
+      automation: this.getAutomationLanes().map(lane => lane.getState()),
+      recordArmed: this._recordArmed,
+      recordInput: typeof this._recordInput === 'number'
+        ? [this._recordInput]
+        : Array.isArray(this._recordInput) ? [...this._recordInput] : null
     };
   }
   
@@ -356,14 +897,252 @@ export class WAAudioTrack {
   /** 销毁轨道 */
   destroy(): void {
     this.stop();
+    for (const busName of Array.from(this._sends.keys())) {
+      this.removeSend(busName);
+    }
     this._gainNode.disconnect();
+    this._muteNode.disconnect();
     this._panNode.disconnect();
+    this._effectsChain.output.disconnect();
     this.clearEffects();
   }
   
-  /** 停止播放 */
+  /** 停止播放（包括已调度但尚未开始的片段） */
   stop(): void {
-    // 子类实现
+    const now = this._context.currentTime;
+    for (const voice of Array.from(this._voices)) {
+      this._stopVoice(voice, now);
+    }
+  }
+}
+
+// ============================================
+// 总线类
+// ============================================
+
+/**
+ * WAAudioBus - 返回总线
+ * 
+ * 承载共享效果器（如混响），由轨道发送馈入
+ * 
+ * 使用示例：
+ * ```typescript
+ * const reverbBus = mixer.addBus('Reverb');
+ * reverbBus.addEffect(context.createReverb().setMix(1));
+ * vocals.setSend('Reverb', 0.4, 'post');
+ * ```
+ */
+export class WAAudioBus {
+  /** 总线名称 */
+  private readonly _name: string;
+  
+  /** 上下文 */
+  private readonly _context: AudioContext;
+  
+  /** 混音器 */
+  private readonly _mixer: WAAudioMixer;
+  
+  /** 输入节点（发送汇入） */
+  private readonly _inputNode: GainNode;
+  
+  /** 效果器链 */
+  private readonly _effectsChain: WAAudioEffectChain;
+  
+  /** 增益节点（音量） */
+  private readonly _gainNode: GainNode;
+  
+  /** 音量 */
+  private _volume: number;
+  
+  /** 静音状态 */
+  private _muted: boolean;
+  
+  /** 独奏状态 */
+  private _solo: boolean;
+  
+  /** 是否因其他独奏而静音 */
+  private _soloMuted = false;
+  
+  /** 下一个效果器 ID */
+  private _nextEffectId = 1;
+  
+  // ============================================
+  // 构造函数
+  // ============================================
+  
+  /**
+   * @param name - 总线名称
+   * @param context - AudioContext
+   * @param mixer - 混音器实例
+   * @param config - 总线配置
+   */
+  constructor(
+    name: string,
+    context: AudioContext,
+    mixer: WAAudioMixer,
+    config: BusConfig = {}
+  ) {
+    this._name = name;
+    this._context = context;
+    this._mixer = mixer;
+    this._volume = Math.max(0, Math.min(config.volume ?? 1, 1));
+    this._muted = config.muted ?? false;
+    this._solo = config.solo ?? false;
+    
+    this._inputNode = context.createGain();
+    this._effectsChain = new WAAudioEffectChain(context);
+    this._gainNode = context.createGain();
+    this._gainNode.gain.value = this._muted ? 0 : this._volume;
+    
+    // 连接: Sends -> Input -> Effects -> Gain -> Mixer
+    this._inputNode.connect(this._effectsChain.input);
+    this._effectsChain.output.connect(this._gainNode);
+    this._gainNode.connect(mixer.input);
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 总线名称 */
+  get name(): string {
+    return this._name;
+  }
+  
+  /** 上下文 */
+  get context(): AudioContext {
+    return this._context;
+  }
+  
+  /** 输入节点 */
+  get input(): AudioNode {
+    return this._inputNode;
+  }
+  
+  /** 效果器链 */
+  get effects(): WAAudioEffectChain {
+    return this._effectsChain;
+  }
+  
+  /** 增益节点 */
+  get gainNode(): GainNode {
+    return this._gainNode;
+  }
+  
+  /** 音量 (0-1) */
+  get volume(): number {
+    return this._volume;
+  }
+  
+  /** 是否静音 */
+  get muted(): boolean {
+    return this._muted;
+  }
+  
+  /** 是否独奏 */
+  get solo(): boolean {
+    return this._solo;
+  }
+  
+  /** 是否活动（未静音且未被独奏影响） */
+  get active(): boolean {
+    return this._mixer.isBusActive(this);
+  }
+  
+  // ============================================
+  // 音量/静音/独奏
+  // ============================================
+  
+  /** 设置音量 */
+  setVolume(value: number): void {
+    this._volume = Math.max(0, Math.min(value, 1));
+    this._applyGain();
+  }
+  
+  /** 切换静音 */
+  toggleMute(): void {
+    this.setMute(!this._muted);
+  }
+  
+  /** 设置静音 */
+  setMute(muted: boolean): void {
+    this._muted = muted;
+    this._applyGain();
+  }
+  
+  /** 切换独奏 */
+  toggleSolo(): void {
+    this.setSolo(!this._solo);
+  }
+  
+  /** 设置独奏 */
+  setSolo(solo: boolean): void {
+    this._solo = solo;
+    this._mixer.updateSoloState();
+  }
+  
+  /** 设置独奏静音（内部使用） */
+  setSoloMuted(muted: boolean): void {
+    this._soloMuted = muted;
+    this._applyGain();
+  }
+  
+  // ============================================
+  // 效果器
+  // ============================================
+  
+  /**
+   * 添加效果器
+   * 
+   * @returns 效果器 ID
+   */
+  addEffect(effect: WAAudioEffect, id: string = `fx_${this._nextEffectId++}`): string {
+    this._effectsChain.add(id, effect);
+    return id;
+  }
+  
+  /** 移除效果器 */
+  removeEffect(effect: WAAudioEffect | string): void {
+    const id = typeof effect === 'string'
+      ? effect
+      : this._effectsChain.ids.find(existing => this._effectsChain.get(existing) === effect);
+    
+    if (id !== undefined) {
+      this._effectsChain.remove(id);
+    }
+  }
+  
+  /** 清除所有效果器 */
+  clearEffects(): void {
+    this._effectsChain.clear();
+  }
+  
+  // ============================================
+  // 实用工具
+  // ============================================
+  
+  /** 获取状态快照 */
+  getState(): BusState {
+    return {
+      name: this._name,
+      volume: this._volume,
+      muted: this._muted,
+      solo: this._solo
+    };
+  }
+  
+  /** 销毁总线 */
+  destroy(): void {
+    this._inputNode.disconnect();
+    this._effectsChain.output.disconnect();
+    this._gainNode.disconnect();
+    this.clearEffects();
+  }
+  
+  /** 应用增益 */
+  private _applyGain(): void {
+    const value = this._muted || this._soloMuted ? 0 : this._volume;
+    this._gainNode.gain.setTargetAtTime(value, this._context.currentTime, 0.01);
   }
 }
 
@@ -398,12 +1177,24 @@ export class WAAudioMixer {
   /** 轨道集合 */
   private readonly _tracks: Map<number, WAAudioTrack>;
   
+  /** 总线集合（按名称） */
+  private readonly _buses: Map<string, WAAudioBus>;
+  
   /** 下一个轨道 ID */
   private _nextTrackId = 1;
   
   /** 是否有独奏轨道 */
   private _hasSoloTracks = false;
   
+  /** 是否有独奏总线 */
+  private _hasSoloBuses = false;
+  
+  /** 共享走带 */
+  private readonly _transport: WAAudioTransport;
+  
+  /** 多轨录音器 */
+  private readonly _recorder: WAAudioSessionRecorder;
+  
   // ============================================
   // 构造函数
   // ============================================
@@ -433,12 +1224,25 @@ export class WAAudioMixer {
     this._masterAnalyser.connect(context.destination);
     
     this._tracks = new Map();
+    this._buses = new Map();
+    this._transport = new WAAudioTransport(this);
+    this._recorder = new WAAudioSessionRecorder(this);
   }
   
   // ============================================
   // 属性访问器
   // ============================================
   
+  /** 上下文 */
+  get context(): AudioContext {
+    return this._context;
+  }
+  
+  /** 输入节点（轨道输出汇入主压缩器） */
+  get input(): AudioNode {
+    return this._masterCompressor;
+  }
+  
   /** 主增益节点 */
   get masterGain(): GainNode {
     return this._masterGain;
@@ -459,6 +1263,25 @@ export class WAAudioMixer {
     return this._masterGain.gain.value;
   }
   
+  /** 共享走带 */
+  get transport(): WAAudioTransport {
+    return this._transport;
+  }
+  
+  /** 多轨录音器 */
+  get recorder(): WAAudioSessionRecorder {
+    return this._recorder;
+  }
+  
+  /** 编排时长（所有轨道最后一个片段的终点） */
+  get duration(): number {
+    let end = 0;
+    for (const track of this._tracks.values()) {
+      end = Math.max(end, track.clipsEnd);
+    }
+    return end;
+  }
+  
   /** 所有轨道数量 */
   get trackCount(): number {
     return this._tracks.size;
@@ -469,6 +1292,11 @@ export class WAAudioMixer {
     return this._hasSoloTracks;
   }
   
+  /** 总线数量 */
+  get busCount(): number {
+    return this._buses.size;
+  }
+  
   // ============================================
   // 轨道管理
   // ============================================
@@ -479,6 +1307,7 @@ export class WAAudioMixer {
   addTrack(config: TrackConfig = {}): WAAudioTrack {
     const track = new WAAudioTrack(this._nextTrackId++, this._context, this, config);
     this._tracks.set(track.id, track);
+    this.updateSoloState();
     return track;
   }
   
@@ -519,6 +1348,63 @@ export class WAAudioMixer {
     }
     this._tracks.clear();
     this._nextTrackId = 1;
+    this.updateSoloState();
+  }
+  
+  // ============================================
+  // 总线管理
+  // ============================================
+  
+  /**
+   * 添加返回总线（同名总线已存在时直接返回）
+   */
+  addBus(name: string, config: BusConfig = {}): WAAudioBus {
+    const existing = this._buses.get(name);
+    if (existing) return existing;
+    
+    const bus = new WAAudioBus(name, this._context, this, config);
+    this._buses.set(name, bus);
+    this.updateSoloState();
+    return bus;
+  }
+  
+  /**
+   * 移除总线（同时移除所有轨道到该总线的发送）
+   */
+  removeBus(name: string): boolean {
+    const bus = this._buses.get(name);
+    if (!bus) return false;
+    
+    for (const track of this._tracks.values()) {
+      track.removeSend(name);
+    }
+    bus.destroy();
+    this._buses.delete(name);
+    this.updateSoloState();
+    return true;
+  }
+  
+  /**
+   * 获取总线
+   */
+  getBus(name: string): WAAudioBus | undefined {
+    return this._buses.get(name);
+  }
+  
+  /**
+   * 获取所有总线
+   */
+  getBuses(): WAAudioBus[] {
+    return Array.from(this._buses.values());
+  }
+  
+  /**
+   * 清空所有总线
+   */
+  clearBuses(): void {
+    for (const name of Array.from(this._buses.keys())) {
+      this.removeBus(name);
+    }
   }
   
   // ============================================
@@ -567,35 +1453,98 @@ export class WAAudioMixer {
   // 内部方法
   // ============================================
   
-  /** 更新独奏状态（内部使用） */
+  /**
+   * 更新独奏状态（内部使用）
+   * 
+   * 有独奏时：独奏轨道、发送到独奏总线的轨道保持发声；
+   * 独奏总线、被独奏轨道馈入的总线保持发声
+   */
   updateSoloState(): void {
-    this._hasSoloTracks = false;
+    this._hasSoloTracks = this.getTracks().some(track => track.solo);
+    this._hasSoloBuses = this.getBuses().some(bus => bus.solo);
     
+    const hasSolo = this._hasSoloTracks || this._hasSoloBuses;
+    
+    // 非独奏轨道静音；用户静音状态保持不变
     for (const track of this._tracks.values()) {
-      if (track.solo) {
-        this._hasSoloTracks = true;
-        break;
-      }
+      track.setSoloMuted(hasSolo && !this._isTrackSoloed(track));
     }
     
-    // 如果有独奏轨道，只播放独奏轨道
-    for (const track of this._tracks.values()) {
-      if (this._hasSoloTracks) {
-        // 独奏轨道不受静音影响，非独奏轨道静音
-        track.setMute(!track.solo);
-      } else {
-        // 没有独奏轨道时，恢复原始状态
-        track.setMute(false);
-      }
+    for (const bus of this._buses.values()) {
+      bus.setSoloMuted(hasSolo && !this._isBusSoloed(bus));
     }
   }
   
   /** 检查轨道是否活动（内部使用） */
   isTrackActive(track: WAAudioTrack): boolean {
-    if (!this._hasSoloTracks) {
-      return !track.muted;
+    if (track.muted) return false;
+    if (!this._hasSoloTracks && !this._hasSoloBuses) return true;
+    return this._isTrackSoloed(track);
+  }
+  
+  /** 检查总线是否活动（内部使用） */
+  isBusActive(bus: WAAudioBus): boolean {
+    if (bus.muted) return false;
+    if (!this._hasSoloTracks && !this._hasSoloBuses) return true;
+    return this._isBusSoloed(bus);
+  }
+  
+  /** 轨道是否处于（直接或隐式）独奏 */
+  private _isTrackSoloed(track: WAAudioTrack): boolean {
+    return track.solo || this.getBuses().some(bus => bus.solo && track.sendsTo(bus.name));
+  }
+  
+  /** 总线是否处于（直接或隐式）独奏 */
+  private _isBusSoloed(bus: WAAudioBus): boolean {
+    return bus.solo || this.getTracks().some(track => track.solo && track.sendsTo(bus.name));
+  }
+  
+  // ============================================
+  // 自动化
+  // ============================================
+  
+  /**
+   * 从走带位置开始回放所有轨道的自动化
+   * 
+   * @param position - 走带位置（秒）
+   * @param when - 该位置对应的上下文时间（默认现在）
+   */
+  scheduleAutomation(position: number, when: number = this._context.currentTime): void {
+    for (const track of this._tracks.values()) {
+      track.scheduleAutomation(position, when);
     }
-    return track.solo;
+  }
+  
+  /** 停止所有轨道的自动化回放 */
+  cancelAutomation(when: number = this._context.currentTime): void {
+    for (const track of this._tracks.values()) {
+      track.cancelAutomation(when);
+    }
+  }
+  
+  // ============================================
+  // 离线渲染
+  // ============================================
+  
+  /**
+   * 创建离线渲染器（可监听进度、取消）
+   */
+  createOfflineRenderer(options: OfflineRenderOptions = {}): WAAudioOfflineRenderer {
+    return new WAAudioOfflineRenderer(this, options);
+  }
+  
+  /**
+   * 离线渲染整个混音
+   */
+  renderOffline(options: OfflineRenderOptions = {}): Promise<AudioBuffer> {
+    return this.createOfflineRenderer(options).render();
+  }
+  
+  /**
+   * 创建分轨导出器
+   */
+  createStemExporter(options: StemExportOptions = {}): WAAudioStemExporter {
+    return new WAAudioStemExporter(this, options);
   }
   
   // ============================================
@@ -605,8 +1554,9 @@ export class WAAudioMixer {
   /** 获取完整状态 */
   getState(): MixerState {
     return {
-      masterVolume: this._masterVolume,
-      tracks: this.getTracks().map(t => t.getState())
+      masterVolume: this.masterVolume,
+      tracks: this.getTracks().map(t => t.getState()),
+      buses: this.getBuses().map(b => b.getState())
     };
   }
   
@@ -614,12 +1564,31 @@ export class WAAudioMixer {
   restoreState(state: MixerState): void {
     this.setMasterVolume(state.masterVolume);
     
-    // 清除现有轨道
+    // 清除现有轨道和总线
     this.clearTracks();
+    this.clearBuses();
+    
+    // 恢复总线（发送依赖总线）
+    for (const busState of state.buses ?? []) {
+      this.addBus(busState.name, busState);
+    }
     
     // 恢复轨道
     for (const trackState of state.tracks) {
       const track = this.addTrack(trackState);
+      for (const send of trackState.sends ?? []) {
+        track.setSend(send.bus, send.level, send.mode);
+      }
+      for (const laneState of trackState.automation ?? []) {
+        const lane = track.getAutomationLane(laneState.target).setMode(laneState.mode);
+        for (const point of laneState.points) {
+          lane.addPoint(point.time, point.value, point.curve);
+        }
+      }
+      if (trackState.recordInput) {
+        track.setRecordInput(trackState.recordInput);
+      }
+      track.setRecordArm(trackState.recordArmed ?? false);
       track.setMute(trackState.muted);
       track.setSolo(trackState.solo);
     }
@@ -642,17 +1611,38 @@ export class WAAudioMixer {
     return Math.sqrt(sum / dataArray.length) / 255;
   }
   
-  /** 获取峰值电平 */
+  /** 创建主输出峰值表 */
+  createPeakMeter(options: PeakMeterOptions = {}): Promise<WAAudioPeakMeter> {
+    return WAAudioPeakMeter.create(this._context, this._masterGain, options);
+  }
+  
+  /** 创建主输出响度表 (LUFS) */
+  createLoudnessMeter(): Promise<WAAudioLoudnessMeter> {
+    return WAAudioLoudnessMeter.create(this._context, this._masterGain);
+  }
+  
+  /**
+   * 获取采样峰值（主分析器窗口内的最大绝对值，线性）
+   * 
+   * 连续计量、真峰值与削波检测请使用 createPeakMeter()
+   */
   getMasterPeak(): number {
-    const dataArray = new Uint8Array(this._masterAnalyser.frequencyBinCount);
-    this._masterAnalyser.getByteFrequencyData(dataArray);
+    const dataArray = new Float32Array(this._masterAnalyser.fftSize);
+    this._masterAnalyser.getFloatTimeDomainData(dataArray);
     
-    return Math.max(...dataArray) / 255;
+    let peak = 0;
+    for (let i = 0; i < dataArray.length; i++) {
+      peak = Math.max(peak, Math.abs(dataArray[i]));
+    }
+    return peak;
   }
   
   /** 销毁混音器 */
   destroy(): void {
+    this._recorder.cancel();
+    this._transport.destroy();
     this.clearTracks();
+    this.clearBuses();
     this._masterGain.disconnect();
     this._masterCompressor.disconnect();
   }
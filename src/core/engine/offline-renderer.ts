@@ -0,0 +1,341 @@
+/**
+ * WAAudio Offline Renderer - 离线渲染引擎
+ * 
+ * 在 OfflineAudioContext 中重建混音器（轨道、效果器、声像、音量、
+ * 静音/独奏、发送/返回总线、主压缩器），以快于实时的速度渲染出 AudioBuffer
+ */
+
+import type { WAAudioMixer, WAAudioTrack, WAAudioBus } from './mixer';
+import { resolveAutomationParam } from './automation';
+
+// ============================================
+// 类型定义
+// ============================================
+
+/**
+ * 轨道调度函数 - 在离线上下文中为轨道安排播放内容
+ * 
+ * @param track - 原始轨道
+ * @param input - 离线图中该轨道的输入节点
+ * @param context - 离线上下文
+ */
+export type TrackScheduler = (
+  track: WAAudioTrack,
+  input: AudioNode,
+  context: OfflineAudioContext
+) => void;
+
+export interface OfflineRenderOptions {
+  /** 渲染时长（秒，默认到编排末尾） */
+  duration?: number;
+  /** 轨道调度函数（默认调度轨道上的时间线片段） */
+  schedule?: TrackScheduler;
+  /** 采样率（默认与混音器相同） */
+  sampleRate?: number;
+  /** 声道数（默认 2） */
+  numberOfChannels?: number;
+  /** 进度回调间隔（秒，默认为时长的 1%；同时是取消渲染的检查点间隔） */
+  progressInterval?: number;
+  /**
+   * 仅渲染指定轨道的推子输出（分轨模式，忽略静音/独奏状态）
+   * 
+   * 指定 tracks 或 buses 任一项时，未指定的另一项视为空
+   */
+  tracks?: WAAudioTrack[];
+  /** 仅渲染指定返回总线（分轨模式） */
+  buses?: WAAudioBus[];
+  /** 是否经过主压缩器和主音量（默认 true） */
+  master?: boolean;
+}
+
+// ============================================
+// 离线渲染器类
+// ============================================
+
+/**
+ * WAAudioOfflineRenderer - 离线渲染器
+ * 
+ * 使用示例：
+ * ```typescript
+ * // 渲染轨道上的片段
+ * const mix = await new WAAudioOfflineRenderer(mixer).render();
+ * 
+ * // 自定义调度
+ * const renderer = new WAAudioOfflineRenderer(mixer, {
+ *   duration: 30,
+ *   schedule: (track, input, ctx) => {
+ *     const source = ctx.createBufferSource();
+ *     source.buffer = buffers.get(track.id)!;
+ *     source.connect(input);
+ *     source.start(0);
+ *   }
+ * });
+ * renderer.onProgress = (progress) => console.log(progress);
+ * const buffer = await renderer.render();
+ * ```
+ */
+export class WAAudioOfflineRenderer {
+  private readonly mixer: WAAudioMixer;
+  private readonly options: OfflineRenderOptions;
+  private _isRendering = false;
+  
+  /** 当前渲染的上下文（取消后置空，旧上下文的回调据此失效） */
+  private _context: OfflineAudioContext | null = null;
+  private _reject: ((reason: Error) => void) | null = null;
+  private _onProgress: ((progress: number) => void) | null = null;
+  
+  constructor(mixer: WAAudioMixer, options: OfflineRenderOptions = {}) {
+    this.mixer = mixer;
+    this.options = options;
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 是否正在渲染 */
+  get isRendering(): boolean {
+    return this._isRendering;
+  }
+  
+  /** 进度回调 (0-1) */
+  set onProgress(callback: ((progress: number) => void) | null) {
+    this._onProgress = callback;
+  }
+  
+  // ============================================
+  // 渲染控制
+  // ============================================
+  
+  /**
+   * 开始渲染
+   * 
+   * @returns 渲染结果
+   */
+  render(): Promise<AudioBuffer> {
+    if (this._isRendering) {
+      return Promise.reject(new Error('正在渲染'));
+    }
+    
+    const duration = this.options.duration ?? this.mixer.duration;
+    const sampleRate = this.options.sampleRate ?? this.mixer.context.sampleRate;
+    const numberOfChannels = this.options.numberOfChannels ?? 2;
+    const length = Math.ceil(duration * sampleRate);
+    
+    if (length <= 0) {
+      return Promise.reject(new Error('渲染时长必须大于 0'));
+    }
+    
+    const context = new OfflineAudioContext(numberOfChannels, length, sampleRate);
+    this._buildGraph(context);
+    this._scheduleProgress(context, duration);
+    
+    this._isRendering = true;
+    this._context = context;
+    
+    return new Promise((resolve, reject) => {
+      this._reject = reject;
+      
+      context.startRendering().then(
+        (buffer) => {
+          if (this._context !== context) return;
+          this._finish();
+          this._onProgress?.(1);
+          resolve(buffer);
+        },
+        (error) => {
+          if (this._context !== context) return;
+          this._finish();
+          reject(error);
+        }
+      );
+    });
+  }
+  
+  /**
+   * 取消渲染
+   * 
+   * render() 返回的 Promise 立即以取消错误拒绝；离线上下文在下一个进度检查点挂起后不再恢复，
+   * 计算随之停止（检查点间隔见 progressInterval）
+   */
+  cancel(): void {
+    if (!this._isRendering) return;
+    
+    const reject = this._reject;
+    this._finish();
+    reject?.(new Error('渲染已取消'));
+  }
+  
+  // ============================================
+  // 私有方法
+  // ============================================
+  
+  /**
+   * 重建混音图: Track (-> Send -> Bus) -> Master Compressor -> Master Gain -> Destination
+   */
+  private _buildGraph(context: OfflineAudioContext): void {
+    const { master = true } = this.options;
+    const stemMode = this.options.tracks !== undefined || this.options.buses !== undefined;
+    const tracks = this.options.tracks ?? (stemMode ? [] : this.mixer.getTracks());
+    const buses = this.options.buses ?? (stemMode ? [] : this.mixer.getBuses());
+    const masterInput = master ? this._buildMaster(context) : context.destination;
+    
+    // 分轨模式按推子电平渲染，不受静音/独奏影响
+    const busInputs = new Map<string, AudioNode>();
+    for (const bus of buses) {
+      busInputs.set(bus.name, this._buildBus(context, bus, masterInput, stemMode || bus.active));
+    }
+    
+    for (const track of this.mixer.getTracks()) {
+      const output = tracks.includes(track) ? masterInput : null;
+      const sends = track.getSends().filter(send => busInputs.has(send.bus));
+      
+      // 既不输出也不发送的轨道无需构建
+      if (!output && sends.length === 0) continue;
+      
+      const input = this._buildTrack(context, track, output, stemMode || track.active);
+      if (this.options.schedule) {
+        this.options.schedule(track, input.node, context);
+      } else {
+        for (const clip of track.getClips()) {
+          clip.schedule(context, input.node, 0, 0);
+        }
+      }
+      
+      for (const send of sends) {
+        const gain = context.createGain();
+        gain.gain.value = stemMode || track.active ? send.level : 0;
+        (send.mode === 'pre' ? input.pan : input.fader).connect(gain);
+        gain.connect(busInputs.get(send.bus)!);
+      }
+    }
+  }
+  
+  /**
+   * 重建主通道: Master Compressor -> Master Gain -> Destination
+   * 
+   * @returns 主通道输入节点
+   */
+  private _buildMaster(context: OfflineAudioContext): AudioNode {
+    const source = this.mixer.masterCompressor;
+    const compressor = context.createDynamicsCompressor();
+    compressor.threshold.value = source.threshold.value;
+    compressor.knee.value = source.knee.value;
+    compressor.ratio.value = source.ratio.value;
+    compressor.attack.value = source.attack.value;
+    compressor.release.value = source.release.value;
+    
+    const masterGain = context.createGain();
+    masterGain.gain.value = this.mixer.masterVolume;
+    
+    compressor.connect(masterGain);
+    masterGain.connect(context.destination);
+    
+    return compressor;
+  }
+  
+  /**
+   * 重建单条轨道: Input -> Effects -> Pan -> Gain -> Mute (-> Destination)
+   * 
+   * 轨道的自动化从走带位置 0 开始回放
+   * 
+   * @returns 轨道输入节点及发送取信号的节点
+   */
+  private _buildTrack(
+    context: OfflineAudioContext,
+    track: WAAudioTrack,
+    destination: AudioNode | null,
+    audible: boolean
+  ): { node: AudioNode; pan: AudioNode; fader: AudioNode } {
+    const effects = track.effects.clone(context);
+    
+    const panNode = context.createStereoPanner();
+    panNode.pan.value = track.pan;
+    
+    const gainNode = context.createGain();
+    gainNode.gain.value = track.faderVolume;
+    
+    const muteNode = context.createGain();
+    muteNode.gain.value = audible ? 1 : 0;
+    
+    effects.output.connect(panNode);
+    panNode.connect(gainNode);
+    gainNode.connect(muteNode);
+    if (destination) {
+      muteNode.connect(destination);
+    }
+    
+    const params = { volume: gainNode.gain, pan: panNode.pan, effects };
+    for (const lane of track.getAutomationLanes()) {
+      const param = resolveAutomationParam(lane.target, params);
+      if (param && lane.isReading) {
+        lane.schedule(param, 0, 0);
+      }
+    }
+    
+    return { node: effects.input, pan: panNode, fader: gainNode };
+  }
+  
+  /**
+   * 重建返回总线: Input -> Effects -> Gain -> Destination
+   * 
+   * @returns 总线输入节点
+   */
+  private _buildBus(
+    context: OfflineAudioContext,
+    bus: WAAudioBus,
+    destination: AudioNode,
+    audible: boolean
+  ): AudioNode {
+    const effects = bus.effects.clone(context);
+    
+    const gainNode = context.createGain();
+    gainNode.gain.value = audible ? bus.volume : 0;
+    
+    effects.output.connect(gainNode);
+    gainNode.connect(destination);
+    
+    return effects.input;
+  }
+  
+  /**
+   * 按间隔挂起上下文以报告进度，并作为取消检查点
+   * 
+   * 每个挂起点在上一个恢复前安排，同一时刻只有一个挂起点
+   */
+  private _scheduleProgress(context: OfflineAudioContext, duration: number): void {
+    // 挂起点必须落在渲染量子（128 帧）边界上且互不重复
+    const quantum = 128;
+    const interval = this.options.progressInterval ?? duration / 100;
+    const step = Math.max(quantum, Math.round((interval * context.sampleRate) / quantum) * quantum);
+    
+    const suspendAt = (frame: number) => {
+      if (frame >= context.length) return;
+      
+      const time = frame / context.sampleRate;
+      context.suspend(time).then(() => {
+        // 已取消：保持挂起，不再计算
+        if (this._context !== context) return;
+        this._onProgress?.(time / duration);
+        suspendAt(frame + step);
+        context.resume();
+      });
+    };
+    suspendAt(step);
+  }
+  
+  /**
+   * 结束渲染状态
+   */
+  private _finish(): void {
+    this._isRendering = false;
+    this._context = null;
+    this._reject = null;
+  }
+}
+
+// ============================================
+// 导出
+// ============================================
+
+export default WAAudioOfflineRenderer;
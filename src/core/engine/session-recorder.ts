@@ -0,0 +1,424 @@
+/**
+ * WAAudio Session Recorder - Multitrack Recording
+ * 
+ * 多轨录音
+ * 同时录制所有预备录音的轨道，按走带位置逐样本对齐，每条录音作为新片段写回轨道
+ * 循环录音时每一遍作为一个版本写入轨道的版本通道
+ */
+
+import type { WAAudioMixer, WAAudioTrack } from './mixer';
+import type { WAAudioClip } from './clip';
+import type { LoopRange } from './transport';
+import { WAAudioCapture, concatCaptureChunks } from '../capture';
+import { getRecordingLatency } from '../latency';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface SessionRecordOptions {
+  /** 起始走带位置（默认当前位置） */
+  position?: number;
+  /** 媒体设备选项（有设备输入时使用） */
+  constraints?: MediaTrackConstraints;
+}
+
+/** 单轨录音（内部） */
+interface TrackTake {
+  track: WAAudioTrack;
+  capture: WAAudioCapture;
+  chunks: Float32Array[][];
+  /** 是否来自设备输入（需要延迟补偿） */
+  device: boolean;
+  /** 为该轨道创建的声道合并节点 */
+  merger: ChannelMergerNode | null;
+}
+
+// ============================================
+// 多轨录音类
+// ============================================
+
+/**
+ * WAAudioSessionRecorder - 多轨录音
+ * 
+ * 设备输入共用一个媒体流，按声道拆分到各轨道；节点输入直接采集
+ * 录音起点以走带起始位置对应的上下文时间为准，设备输入另行补偿往返延迟
+ * 走带启用循环时进入循环录音：每一遍循环区间成为轨道 takes 中的一个版本，默认选用最后一个完整版本
+ * 
+ * 使用示例：
+ * ```typescript
+ * vocals.setRecordInput(0);
+ * guitar.setRecordInput([2, 3]);
+ * vocals.setRecordArm(true);
+ * guitar.setRecordArm(true);
+ * 
+ * await mixer.recorder.record({ position: 8 });
+ * // ... 录音中
+ * const clips = await mixer.recorder.stop();
+ * 
+ * // 循环录音：8-16 秒录多遍，再拼选
+ * mixer.transport.setLoop(8, 16);
+ * await mixer.recorder.record({ position: 6 });
+ * // ... 录若干遍
+ * await mixer.recorder.stop();
+ * vocals.takes.select(vocals.takes.getTakes()[0], 9, 11);
+ * vocals.flattenTakes();
+ * ```
+ */
+export class WAAudioSessionRecorder {
+  /** 混音器 */
+  private readonly _mixer: WAAudioMixer;
+  
+  /** 手动设置的延迟补偿（null 为使用校准值或自动估算） */
+  private _latency: number | null = null;
+  
+  /** 自动估算的延迟 */
+  private _estimatedLatency = 0;
+  
+  /** 正在进行的各轨录音 */
+  private _takes: TrackTake[] = [];
+  
+  /** 设备媒体流 */
+  private _stream: MediaStream | null = null;
+  
+  /** 设备输入节点 */
+  private _streamSource: MediaStreamAudioSourceNode | null = null;
+  
+  /** 设备声道拆分 */
+  private _splitter: ChannelSplitterNode | null = null;
+  
+  /** 是否正在录音 */
+  private _recording = false;
+  
+  /** 循环录音区间（非循环录音为 null） */
+  private _loop: LoopRange | null = null;
+  
+  /** 已完成的录音次数（用于片段命名） */
+  private _takeCount = 0;
+  
+  // ============================================
+  // 构造函数
+  // ============================================
+  
+  /**
+   * @param mixer - 混音器
+   */
+  constructor(mixer: WAAudioMixer) {
+    this._mixer = mixer;
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 是否正在录音 */
+  get isRecording(): boolean {
+    return this._recording;
+  }
+  
+  /** 设备输入的延迟补偿（秒）：手动设置 > calibrateLatency() 校准值 > 自动估算 */
+  get latency(): number {
+    return this._latency ?? getRecordingLatency(this._mixer.context) ?? this._estimatedLatency;
+  }
+  
+  /** 是否为循环录音 */
+  get isLoopRecording(): boolean {
+    return this._recording && this._loop !== null;
+  }
+  
+  /** 预备录音的轨道 */
+  get armedTracks(): WAAudioTrack[] {
+    return this._mixer.getTracks().filter(track => track.recordArmed);
+  }
+  
+  // ============================================
+  // 设置
+  // ============================================
+  
+  /**
+   * 设置延迟补偿
+   * 
+   * @param seconds - 往返延迟（秒）；null 为使用校准值，未校准时按上下文与设备报告的延迟估算
+   */
+  setLatency(seconds: number | null): this {
+    this._latency = seconds === null ? null : Math.max(0, seconds);
+    return this;
+  }
+  
+  // ============================================
+  // 录音控制
+  // ============================================
+  
+  /**
+   * 开始录音
+   * 
+   * 打开所有预备轨道的输入，待采集就绪后从指定位置开始走带
+   * 
+   * @param options - 起始位置、媒体设备选项
+   */
+  async record(options: SessionRecordOptions = {}): Promise<void> {
+    if (this._recording) {
+      throw new Error('已经在录音中');
+    }
+    
+    const transport = this._mixer.transport;
+    
+    const tracks = this.armedTracks;
+    if (tracks.length === 0) {
+      throw new Error('没有预备录音的轨道');
+    }
+    for (const track of tracks) {
+      if (track.recordInput === null) {
+        throw new Error(`轨道 "${track.name}" 未设置录音输入`);
+      }
+    }
+    
+    try {
+      await this._openDevice(tracks, options.constraints ?? {});
+      
+      for (const track of tracks) {
+        this._takes.push(await this._openTake(track));
+      }
+      
+      // 所有采集开始后再走带，保证录音覆盖起始位置
+      await Promise.all(this._takes.map(take => take.capture.started()));
+    } catch (error) {
+      this._release();
+      throw error;
+    }
+    
+    transport.setRecording(true);
+    transport.play(options.position);
+    this._recording = true;
+    
+    // 起始位置在循环终点之前时走带会循环
+    const loop = transport.loopEnabled ? transport.loop : null;
+    this._loop = loop && transport.startPosition < loop.end ? loop : null;
+    
+    console.log(`[SessionRecorder] 开始录音: ${tracks.length} 条轨道`);
+  }
+  
+  /**
+   * 停止录音
+   * 
+   * 走带暂停在当前位置，每条预备轨道新增一个录音片段；循环录音时改为新增版本
+   * 
+   * @returns 新增的片段或版本
+   */
+  async stop(): Promise<WAAudioClip[]> {
+    if (!this._recording) {
+      throw new Error('没有在录音');
+    }
+    
+    const transport = this._mixer.transport;
+    transport.pause();
+    transport.setRecording(false);
+    this._recording = false;
+    
+    // 设备输入在往返延迟内仍有本次演奏的尾部
+    if (this._takes.some(take => take.device) && this.latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latency * 1000));
+    }
+    await Promise.all(this._takes.map(take => take.capture.stop()));
+    
+    const context = this._mixer.context;
+    const sampleRate = context.sampleRate;
+    const takeNumber = ++this._takeCount;
+    const clips: WAAudioClip[] = [];
+    
+    for (const take of this._takes) {
+      // 走带起点在采集中的帧位置（设备输入再加上往返延迟）
+      const latency = take.device ? this.latency : 0;
+      const origin = transport.startTime + latency - (take.capture.startTime ?? transport.startTime);
+      const originFrame = Math.round(origin * sampleRate);
+      
+      if (this._loop) {
+        clips.push(...this._addLoopTakes(take, originFrame, takeNumber));
+        continue;
+      }
+      
+      const skip = Math.max(0, originFrame);
+      const total = take.chunks.reduce((sum, chunk) => sum + chunk[0].length, 0);
+      if (total - skip <= 0) continue;
+      
+      const buffer = concatCaptureChunks(context, take.chunks, take.capture.channels, skip);
+      const start = transport.startPosition + Math.max(0, -originFrame) / sampleRate;
+      
+      clips.push(take.track.addClip(buffer, {
+        start,
+        name: `${take.track.name} 录音 ${takeNumber}`
+      }));
+    }
+    
+    this._loop = null;
+    this._release();
+    
+    console.log(`[SessionRecorder] 录音结束: ${clips.length} 个片段`);
+    return clips;
+  }
+  
+  /**
+   * 取消录音（丢弃所有录音数据）
+   */
+  cancel(): void {
+    if (this._recording) {
+      const transport = this._mixer.transport;
+      transport.pause();
+      transport.setRecording(false);
+      this._recording = false;
+    }
+    this._loop = null;
+    this._release();
+  }
+  
+  // ============================================
+  // 内部方法
+  // ============================================
+  
+  /**
+   * 打开设备输入（仅当有轨道使用设备声道时）
+   */
+  private async _openDevice(tracks: WAAudioTrack[], constraints: MediaTrackConstraints): Promise<void> {
+    const channels = tracks.flatMap(track => this._deviceChannels(track) ?? []);
+    if (channels.length === 0) {
+      this._estimatedLatency = 0;
+      return;
+    }
+    
+    const channelCount = Math.max(...channels) + 1;
+    this._stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        channelCount: { ideal: channelCount },
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+        ...constraints
+      }
+    });
+    
+    const context = this._mixer.context;
+    const settings = this._stream.getAudioTracks()[0]?.getSettings() as MediaTrackSettings & { latency?: number };
+    if (settings?.channelCount !== undefined && settings.channelCount < channelCount) {
+      console.warn(`[SessionRecorder] 设备只有 ${settings.channelCount} 个声道，超出的输入声道将为静音`);
+    }
+    
+    // 往返延迟：上下文输出延迟 + 设备报告的输入延迟
+    this._estimatedLatency = (context.baseLatency ?? 0) + (context.outputLatency ?? 0) + (settings?.latency ?? 0);
+    
+    this._streamSource = context.createMediaStreamSource(this._stream);
+    this._splitter = context.createChannelSplitter(channelCount);
+    this._streamSource.connect(this._splitter);
+  }
+  
+  /**
+   * 为轨道创建采集
+   */
+  private async _openTake(track: WAAudioTrack): Promise<TrackTake> {
+    const context = this._mixer.context;
+    const capture = await WAAudioCapture.create(context, { channels: track.recordChannels });
+    const take: TrackTake = { track, capture, chunks: [], device: false, merger: null };
+    capture.onData = (channels) => take.chunks.push(channels);
+    
+    const deviceChannels = this._deviceChannels(track);
+    if (deviceChannels) {
+      // 选取的设备声道依次合并为轨道的录音声道
+      const merger = context.createChannelMerger(deviceChannels.length);
+      deviceChannels.forEach((channel, index) => this._splitter!.connect(merger, channel, index));
+      capture.connect(merger);
+      take.device = true;
+      take.merger = merger;
+    } else {
+      capture.connect(track.recordInput as AudioNode);
+    }
+    
+    return take;
+  }
+  
+  /**
+   * 把循环录音按遍切分为版本
+   * 
+   * 第一遍从起始位置（不早于循环起点）到循环终点，之后每遍覆盖整个循环区间；
+   * 起始位置之前的预备部分丢弃，最后一遍可能不完整
+   * 
+   * @param originFrame - 走带起始位置在采集中的帧位置
+   */
+  private _addLoopTakes(take: TrackTake, originFrame: number, takeNumber: number): WAAudioClip[] {
+    const loop = this._loop!;
+    const transport = this._mixer.transport;
+    const context = this._mixer.context;
+    const sampleRate = context.sampleRate;
+    const total = take.chunks.reduce((sum, chunk) => sum + chunk[0].length, 0);
+    const lanes = take.track.takes;
+    
+    const startPosition = transport.startPosition;
+    const loopLength = loop.end - loop.start;
+    const takes: WAAudioClip[] = [];
+    let lastComplete: WAAudioClip | null = null;
+    
+    for (let pass = 0; ; pass++) {
+      // 本遍在时间线上的区间与起点相对走带起点的时间
+      const from = pass === 0 ? Math.max(startPosition, loop.start) : loop.start;
+      const elapsed = pass === 0
+        ? from - startPosition
+        : (loop.end - startPosition) + (pass - 1) * loopLength;
+      
+      const first = originFrame + Math.round(elapsed * sampleRate);
+      const last = Math.min(total, first + Math.round((loop.end - from) * sampleRate));
+      if (first >= total) break;
+      
+      const skip = Math.max(0, -first);
+      if (last - first - skip <= 0) continue;
+      
+      const buffer = concatCaptureChunks(context, take.chunks, take.capture.channels, first + skip, last);
+      const clip = lanes.addTake(
+        buffer,
+        from + skip / sampleRate,
+        `${take.track.name} 录音 ${takeNumber}.${pass + 1}`
+      );
+      takes.push(clip);
+      
+      if (clip.start <= loop.start && clip.end >= loop.end - 1 / sampleRate) {
+        lastComplete = clip;
+      }
+    }
+    
+    // 默认选用最后一个完整版本（没有完整版本时用最后一遍）
+    const selected = lastComplete ?? takes[takes.length - 1];
+    if (selected) {
+      lanes.selectTake(selected);
+    }
+    
+    return takes;
+  }
+  
+  /** 轨道使用的设备声道（节点输入返回 null） */
+  private _deviceChannels(track: WAAudioTrack): number[] | null {
+    const input = track.recordInput;
+    if (typeof input === 'number') return [input];
+    if (Array.isArray(input)) return input;
+    return null;
+  }
+  
+  /** 释放采集、设备与中间节点 */
+  private _release(): void {
+    for (const take of this._takes) {
+      if (!take.capture.stopped) {
+        void take.capture.stop();
+      }
+      take.merger?.disconnect();
+    }
+    this._takes = [];
+    
+    this._splitter?.disconnect();
+    this._splitter = null;
+    this._streamSource?.disconnect();
+    this._streamSource = null;
+    
+    if (this._stream) {
+      this._stream.getTracks().forEach(track => track.stop());
+      this._stream = null;
+    }
+  }
+}
+
+export default WAAudioSessionRecorder;
@@ -0,0 +1,227 @@
+/**
+ * WAAudio Stem Exporter - 分轨导出
+ * 
+ * 逐轨离线渲染（推子后，含插入效果器），返回总线单独成轨，
+ * 所有分轨时长一致、从 0 秒对齐
+ */
+
+import { encodeWAV, downloadBlob } from '../export';
+import type { WAVExportOptions } from '../export';
+import { encodeZip } from '../zip';
+import { WAAudioOfflineRenderer } from './offline-renderer';
+import type { TrackScheduler } from './offline-renderer';
+import { WAAudioBus } from './mixer';
+import type { WAAudioMixer, WAAudioTrack } from './mixer';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface StemExportOptions {
+  /** 渲染时长（秒，默认到编排末尾），所有分轨相同 */
+  duration?: number;
+  /** 轨道调度函数（默认调度轨道上的时间线片段） */
+  schedule?: TrackScheduler;
+  /** 采样率（默认与混音器相同） */
+  sampleRate?: number;
+  /** 声道数（默认 2） */
+  numberOfChannels?: number;
+  /** 是否经过主压缩器和主音量（默认 false） */
+  master?: boolean;
+  /** 要导出的轨道（默认全部） */
+  tracks?: WAAudioTrack[];
+  /** 要导出的返回总线（默认全部） */
+  buses?: WAAudioBus[];
+  /**
+   * 文件名模板（不含扩展名），默认 '{index} - {name}'
+   * 
+   * 可用占位符: {name} 轨道/总线名称, {index} 序号 (01, 02...), {id} 轨道 ID（总线为名称）
+   */
+  nameTemplate?: string;
+}
+
+export interface Stem {
+  /** 来源轨道（轨道分轨） */
+  track?: WAAudioTrack;
+  /** 来源总线（总线分轨） */
+  bus?: WAAudioBus;
+  /** 文件名 */
+  filename: string;
+  /** 渲染结果 */
+  buffer: AudioBuffer;
+}
+
+// ============================================
+// 分轨导出类
+// ============================================
+
+/**
+ * WAAudioStemExporter - 分轨导出器
+ * 
+ * 使用示例：
+ * ```typescript
+ * const exporter = new WAAudioStemExporter(mixer, { duration: 180, schedule });
+ * exporter.onProgress = (progress, track) => console.log(track.name, progress);
+ * await exporter.export('song.zip');  // 下载一个 ZIP，每轨一个 WAV
+ * ```
+ */
+export class WAAudioStemExporter {
+  private readonly mixer: WAAudioMixer;
+  private readonly options: StemExportOptions;
+  private _renderer: WAAudioOfflineRenderer | null = null;
+  private _isRendering = false;
+  private _cancelled = false;
+  private _onProgress: ((progress: number, source: WAAudioTrack | WAAudioBus) => void) | null = null;
+  
+  constructor(mixer: WAAudioMixer, options: StemExportOptions = {}) {
+    this.mixer = mixer;
+    this.options = options;
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 是否正在渲染 */
+  get isRendering(): boolean {
+    return this._isRendering;
+  }
+  
+  /** 进度回调（总进度 0-1，当前轨道/总线） */
+  set onProgress(callback: ((progress: number, source: WAAudioTrack | WAAudioBus) => void) | null) {
+    this._onProgress = callback;
+  }
+  
+  // ============================================
+  // 渲染/导出
+  // ============================================
+  
+  /**
+   * 渲染所有分轨
+   */
+  async render(): Promise<Stem[]> {
+    if (this._isRendering) {
+      throw new Error('正在渲染');
+    }
+    
+    const sources: Array<WAAudioTrack | WAAudioBus> = [
+      ...(this.options.tracks ?? this.mixer.getTracks()),
+      ...(this.options.buses ?? this.mixer.getBuses())
+    ];
+    const stems: Stem[] = [];
+    const usedNames = new Set<string>();
+    
+    this._isRendering = true;
+    this._cancelled = false;
+    
+    try {
+      for (let i = 0; i < sources.length; i++) {
+        if (this._cancelled) {
+          throw new Error('渲染已取消');
+        }
+        
+        const source = sources[i];
+        const isBus = source instanceof WAAudioBus;
+        this._renderer = new WAAudioOfflineRenderer(this.mixer, {
+          duration: this.options.duration,
+          schedule: this.options.schedule,
+          sampleRate: this.options.sampleRate,
+          numberOfChannels: this.options.numberOfChannels,
+          master: this.options.master ?? false,
+          tracks: isBus ? [] : [source],
+          buses: isBus ? [source] : []
+        });
+        this._renderer.onProgress = (progress) => {
+          this._onProgress?.((i + progress) / sources.length, source);
+        };
+        
+        const buffer = await this._renderer.render();
+        const filename = this._uniqueName(this._formatName(source, i), usedNames);
+        stems.push(isBus ? { bus: source, filename, buffer } : { track: source, filename, buffer });
+      }
+    } finally {
+      this._renderer = null;
+      this._isRendering = false;
+    }
+    
+    return stems;
+  }
+  
+  /**
+   * 渲染所有分轨并打包下载
+   * 
+   * 浏览器会拦截连续触发的多个下载，所有分轨打包为一个 ZIP（每轨一个 WAV）
+   * 
+   * @param filename - ZIP 文件名
+   * @param options - WAV 导出选项
+   */
+  async export(filename: string = 'stems.zip', options: WAVExportOptions = {}): Promise<Stem[]> {
+    const stems = await this.render();
+    downloadBlob(await encodeStems(stems, options), filename);
+    return stems;
+  }
+  
+  /**
+   * 取消渲染
+   */
+  cancel(): void {
+    if (!this._isRendering) return;
+    
+    this._cancelled = true;
+    this._renderer?.cancel();
+  }
+  
+  // ============================================
+  // 私有方法
+  // ============================================
+  
+  /**
+   * 按模板生成文件名
+   */
+  private _formatName(source: WAAudioTrack | WAAudioBus, index: number): string {
+    const template = this.options.nameTemplate ?? '{index} - {name}';
+    const id = source instanceof WAAudioBus ? source.name : String(source.id);
+    const name = template
+      .replace(/\{name\}/g, source.getState().name)
+      .replace(/\{index\}/g, String(index + 1).padStart(2, '0'))
+      .replace(/\{id\}/g, id);
+    
+    // 移除文件名中的非法字符
+    return name.replace(/[\\/:*?"<>|]/g, '_').trim() || `Stem ${index + 1}`;
+  }
+  
+  /**
+   * 保证文件名唯一
+   */
+  private _uniqueName(name: string, usedNames: Set<string>): string {
+    let filename = `${name}.wav`;
+    let suffix = 2;
+    
+    while (usedNames.has(filename)) {
+      filename = `${name} (${suffix++}).wav`;
+    }
+    
+    usedNames.add(filename);
+    return filename;
+  }
+}
+
+// ============================================
+// 打包函数
+// ============================================
+
+/**
+ * 将分轨打包为 ZIP（每轨一个 WAV，使用分轨的文件名）
+ */
+export function encodeStems(stems: Stem[], options: WAVExportOptions = {}): Promise<Blob> {
+  return encodeZip(stems.map(stem => ({
+    name: stem.filename,
+    data: encodeWAV(stem.buffer, options)
+  })));
+}
+
+// ============================================
+// 导出
+// ============================================
+
+export default WAAudioStemExporter;
@@ -0,0 +1,325 @@
+/**
+ * WAAudio Take Lanes - Take Lanes & Comping
+ * 
+ * 录音版本通道与拼选
+ * 循环录音的每一遍作为一个版本，从不同版本中选取片段拼合为最终版本
+ */
+
+import { WAAudioClip } from './clip';
+import { WAAudioEditor } from '../editor';
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 拼选片段：时间线区间 [start, end) 取自某个版本 */
+export interface CompSegment {
+  /** 版本 ID */
+  take: string;
+  /** 时间线起点（秒） */
+  start: number;
+  /** 时间线终点（秒） */
+  end: number;
+}
+
+/** 拼接处的默认交叉淡化时长（秒） */
+const DEFAULT_CROSSFADE = 0.01;
+
+// ============================================
+// 版本通道类
+// ============================================
+
+/**
+ * WAAudioTakeLanes - 录音版本通道
+ * 
+ * 每个版本是一个 WAAudioClip（起点为时间线位置），拼选结果在相邻片段的拼接处做等功率交叉淡化
+ * 
+ * 使用示例：
+ * ```typescript
+ * const lanes = track.takes;
+ * const [take1, take2, take3] = lanes.getTakes();
+ * lanes.selectTake(take1)
+ *   .select(take2, 8.5, 10.2)
+ *   .select(take3, 12, 13.5);
+ * 
+ * const editor = lanes.flatten();  // 合成为单个缓冲区，可继续编辑
+ * ```
+ */
+export class WAAudioTakeLanes {
+  /** 上下文 */
+  private readonly _context: AudioContext;
+  
+  /** 版本（按 ID） */
+  private readonly _takes: Map<string, WAAudioClip> = new Map();
+  
+  /** 下一个版本 ID */
+  private _nextTakeId = 1;
+  
+  /** 拼选片段（按起点排序，互不重叠） */
+  private _comp: CompSegment[] = [];
+  
+  /** 拼接处交叉淡化时长 */
+  private _crossfade = DEFAULT_CROSSFADE;
+  
+  // ============================================
+  // 构造函数
+  // ============================================
+  
+  /**
+   * @param context - AudioContext
+   */
+  constructor(context: AudioContext) {
+    this._context = context;
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 版本数量 */
+  get count(): number {
+    return this._takes.size;
+  }
+  
+  /** 拼接处交叉淡化时长（秒） */
+  get crossfade(): number {
+    return this._crossfade;
+  }
+  
+  /** 拼选结果的起点（无拼选时为 0） */
+  get compStart(): number {
+    return this._comp.length > 0 ? this._comp[0].start : 0;
+  }
+  
+  /** 拼选结果的终点（无拼选时为 0） */
+  get compEnd(): number {
+    return this._comp.length > 0 ? this._comp[this._comp.length - 1].end : 0;
+  }
+  
+  // ============================================
+  // 版本管理
+  // ============================================
+  
+  /**
+   * 添加版本
+   * 
+   * @param buffer - 录音
+   * @param start - 时间线起点（秒）
+   * @param name - 名称
+   */
+  addTake(buffer: AudioBuffer, start: number, name?: string): WAAudioClip {
+    const take = new WAAudioClip(`take_${this._nextTakeId++}`, buffer, { start, name });
+    this._takes.set(take.id, take);
+    return take;
+  }
+  
+  /** 移除版本（同时移除取自该版本的拼选片段） */
+  removeTake(take: WAAudioClip | string): boolean {
+    const id = typeof take === 'string' ? take : take.id;
+    this._comp = this._comp.filter(segment => segment.take !== id);
+    return this._takes.delete(id);
+  }
+  
+  /** 获取版本 */
+  getTake(id: string): WAAudioClip | undefined {
+    return this._takes.get(id);
+  }
+  
+  /** 获取所有版本（按录制顺序） */
+  getTakes(): WAAudioClip[] {
+    return Array.from(this._takes.values());
+  }
+  
+  /** 清除所有版本与拼选 */
+  clear(): void {
+    this._takes.clear();
+    this._comp = [];
+  }
+  
+  // ============================================
+  // 拼选
+  // ============================================
+  
+  /**
+   * 选取版本的一段
+   * 
+   * 覆盖区间内原有的拼选，超出版本范围的部分被裁掉
+   * 
+   * @param take - 版本或其 ID
+   * @param start - 时间线起点（秒）
+   * @param end - 时间线终点（秒）
+   */
+  select(take: WAAudioClip | string, start: number, end: number): this {
+    const clip = this._requireTake(take);
+    const from = Math.max(Math.min(start, end), clip.start);
+    const to = Math.min(Math.max(start, end), clip.end);
+    if (to <= from) return this;
+    
+    // 裁掉被覆盖的部分
+    const comp: CompSegment[] = [];
+    for (const segment of this._comp) {
+      if (segment.end <= from || segment.start >= to) {
+        comp.push(segment);
+        continue;
+      }
+      if (segment.start < from) {
+        comp.push({ ...segment, end: from });
+      }
+      if (segment.end > to) {
+        comp.push({ ...segment, start: to });
+      }
+    }
+    comp.push({ take: clip.id, start: from, end: to });
+    comp.sort((a, b) => a.start - b.start);
+    
+    // 合并取自同一版本的相邻片段
+    this._comp = [];
+    for (const segment of comp) {
+      const last = this._comp[this._comp.length - 1];
+      if (last && last.take === segment.take && last.end >= segment.start) {
+        last.end = Math.max(last.end, segment.end);
+      } else {
+        this._comp.push({ ...segment });
+      }
+    }
+    return this;
+  }
+  
+  /** 选取整个版本 */
+  selectTake(take: WAAudioClip | string): this {
+    const clip = this._requireTake(take);
+    return this.select(clip, clip.start, clip.end);
+  }
+  
+  /** 获取拼选片段 */
+  getComp(): CompSegment[] {
+    return this._comp.map(segment => ({ ...segment }));
+  }
+  
+  /** 某时刻拼选所用的版本 ID */
+  takeAt(time: number): string | null {
+    const segment = this._comp.find(s => time >= s.start && time < s.end);
+    return segment?.take ?? null;
+  }
+  
+  /** 清除拼选 */
+  clearComp(): this {
+    this._comp = [];
+    return this;
+  }
+  
+  /** 设置拼接处交叉淡化时长 */
+  setCrossfade(seconds: number): this {
+    this._crossfade = Math.max(0, seconds);
+    return this;
+  }
+  
+  // ============================================
+  // 合成
+  // ============================================
+  
+  /**
+   * 渲染拼选结果
+   * 
+   * 相邻片段的拼接处以拼接点为中心交叉淡化；与空白相邻的边缘在片段内部淡入/淡出
+   * 
+   * @returns 从 compStart 开始的缓冲区，无拼选时返回 null
+   */
+  render(): AudioBuffer | null {
+    if (this._comp.length === 0) return null;
+    
+    const sampleRate = this._context.sampleRate;
+    const rangeStart = this.compStart;
+    const length = Math.max(1, Math.round((this.compEnd - rangeStart) * sampleRate));
+    const channels = Math.max(...this._comp.map(segment => this._takes.get(segment.take)!.buffer.numberOfChannels));
+    const output = this._context.createBuffer(channels, length, sampleRate);
+    
+    this._comp.forEach((segment, index) => {
+      const prev = this._comp[index - 1];
+      const next = this._comp[index + 1];
+      const segmentLength = segment.end - segment.start;
+      
+      // 拼接处的半个淡化长度（两侧共用，不超过任一片段的一半）
+      const seamIn = prev && prev.end === segment.start
+        ? Math.min(this._crossfade / 2, (prev.end - prev.start) / 2, segmentLength / 2)
+        : null;
+      const seamOut = next && next.start === segment.end
+        ? Math.min(this._crossfade / 2, (next.end - next.start) / 2, segmentLength / 2)
+        : null;
+      
+      // 淡化区间：拼接处居中，空白边缘在片段内部
+      const fadeIn = seamIn !== null
+        ? { from: segment.start - seamIn, to: segment.start + seamIn }
+        : { from: segment.start, to: segment.start + Math.min(this._crossfade, segmentLength / 2) };
+      const fadeOut = seamOut !== null
+        ? { from: segment.end - seamOut, to: segment.end + seamOut }
+        : { from: segment.end - Math.min(this._crossfade, segmentLength / 2), to: segment.end };
+      
+      this._mixSegment(output, rangeStart, this._takes.get(segment.take)!, fadeIn, fadeOut);
+    });
+    
+    return output;
+  }
+  
+  /**
+   * 合成为单个缓冲区并交给编辑器
+   * 
+   * @returns 载入拼选结果的编辑器，无拼选时返回 null
+   */
+  flatten(): WAAudioEditor | null {
+    const buffer = this.render();
+    return buffer ? new WAAudioEditor(this._context, buffer) : null;
+  }
+  
+  // ============================================
+  // 内部方法
+  // ============================================
+  
+  /** 获取版本，不存在时抛出 */
+  private _requireTake(take: WAAudioClip | string): WAAudioClip {
+    const id = typeof take === 'string' ? take : take.id;
+    const clip = this._takes.get(id);
+    if (!clip) {
+      throw new Error(`版本不存在: ${id}`);
+    }
+    return clip;
+  }
+  
+  /**
+   * 把版本在 [fadeIn.from, fadeOut.to) 内的样本按等功率包络叠加到输出
+   */
+  private _mixSegment(
+    output: AudioBuffer,
+    rangeStart: number,
+    take: WAAudioClip,
+    fadeIn: { from: number; to: number },
+    fadeOut: { from: number; to: number }
+  ): void {
+    const sampleRate = output.sampleRate;
+    const source = take.buffer;
+    const first = Math.max(0, Math.round((fadeIn.from - rangeStart) * sampleRate));
+    const last = Math.min(output.length, Math.round((fadeOut.to - rangeStart) * sampleRate));
+    
+    for (let channel = 0; channel < output.numberOfChannels; channel++) {
+      const out = output.getChannelData(channel);
+      const input = source.getChannelData(Math.min(channel, source.numberOfChannels - 1));
+      
+      for (let i = first; i < last; i++) {
+        const time = rangeStart + (i + 0.5) / sampleRate;
+        const sourceIndex = Math.floor((time - take.start + take.offset) * sampleRate);
+        if (time < take.start || time >= take.end || sourceIndex >= input.length) continue;
+        
+        let weight = 1;
+        if (time < fadeIn.to) {
+          weight = Math.sin((time - fadeIn.from) / (fadeIn.to - fadeIn.from) * Math.PI / 2);
+        } else if (time > fadeOut.from) {
+          weight = Math.cos((time - fadeOut.from) / (fadeOut.to - fadeOut.from) * Math.PI / 2);
+        }
+        
+        out[i] += input[sourceIndex] * weight * take.gain;
+      }
+    }
+  }
+}
+
+export default WAAudioTakeLanes;
@@ -0,0 +1,380 @@
+/**
+ * WAAudio Transport - Shared Transport
+ * 
+ * 共享走带
+ * 驱动所有轨道的片段与自动化按时间线播放
+ */
+
+import type { WAAudioMixer } from './mixer';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export type TransportState = 'stopped' | 'playing' | 'paused';
+
+export interface TransportOptions {
+  /** 提前调度时长（秒） */
+  lookahead?: number;
+  /** 调度器间隔（毫秒） */
+  interval?: number;
+}
+
+export interface LoopRange {
+  start: number;
+  end: number;
+}
+
+/** 连续播放的一段时间线（循环时每圈一段） */
+interface TransportPass {
+  /** 起始走带位置 */
+  position: number;
+  /** 起始位置对应的上下文时间 */
+  when: number;
+  /** 截止走带位置（循环终点，不循环时为 Infinity） */
+  until: number;
+  /** 本段已调度的片段 ID（按轨道） */
+  scheduled: Set<string>;
+}
+
+// ============================================
+// 走带类
+// ============================================
+
+/**
+ * WAAudioTransport - 共享走带
+ * 
+ * 以前瞻方式调度 AudioBufferSourceNode，起止时间均按上下文时间精确计算
+ * 
+ * 使用示例：
+ * ```typescript
+ * const transport = mixer.transport;
+ * transport.setLoop(8, 16);
+ * transport.play(8);
+ * transport.onEnd = () => console.log('播放结束');
+ * ```
+ */
+export class WAAudioTransport {
+  /** 混音器 */
+  private readonly _mixer: WAAudioMixer;
+  
+  /** 提前调度时长 */
+  private readonly _lookahead: number;
+  
+  /** 调度器间隔 */
+  private readonly _interval: number;
+  
+  /** 状态 */
+  private _state: TransportState = 'stopped';
+  
+  /** 停止/暂停时的走带位置 */
+  private _position = 0;
+  
+  /** 循环区间 */
+  private _loop: LoopRange | null = null;
+  
+  /** 循环是否启用 */
+  private _loopEnabled = false;
+  
+  /** 最近一次开始播放的起始位置与对应的上下文时间 */
+  private _start = { position: 0, when: 0 };
+  
+  /** 是否在录音（录音时播放到编排末尾不自动停止） */
+  private _recording = false;
+  
+  /** 播放段（最后一段可能尚未开始） */
+  private _passes: TransportPass[] = [];
+  
+  /** 已调度到的上下文时间 */
+  private _scheduledUntil = 0;
+  
+  /** 调度器定时器 */
+  private _timer: ReturnType<typeof setInterval> | null = null;
+  
+  /** 播放结束回调 */
+  private _onEnd: (() => void) | null = null;
+  
+  // ============================================
+  // 构造函数
+  // ============================================
+  
+  /**
+   * @param mixer - 混音器
+   * @param options - 调度选项
+   */
+  constructor(mixer: WAAudioMixer, options: TransportOptions = {}) {
+    this._mixer = mixer;
+    this._lookahead = options.lookahead ?? 0.1;
+    this._interval = options.interval ?? 25;
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 状态 */
+  get state(): TransportState {
+    return this._state;
+  }
+  
+  /** 是否正在播放 */
+  get isPlaying(): boolean {
+    return this._state === 'playing';
+  }
+  
+  /** 当前走带位置（秒） */
+  get position(): number {
+    if (this._state !== 'playing') {
+      return this._position;
+    }
+    
+    const now = this._mixer.context.currentTime;
+    const pass = this._currentPass(now);
+    return pass.position + Math.max(0, now - pass.when);
+  }
+  
+  /** 编排总时长（最后一个片段的终点） */
+  get duration(): number {
+    return this._mixer.duration;
+  }
+  
+  /** 最近一次开始播放的起始位置（秒） */
+  get startPosition(): number {
+    return this._start.position;
+  }
+  
+  /** 最近一次开始播放时，起始位置对应的上下文时间 */
+  get startTime(): number {
+    return this._start.when;
+  }
+  
+  /** 是否在录音 */
+  get isRecording(): boolean {
+    return this._recording;
+  }
+  
+  /** 循环区间 */
+  get loop(): LoopRange | null {
+    return this._loop ? { ...this._loop } : null;
+  }
+  
+  /** 循环是否启用 */
+  get loopEnabled(): boolean {
+    return this._loopEnabled && this._loop !== null;
+  }
+  
+  /** 播放到编排末尾时的回调（循环时不触发） */
+  set onEnd(callback: (() => void) | null) {
+    this._onEnd = callback;
+  }
+  
+  // ============================================
+  // 走带控制
+  // ============================================
+  
+  /**
+   * 播放
+   * 
+   * @param position - 起始位置（默认当前位置）
+   */
+  play(position?: number): void {
+    if (this._state === 'playing') {
+      this._position = this.position;
+      this._halt();
+    }
+    
+    const context = this._mixer.context;
+    if (context.state === 'suspended') {
+      void context.resume();
+    }
+    
+    this._position = Math.max(0, position ?? this._position);
+    this._state = 'playing';
+    
+    // 留出一个调度间隔，保证第一批片段按时开始
+    const when = context.currentTime + this._interval / 1000;
+    this._passes = [];
+    this._start = { position: this._position, when };
+    this._startPass(this._position, when);
+    this._scheduledUntil = when;
+    
+    this._tick();
+    this._timer = setInterval(() => this._tick(), this._interval);
+  }
+  
+  /** 暂停（保留位置） */
+  pause(): void {
+    if (this._state !== 'playing') return;
+    
+    this._position = this.position;
+    this._halt();
+    this._state = 'paused';
+  }
+  
+  /** 停止（回到起点） */
+  stop(): void {
+    if (this._state === 'playing') {
+      this._halt();
+    }
+    this._state = 'stopped';
+    this._position = 0;
+  }
+  
+  /**
+   * 跳转
+   * 
+   * @param position - 目标位置（秒）
+   */
+  seek(position: number): void {
+    const clampedPosition = Math.max(0, position);
+    
+    if (this._state === 'playing') {
+      this.play(clampedPosition);
+    } else {
+      this._position = clampedPosition;
+    }
+  }
+  
+  /**
+   * 设置循环区间（同时启用循环）
+   * 
+   * @param start - 循环起点（秒）
+   * @param end - 循环终点（秒）
+   */
+  setLoop(start: number, end: number): void {
+    const loopStart = Math.max(0, Math.min(start, end));
+    const loopEnd = Math.max(start, end);
+    
+    if (loopEnd - loopStart <= 0) {
+      throw new Error('循环区间长度必须大于 0');
+    }
+    
+    this._loop = { start: loopStart, end: loopEnd };
+    this._loopEnabled = true;
+    this._restart();
+  }
+  
+  /** 启用/禁用循环（保留区间） */
+  setLoopEnabled(enabled: boolean): void {
+    this._loopEnabled = enabled;
+    this._restart();
+  }
+  
+  /** 设置录音状态（由录音器调用） */
+  setRecording(recording: boolean): void {
+    this._recording = recording;
+  }
+  
+  /** 清除循环区间 */
+  clearLoop(): void {
+    this._loop = null;
+    this._loopEnabled = false;
+    this._restart();
+  }
+  
+  /** 销毁 */
+  destroy(): void {
+    this.stop();
+    this._onEnd = null;
+  }
+  
+  // ============================================
+  // 调度
+  // ============================================
+  
+  /**
+   * 调度器：把前瞻窗口内开始的片段交给轨道
+   */
+  private _tick(): void {
+    if (this._state !== 'playing') return;
+    
+    const now = this._mixer.context.currentTime;
+    
+    // 不再循环且播放到末尾（录音时继续走带）
+    if (!this._recording && this._currentPass(now).until === Infinity && this.position >= this.duration) {
+      this.stop();
+      this._onEnd?.();
+      return;
+    }
+    
+    // 丢弃已结束的播放段
+    while (this._passes.length > 1 && this._passes[1].when <= now) {
+      this._passes.shift();
+    }
+    
+    const horizon = now + this._lookahead;
+    
+    while (this._scheduledUntil < horizon) {
+      const pass = this._passes[this._passes.length - 1];
+      const passEnd = pass.when + (pass.until - pass.position);
+      const windowEnd = Math.min(horizon, passEnd);
+      
+      this._schedule(
+        pass,
+        pass.position + (this._scheduledUntil - pass.when),
+        pass.position + (windowEnd - pass.when)
+      );
+      this._scheduledUntil = windowEnd;
+      
+      if (windowEnd < passEnd) break;
+      
+      // 到达循环终点：下一圈从循环起点开始
+      this._startPass(this._loop!.start, passEnd);
+    }
+  }
+  
+  /**
+   * 调度时间线区间 [from, to) 内的片段
+   */
+  private _schedule(pass: TransportPass, from: number, to: number): void {
+    for (const track of this._mixer.getTracks()) {
+      for (const clip of track.getClips()) {
+        const key = `${track.id}:${clip.id}`;
+        if (pass.scheduled.has(key) || !clip.overlaps(from, to)) continue;
+        
+        pass.scheduled.add(key);
+        track.scheduleClip(clip, pass.position, pass.when, pass.until);
+      }
+    }
+  }
+  
+  /** 开始新的播放段 */
+  private _startPass(position: number, when: number): void {
+    const loop = this.loopEnabled ? this._loop! : null;
+    const until = loop && position < loop.end ? loop.end : Infinity;
+    
+    this._passes.push({ position, when, until, scheduled: new Set() });
+    this._mixer.scheduleAutomation(position, when);
+  }
+  
+  /** 当前上下文时间所在的播放段 */
+  private _currentPass(now: number): TransportPass {
+    for (let i = this._passes.length - 1; i > 0; i--) {
+      if (this._passes[i].when <= now) {
+        return this._passes[i];
+      }
+    }
+    return this._passes[0];
+  }
+  
+  /** 停止调度与所有已调度的片段 */
+  private _halt(): void {
+    if (this._timer !== null) {
+      clearInterval(this._timer);
+      this._timer = null;
+    }
+    
+    this._mixer.stopAll();
+    this._mixer.cancelAutomation();
+    this._passes = [];
+  }
+  
+  /** 循环设置变化后从当前位置重新调度 */
+  private _restart(): void {
+    if (this._state === 'playing') {
+      this.play(this.position);
+    }
+  }
+}
+
+export default WAAudioTransport;
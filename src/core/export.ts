@@ -1,9 +1,23 @@
 /**
  * WAAudio Export - 音频导出工具
  * 
- * 支持 WAV 导出
+ * 支持 WAV 导出（可在导出时转换采样率）
  */
 
+import { resampleChannels } from './resampler';
+import type { ResampleQuality } from './resampler';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface WAVExportOptions {
+  /** 导出采样率（默认与缓冲区相同） */
+  sampleRate?: number;
+  /** 采样率转换质量（默认 'high'） */
+  quality?: ResampleQuality;
+}
+
 // ============================================
 // 导出函数
 // ============================================
@@ -11,15 +25,25 @@
 /**
  * 编码为 WAV Blob
  */
-export function encodeWAV(audioBuffer: AudioBuffer): Blob {
+export function encodeWAV(audioBuffer: AudioBuffer, options: WAVExportOptions = {}): Blob {
   const numChannels = audioBuffer.numberOfChannels;
-  const sampleRate = audioBuffer.sampleRate;
+  const sampleRate = options.sampleRate ?? audioBuffer.sampleRate;
+  
+  // 各声道数据（需要时转换采样率）
+  let channels: Float32Array[] = [];
+  for (let channel = 0; channel < numChannels; channel++) {
+    channels.push(audioBuffer.getChannelData(channel));
+  }
+  if (sampleRate !== audioBuffer.sampleRate) {
+    channels = resampleChannels(channels, audioBuffer.sampleRate, sampleRate, options.quality);
+  }
+  
   const format = 1; // PCM
   const bitDepth = 16;
   
   const bytesPerSample = bitDepth / 8;
   const blockAlign = numChannels * bytesPerSample;
-  const samples = audioBuffer.length;
+  const samples = channels[0].length;
   const dataSize = samples * blockAlign;
   const bufferSize = 44 + dataSize;
   
@@ -45,7 +69,8 @@ export function encodeWAV(audioBuffer: AudioBuffer): Blob {
   const offset = 44;
   for (let i = 0; i < samples; i++) {
     for (let channel = 0; channel < numChannels; channel++) {
-      const sample = audioBuffer.getChannelData(Math.min(channel, numChannels - 1))[i];
+      // 重采样的过冲（吉布斯现象）可能超出 [-1, 1]，先限幅防止整数回绕
+      const sample = Math.max(-1, Math.min(1, channels[channel][i]));
       const intSample = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
       view.setInt16(offset + (i * blockAlign) + (channel * bytesPerSample), intSample, true);
     }
@@ -66,7 +91,7 @@ function writeString(view: DataView, offset: number, str: string): void {
 /**
  * 下载 Blob
  */
-function downloadBlob(blob: Blob, filename: string): void {
+export function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
@@ -78,16 +103,16 @@ function downloadBlob(blob: Blob, filename: string): void {
 /**
  * 导出为 WAV 文件
  */
-export function exportWAV(buffer: AudioBuffer, filename: string = 'export.wav'): void {
-  const wavBlob = encodeWAV(buffer);
+export function exportWAV(buffer: AudioBuffer, filename: string = 'export.wav', options: WAVExportOptions = {}): void {
+  const wavBlob = encodeWAV(buffer, options);
   downloadBlob(wavBlob, filename);
 }
 
 /**
  * 获取 WAV Blob 的 URL
  */
-export function getWAVUrl(buffer: AudioBuffer): string {
-  const blob = encodeWAV(buffer);
+export function getWAVUrl(buffer: AudioBuffer, options: WAVExportOptions = {}): string {
+  const blob = encodeWAV(buffer, options);
   return URL.createObjectURL(blob);
 }
 
@@ -12,7 +12,15 @@ import { WAAudioOscillator } from './source/oscillator';
 import { WAAudioAnalyser } from './analyser';
 import { WAAudioEQ, WAAudioCompressor, WAAudioReverb, WAAudioDelay, WAAudioDistortion, WAAudioEffectFactory, WAAudioEffectChain } from './effects';
 import { WAAudioRecorder } from './recorder';
-import { WAAudioMixer, WAAudioTrack } from './engine/mixer';
+import { WAAudioMixer, WAAudioTrack, WAAudioBus } from './engine/mixer';
+import { WAAudioLoudnessMeter } from './loudness';
+import { WAAudioPeakMeter } from './meter';
+import type { PeakMeterOptions } from './meter';
+import type { RecorderConfig } from './recorder';
+import { calibrateLatency } from './latency';
+import type { LatencyCalibrationOptions, LatencyCalibrationResult } from './latency';
+import { resampleBuffer, getWAVSampleRate } from './resampler';
+import type { ResampleQuality } from './resampler';
 
 // ============================================
 // 类型定义
@@ -45,9 +53,11 @@ export class WAAudioContext {
   private _compressor: DynamicsCompressorNode;
   
   constructor(config: WAAudioConfig = {}) {
-    const sampleRate = config.sampleRate || 44100;
-    const AudioContextClass = (window as { AudioContext?: new() => AudioContext }).AudioContext;
-    this._context = new AudioContextClass?.() || new (window.AudioContext || (window as { webkitAudioContext: new() => AudioContext }).webkitAudioContext)({ sampleRate });
+    // 未指定采样率时使用设备默认采样率
+    const options: AudioContextOptions = config.sampleRate ? { sampleRate: config.sampleRate } : {};
+    const AudioContextClass = window.AudioContext
+      || (window as unknown as { webkitAudioContext: new (options?: AudioContextOptions) => AudioContext }).webkitAudioContext;
+    this._context = new AudioContextClass(options);
     
     this._compressor = this._context.createDynamicsCompressor();
     this._compressor.threshold.value = -24;
@@ -81,11 +91,40 @@ export class WAAudioContext {
   
   // 音频源
   async createSource(file: File): Promise<WAAudioSource> {
-    const arrayBuffer = await file.arrayBuffer();
-    const audioBuffer = await this._context.decodeAudioData(arrayBuffer);
+    const audioBuffer = await this.decodeFile(file);
     return new WAAudioSource(this._context, audioBuffer, this._masterGain);
   }
   
+  /**
+   * 解码音频文件
+   * 
+   * 指定 quality 时，采样率不同的 WAV 文件先按原采样率解码，再用带限重采样转换到上下文采样率；
+   * 其他格式由浏览器解码时转换
+   */
+  async decodeFile(file: File, quality?: ResampleQuality): Promise<AudioBuffer> {
+    const arrayBuffer = await file.arrayBuffer();
+    const fileRate = quality ? getWAVSampleRate(arrayBuffer) : null;
+    
+    if (!quality || fileRate === null || fileRate === this.sampleRate) {
+      return this._context.decodeAudioData(arrayBuffer);
+    }
+    
+    const native = await new OfflineAudioContext(1, 1, fileRate).decodeAudioData(arrayBuffer);
+    return resampleBuffer(this._context, native, this.sampleRate, quality);
+  }
+  
+  /**
+   * 转换缓冲区采样率
+   * 
+   * @param buffer - 输入
+   * @param sampleRate - 目标采样率（默认为上下文采样率）
+   * @param quality - 转换质量
+   */
+  resample(buffer: AudioBuffer, sampleRate: number = this.sampleRate, quality: ResampleQuality = 'high'): AudioBuffer {
+    if (buffer.sampleRate === sampleRate) return buffer;
+    return resampleBuffer(this._context, buffer, sampleRate, quality);
+  }
+  
   createOscillator(type: OscillatorType = 'sine', frequency: number = 440): WAAudioOscillator {
     return new WAAudioOscillator(this._context, this._masterGain, type, frequency);
   }
@@ -120,6 +159,10 @@ export class WAAudioContext {
     return new WAAudioDistortion(this._context).setAmount(amount);
   }
   
+  createEffectChain(): WAAudioEffectChain {
+    return new WAAudioEffectChain(this._context);
+  }
+  
   createLowpass(frequency: number = 1000): BiquadFilterNode {
     const filter = this._context.createBiquadFilter();
     filter.type = 'lowpass';
@@ -139,9 +182,26 @@ export class WAAudioContext {
     return new WAAudioAnalyser(this._context, fftSize);
   }
   
+  createLoudnessMeter(source?: AudioNode, channels: number = 2): Promise<WAAudioLoudnessMeter> {
+    return WAAudioLoudnessMeter.create(this._context, source, channels);
+  }
+  
+  createPeakMeter(source?: AudioNode, options: PeakMeterOptions = {}): Promise<WAAudioPeakMeter> {
+    return WAAudioPeakMeter.create(this._context, source, options);
+  }
+  
+  // 混音
+  createMixer(): WAAudioMixer {
+    return new WAAudioMixer(this._context);
+  }
+  
   // 录音
-  createRecorder(): WAAudioRecorder {
-    return new WAAudioRecorder(this._context);
+  createRecorder(config: RecorderConfig = {}): WAAudioRecorder {
+    return new WAAudioRecorder(this._context, config);
+  }
+  
+  calibrateLatency(options: LatencyCalibrationOptions = {}): Promise<LatencyCalibrationResult> {
+    return calibrateLatency(this._context, options);
   }
   
   // 控制
@@ -175,8 +235,43 @@ export { WAAudioOscillator };
 export { WAAudioAnalyser };
 export { WAAudioEQ, WAAudioCompressor, WAAudioReverb, WAAudioDelay, WAAudioDistortion };
 export { WAAudioEffectFactory, WAAudioEffectChain };
-export { WAAudioRecorder };
-export { WAAudioMixer, WAAudioTrack };
+export type { WAAudioEffect, EffectType } from './effects';
+export { WAAudioRecorder, punchReplace } from './recorder';
+export type { RecorderConfig, RecordingState, RecordingSource, PunchOptions, MonitorOptions, VoiceActivationOptions } from './recorder';
+export { calibrateLatency, getRecordingLatency, setRecordingLatency } from './latency';
+export type { LatencyCalibrationOptions, LatencyCalibrationResult } from './latency';
+export { WAAudioRecordingStore, isQuotaError } from './recording-store';
+export type { RecordingSessionInfo, RecordingSessionConfig, StorageQuota } from './recording-store';
+export { WAAudioMixer, WAAudioTrack, WAAudioBus };
+export type { TrackConfig, TrackState, TrackInput, MixerState, BusConfig, BusState, SendMode, SendState } from './engine/mixer';
+export { WAAudioOfflineRenderer } from './engine/offline-renderer';
+export type { OfflineRenderOptions, TrackScheduler } from './engine/offline-renderer';
+export { WAAudioStemExporter, encodeStems } from './engine/stem-exporter';
+export type { StemExportOptions, Stem } from './engine/stem-exporter';
+export { WAAudioAutomationLane, effectAutomationTarget } from './engine/automation';
+export type { AutomationCurve, AutomationMode, AutomationTarget, AutomationPoint, AutomationLaneState } from './engine/automation';
+export { WAAudioCapture } from './capture';
+export type { CaptureOptions, CaptureCallback } from './capture';
+export { WAAudioLoudness, WAAudioLoudnessMeter, measureLoudness } from './loudness';
+export type { LoudnessResult } from './loudness';
+export { WAAudioPeakDetector, WAAudioPeakMeter, measurePeak, amplitudeToDb, dbToAmplitude } from './meter';
+export type { PeakMeterOptions, PeakLevel, PeakMeterChannel, PeakThresholdCallback } from './meter';
+export { WAAudioClip } from './engine/clip';
+export type { ClipConfig, ClipState, ClipVoice } from './engine/clip';
+export { WAAudioTransport } from './engine/transport';
+export type { TransportState, TransportOptions, LoopRange } from './engine/transport';
+export { WAAudioSessionRecorder } from './engine/session-recorder';
+export type { SessionRecordOptions } from './engine/session-recorder';
+export { WAAudioTakeLanes } from './engine/takes';
+export type { CompSegment } from './engine/takes';
 export { WAAudioEditor } from './editor';
-export { exportWAV, exportWebM } from './export';
+export type { EditSegment, EditFade, EditorOptions, HistoryEntry, SpliceOptions, ApplyEffectOptions, SilenceOptions, StripSilenceOptions, DownmixLaw } from './editor';
+export { exportWAV, exportWebM, encodeWAV, downloadBlob } from './export';
+export { encodeZip, crc32 } from './zip';
+export type { ZipEntry } from './zip';
+export type { WAVExportOptions } from './export';
+export { resampleBuffer, resampleChannel, resampleChannels, getWAVSampleRate } from './resampler';
+export type { ResampleQuality } from './resampler';
+export { WAAudioTimeStretchNode, timeStretchBuffer, timeStretchChannels } from './time-stretch';
+export type { TimeStretchMode, TimeStretchOptions, TimeStretchNodeOptions } from './time-stretch';
 export * from './markers';
@@ -0,0 +1,282 @@
+/**
+ * WAAudio Latency - 往返延迟校准
+ * 
+ * 播放测试脉冲并录回，通过互相关测量 输出 → 输入 的往返延迟
+ * 测得的延迟按上下文保存，录音器据此自动对齐录音
+ */
+
+import { WAAudioCapture, concatCaptureChunks } from './capture';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface LatencyCalibrationOptions {
+  /**
+   * 回环替身的延迟（秒）
+   * 
+   * 设置后测试脉冲经 DelayNode 直接送回采集，不使用扬声器与麦克风，便于无硬件测试
+   */
+  loopback?: number;
+  /** 输入节点（默认打开麦克风；设置 loopback 时忽略） */
+  input?: AudioNode;
+  /** 输出节点（默认 context.destination；设置 loopback 时忽略） */
+  output?: AudioNode;
+  /** 测量次数，结果取中位数（默认 3） */
+  repeats?: number;
+  /** 每次测量的等待窗口（秒，需大于实际延迟，默认 0.5） */
+  window?: number;
+  /** 测试脉冲电平 (dBFS，默认 -12) */
+  level?: number;
+  /** 是否保存为该上下文的录音延迟（默认 true） */
+  store?: boolean;
+  /** 媒体设备选项（打开麦克风时使用） */
+  constraints?: MediaTrackConstraints;
+}
+
+export interface LatencyCalibrationResult {
+  /** 往返延迟（秒，各次测量的中位数） */
+  latency: number;
+  /** 往返延迟（样本数） */
+  samples: number;
+  /** 各次测量值（秒） */
+  measurements: number[];
+  /** 相关度 (0-1)，越接近 1 越可信 */
+  confidence: number;
+}
+
+/** 测试脉冲时长（秒） */
+const PULSE_DURATION = 0.02;
+
+/** 可接受的最低相关度 */
+const MIN_CONFIDENCE = 0.2;
+
+/** 各上下文已保存的录音延迟 */
+const storedLatency: WeakMap<BaseAudioContext, number> = new WeakMap();
+
+// ============================================
+// 延迟存取
+// ============================================
+
+/**
+ * 获取上下文已保存的录音延迟
+ * 
+ * @returns 往返延迟（秒），未校准时返回 null
+ */
+export function getRecordingLatency(context: BaseAudioContext): number | null {
+  return storedLatency.get(context) ?? null;
+}
+
+/**
+ * 保存上下文的录音延迟（如从上次会话恢复）
+ * 
+ * @param seconds - 往返延迟（秒），null 为清除
+ */
+export function setRecordingLatency(context: BaseAudioContext, seconds: number | null): void {
+  if (seconds === null) {
+    storedLatency.delete(context);
+  } else {
+    storedLatency.set(context, Math.max(0, seconds));
+  }
+}
+
+// ============================================
+// 校准
+// ============================================
+
+/**
+ * 测量往返延迟
+ * 
+ * 使用示例：
+ * ```typescript
+ * // 扬声器对着麦克风
+ * const { latency } = await calibrateLatency(context);
+ * 
+ * // 无硬件：用 12ms 的回环替身验证流程
+ * const result = await calibrateLatency(context, { loopback: 0.012 });
+ * ```
+ * 
+ * @param context - 上下文
+ * @param options - 校准选项
+ */
+export async function calibrateLatency(
+  context: AudioContext,
+  options: LatencyCalibrationOptions = {}
+): Promise<LatencyCalibrationResult> {
+  const repeats = Math.max(1, Math.round(options.repeats ?? 3));
+  const spacing = Math.max(0.1, options.window ?? 0.5);
+  const sampleRate = context.sampleRate;
+  
+  if (context.state === 'suspended') {
+    await context.resume();
+  }
+  
+  const pulse = createPulse(context, Math.pow(10, (options.level ?? -12) / 20));
+  const pulseData = pulse.getChannelData(0);
+  
+  // 输入输出：回环替身或真实设备
+  let stream: MediaStream | null = null;
+  let input: AudioNode;
+  let output: AudioNode;
+  let loopback: DelayNode | null = null;
+  
+  if (options.loopback !== undefined) {
+    loopback = context.createDelay(Math.max(1, options.loopback * 2));
+    loopback.delayTime.value = Math.max(0, options.loopback);
+    input = loopback;
+    output = loopback;
+  } else if (options.input) {
+    input = options.input;
+    output = options.output ?? context.destination;
+  } else {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+        ...options.constraints
+      }
+    });
+    input = context.createMediaStreamSource(stream);
+    output = options.output ?? context.destination;
+  }
+  
+  const chunks: Float32Array[][] = [];
+  const capture = await WAAudioCapture.create(context, { channels: 1 });
+  capture.onData = (channels) => chunks.push(channels);
+  capture.connect(input);
+  
+  try {
+    const captureStart = await capture.started();
+    
+    // 依次发出脉冲，每个窗口一个
+    const firstPulse = Math.max(context.currentTime, captureStart) + 0.1;
+    const sources: AudioBufferSourceNode[] = [];
+    for (let i = 0; i < repeats; i++) {
+      const source = context.createBufferSource();
+      source.buffer = pulse;
+      source.connect(output);
+      source.start(firstPulse + i * spacing);
+      sources.push(source);
+    }
+    
+    const end = firstPulse + repeats * spacing;
+    await new Promise<void>(resolve => {
+      setTimeout(resolve, Math.max(0, (end - context.currentTime) * 1000) + 50);
+    });
+    await capture.stop();
+    sources.forEach(source => source.disconnect());
+    
+    const recorded = concatCaptureChunks(context, chunks, 1).getChannelData(0);
+    
+    // 每个窗口内找互相关峰值
+    const measurements: number[] = [];
+    let confidence = 1;
+    for (let i = 0; i < repeats; i++) {
+      const emitted = Math.round((firstPulse + i * spacing - captureStart) * sampleRate);
+      const segment = recorded.subarray(emitted, Math.min(recorded.length, emitted + Math.round(spacing * sampleRate)));
+      const peak = findPulse(segment, pulseData);
+      
+      confidence = Math.min(confidence, peak.correlation);
+      measurements.push(peak.offset / sampleRate);
+    }
+    
+    if (confidence < MIN_CONFIDENCE) {
+      throw new Error('未检测到测试脉冲，请检查输入输出连接与音量');
+    }
+    
+    const sorted = [...measurements].sort((a, b) => a - b);
+    const latency = sorted[Math.floor(sorted.length / 2)];
+    
+    if (options.store ?? true) {
+      setRecordingLatency(context, latency);
+    }
+    
+    console.log(`[Latency] 往返延迟: ${(latency * 1000).toFixed(2)}ms`);
+    return {
+      latency,
+      samples: Math.round(latency * sampleRate),
+      measurements,
+      confidence
+    };
+  } finally {
+    if (!capture.stopped) {
+      void capture.stop();
+    }
+    capture.disconnect();
+    loopback?.disconnect();
+    if (stream) {
+      input.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+    }
+  }
+}
+
+// ============================================
+// 内部函数
+// ============================================
+
+/**
+ * 生成测试脉冲：汉宁窗下的线性扫频 (1k-8kHz)，自相关尖锐
+ */
+function createPulse(context: BaseAudioContext, amplitude: number): AudioBuffer {
+  const sampleRate = context.sampleRate;
+  const length = Math.round(PULSE_DURATION * sampleRate);
+  const buffer = context.createBuffer(1, length, sampleRate);
+  const data = buffer.getChannelData(0);
+  
+  const f0 = 1000;
+  const f1 = Math.min(8000, sampleRate * 0.4);
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const phase = 2 * Math.PI * (f0 * t + (f1 - f0) * t * t / (2 * PULSE_DURATION));
+    const hann = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (length - 1));
+    data[i] = amplitude * hann * Math.sin(phase);
+  }
+  
+  return buffer;
+}
+
+/**
+ * 在录音段中寻找脉冲
+ * 
+ * @returns 脉冲起点偏移（样本）与该处的归一化相关度
+ */
+function findPulse(segment: Float32Array, pulse: Float32Array): { offset: number; correlation: number } {
+  let pulseEnergy = 0;
+  for (let i = 0; i < pulse.length; i++) {
+    pulseEnergy += pulse[i] * pulse[i];
+  }
+  
+  let best = 0;
+  let bestOffset = 0;
+  let bestEnergy = 0;
+  
+  // 滑动窗口能量，用于归一化
+  let energy = 0;
+  for (let i = 0; i < Math.min(pulse.length, segment.length); i++) {
+    energy += segment[i] * segment[i];
+  }
+  
+  for (let offset = 0; offset + pulse.length <= segment.length; offset++) {
+    let sum = 0;
+    for (let i = 0; i < pulse.length; i++) {
+      sum += segment[offset + i] * pulse[i];
+    }
+    
+    // 取绝对值，容忍输入极性反转
+    if (Math.abs(sum) > best) {
+      best = Math.abs(sum);
+      bestOffset = offset;
+      bestEnergy = energy;
+    }
+    
+    const next = offset + pulse.length;
+    if (next < segment.length) {
+      energy += segment[next] * segment[next] - segment[offset] * segment[offset];
+    }
+  }
+  
+  const norm = Math.sqrt(pulseEnergy * Math.max(bestEnergy, 1e-12));
+  return { offset: bestOffset, correlation: best / norm };
+}
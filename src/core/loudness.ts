@@ -0,0 +1,581 @@
+/**
+ * WAAudio Loudness - 响度计量 (ITU-R BS.1770 / EBU R128)
+ * 
+ * K 加权、门限、瞬时/短期/综合响度与响度范围
+ * 支持实时计量任意节点，或离线分析 AudioBuffer
+ */
+
+import { WAAudioCapture } from './capture';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface LoudnessResult {
+  /** 综合响度 (LUFS) */
+  integrated: number;
+  /** 响度范围 (LU) */
+  range: number;
+  /** 最近的瞬时响度 (LUFS，400ms 窗口) */
+  momentary: number;
+  /** 最近的短期响度 (LUFS，3s 窗口) */
+  shortTerm: number;
+  /** 最大瞬时响度 (LUFS) */
+  momentaryMax: number;
+  /** 最大短期响度 (LUFS) */
+  shortTermMax: number;
+}
+
+/** 二阶 IIR 系数与状态 */
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/** 绝对门限 (LUFS) */
+const ABSOLUTE_GATE = -70;
+
+/** 综合响度相对门限 (LU) */
+const INTEGRATED_RELATIVE_GATE = -10;
+
+/** 响度范围相对门限 (LU) */
+const RANGE_RELATIVE_GATE = -20;
+
+/** 子块时长（秒），瞬时与短期窗口以此为步进 */
+const SUB_BLOCK_TIME = 0.1;
+
+/** 瞬时窗口子块数（400ms） */
+const MOMENTARY_BLOCKS = 4;
+
+/** 短期窗口子块数（3s） */
+const SHORT_TERM_BLOCKS = 30;
+
+// ============================================
+// 工具函数
+// ============================================
+
+/** 均方功率 → 响度 (LUFS) */
+function powerToLoudness(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+/** 响度 (LUFS) → 均方功率 */
+function loudnessToPower(loudness: number): number {
+  return Math.pow(10, (loudness + 0.691) / 10);
+}
+
+/**
+ * 计算 K 加权滤波器系数（高频搁架 + RLB 高通）
+ * 
+ * 按 BS.1770 的模拟原型做双线性变换，适用于任意采样率
+ */
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  // 高频搁架
+  let f0 = 1681.974450955533;
+  const gain = 3.999843853973347;
+  let q = 0.7071752369554196;
+  
+  let k = Math.tan(Math.PI * f0 / sampleRate);
+  const vh = Math.pow(10, gain / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  
+  const shelf: Biquad = {
+    b0: (vh + vb * k / q + k * k) / a0,
+    b1: 2 * (k * k - vh) / a0,
+    b2: (vh - vb * k / q + k * k) / a0,
+    a1: 2 * (k * k - 1) / a0,
+    a2: (1 - k / q + k * k) / a0
+  };
+  
+  // RLB 高通
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + k / q + k * k;
+  
+  const highpass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (k * k - 1) / a0,
+    a2: (1 - k / q + k * k) / a0
+  };
+  
+  return [shelf, highpass];
+}
+
+/**
+ * 声道权重（5.1 顺序 L R C LFE Ls Rs：LFE 不计入，环绕声道 +1.5dB）
+ */
+function channelWeights(channels: number): number[] {
+  if (channels === 6) {
+    return [1, 1, 1, 0, 1.41, 1.41];
+  }
+  return new Array(channels).fill(1);
+}
+
+/** 数组百分位（已排序） */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+// ============================================
+// 响度计算核心
+// ============================================
+
+/**
+ * WAAudioLoudness - 响度计算
+ * 
+ * 逐块送入 PCM 数据，随时读取结果；实时计量与离线分析共用
+ * 
+ * 使用示例：
+ * ```typescript
+ * const loudness = new WAAudioLoudness(48000, 2);
+ * loudness.process([left, right]);
+ * console.log(loudness.integrated, loudness.range);
+ * ```
+ */
+export class WAAudioLoudness {
+  /** 采样率 */
+  private readonly _sampleRate: number;
+  
+  /** 声道数 */
+  private readonly _channels: number;
+  
+  /** 声道权重 */
+  private readonly _weights: number[];
+  
+  /** K 加权滤波器 */
+  private readonly _filters: [Biquad, Biquad];
+  
+  /** 每声道滤波器状态 [x1, x2, y1, y2] × 2 级 */
+  private readonly _states: Float64Array[];
+  
+  /** 子块帧数 */
+  private readonly _subBlockFrames: number;
+  
+  /** 当前子块各声道平方和 */
+  private readonly _sums: Float64Array;
+  
+  /** 当前子块已累计帧数 */
+  private _subBlockFill = 0;
+  
+  /** 最近的子块加权功率（最多 SHORT_TERM_BLOCKS 个） */
+  private _subBlocks: number[] = [];
+  
+  /** 瞬时窗口功率（每 100ms 一个，用于综合响度） */
+  private _momentaryPowers: number[] = [];
+  
+  /** 短期窗口功率（每 100ms 一个，用于响度范围） */
+  private _shortTermPowers: number[] = [];
+  
+  /** 最大瞬时功率 */
+  private _momentaryMax = 0;
+  
+  /** 最大短期功率 */
+  private _shortTermMax = 0;
+  
+  // ============================================
+  // 构造函数
+  // ============================================
+  
+  /**
+   * @param sampleRate - 采样率
+   * @param channels - 声道数
+   */
+  constructor(sampleRate: number, channels: number) {
+    this._sampleRate = sampleRate;
+    this._channels = channels;
+    this._weights = channelWeights(channels);
+    this._filters = kWeightingFilters(sampleRate);
+    this._states = Array.from({ length: channels }, () => new Float64Array(8));
+    this._subBlockFrames = Math.round(sampleRate * SUB_BLOCK_TIME);
+    this._sums = new Float64Array(channels);
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 采样率 */
+  get sampleRate(): number {
+    return this._sampleRate;
+  }
+  
+  /** 声道数 */
+  get channels(): number {
+    return this._channels;
+  }
+  
+  /** 已分析时长（秒，按完整子块计） */
+  get duration(): number {
+    return this._momentaryPowers.length * SUB_BLOCK_TIME;
+  }
+  
+  /** 瞬时响度 (LUFS) */
+  get momentary(): number {
+    return powerToLoudness(this._windowPower(MOMENTARY_BLOCKS));
+  }
+  
+  /** 短期响度 (LUFS) */
+  get shortTerm(): number {
+    return powerToLoudness(this._windowPower(SHORT_TERM_BLOCKS));
+  }
+  
+  /** 最大瞬时响度 (LUFS) */
+  get momentaryMax(): number {
+    return powerToLoudness(this._momentaryMax);
+  }
+  
+  /** 最大短期响度 (LUFS) */
+  get shortTermMax(): number {
+    return powerToLoudness(this._shortTermMax);
+  }
+  
+  /**
+   * 综合响度 (LUFS)
+   * 
+   * 400ms 块（75% 重叠），先经 -70 LUFS 绝对门限，再经 -10 LU 相对门限
+   */
+  get integrated(): number {
+    const absolute = loudnessToPower(ABSOLUTE_GATE);
+    const gated = this._momentaryPowers.filter(power => power > absolute);
+    if (gated.length === 0) return -Infinity;
+    
+    const relative = loudnessToPower(powerToLoudness(this._mean(gated)) + INTEGRATED_RELATIVE_GATE);
+    const final = gated.filter(power => power > relative);
+    return powerToLoudness(this._mean(final));
+  }
+  
+  /**
+   * 响度范围 (LU, EBU Tech 3342)
+   * 
+   * 短期响度经 -70 LUFS 绝对门限与 -20 LU 相对门限后，取 10% 到 95% 分位之差
+   */
+  get range(): number {
+    const absolute = loudnessToPower(ABSOLUTE_GATE);
+    const gated = this._shortTermPowers.filter(power => power > absolute);
+    if (gated.length === 0) return 0;
+    
+    const relative = loudnessToPower(powerToLoudness(this._mean(gated)) + RANGE_RELATIVE_GATE);
+    const values = gated
+      .filter(power => power > relative)
+      .map(powerToLoudness)
+      .sort((a, b) => a - b);
+    
+    return percentile(values, 0.95) - percentile(values, 0.1);
+  }
+  
+  // ============================================
+  // 处理
+  // ============================================
+  
+  /**
+   * 送入一段 PCM 数据
+   * 
+   * @param channels - 每声道等长的样本（声道多于计量声道时忽略多余声道）
+   */
+  process(channels: Float32Array[]): void {
+    const length = channels[0]?.length ?? 0;
+    let offset = 0;
+    
+    while (offset < length) {
+      const count = Math.min(length - offset, this._subBlockFrames - this._subBlockFill);
+      
+      for (let c = 0; c < this._channels; c++) {
+        const input = channels[Math.min(c, channels.length - 1)];
+        this._sums[c] += this._filter(c, input, offset, count);
+      }
+      
+      offset += count;
+      this._subBlockFill += count;
+      
+      if (this._subBlockFill === this._subBlockFrames) {
+        this._endSubBlock();
+      }
+    }
+  }
+  
+  /** 获取结果快照 */
+  getResult(): LoudnessResult {
+    return {
+      integrated: this.integrated,
+      range: this.range,
+      momentary: this.momentary,
+      shortTerm: this.shortTerm,
+      momentaryMax: this.momentaryMax,
+      shortTermMax: this.shortTermMax
+    };
+  }
+  
+  /** 重置 */
+  reset(): void {
+    for (const state of this._states) {
+      state.fill(0);
+    }
+    this._sums.fill(0);
+    this._subBlockFill = 0;
+    this._subBlocks = [];
+    this._momentaryPowers = [];
+    this._shortTermPowers = [];
+    this._momentaryMax = 0;
+    this._shortTermMax = 0;
+  }
+  
+  /**
+   * 离线分析整个 AudioBuffer
+   */
+  static measure(buffer: AudioBuffer): LoudnessResult {
+    const loudness = new WAAudioLoudness(buffer.sampleRate, buffer.numberOfChannels);
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      channels.push(buffer.getChannelData(c));
+    }
+    loudness.process(channels);
+    return loudness.getResult();
+  }
+  
+  // ============================================
+  // 内部方法
+  // ============================================
+  
+  /**
+   * K 加权滤波并返回平方和
+   */
+  private _filter(channel: number, input: Float32Array, offset: number, count: number): number {
+    const [shelf, highpass] = this._filters;
+    const state = this._states[channel];
+    let [x1, x2, y1, y2, z1, z2, w1, w2] = state;
+    let sum = 0;
+    
+    for (let i = offset; i < offset + count; i++) {
+      const x = input[i];
+      
+      // 第一级：高频搁架
+      const y = shelf.b0 * x + shelf.b1 * x1 + shelf.b2 * x2 - shelf.a1 * y1 - shelf.a2 * y2;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+      
+      // 第二级：RLB 高通
+      const w = highpass.b0 * y + highpass.b1 * z1 + highpass.b2 * z2 - highpass.a1 * w1 - highpass.a2 * w2;
+      z2 = z1;
+      z1 = y;
+      w2 = w1;
+      w1 = w;
+      
+      sum += w * w;
+    }
+    
+    state[0] = x1;
+    state[1] = x2;
+    state[2] = y1;
+    state[3] = y2;
+    state[4] = z1;
+    state[5] = z2;
+    state[6] = w1;
+    state[7] = w2;
+    return sum;
+  }
+  
+  /** 结束当前子块，更新各窗口 */
+  private _endSubBlock(): void {
+    let power = 0;
+    for (let c = 0; c < this._channels; c++) {
+      power += this._weights[c] * this._sums[c] / this._subBlockFrames;
+    }
+    
+    this._sums.fill(0);
+    this._subBlockFill = 0;
+    
+    this._subBlocks.push(power);
+    if (this._subBlocks.length > SHORT_TERM_BLOCKS) {
+      this._subBlocks.shift();
+    }
+    
+    // 窗口未填满前不计入门限统计
+    if (this._subBlocks.length >= MOMENTARY_BLOCKS) {
+      const momentary = this._windowPower(MOMENTARY_BLOCKS);
+      this._momentaryPowers.push(momentary);
+      this._momentaryMax = Math.max(this._momentaryMax, momentary);
+    }
+    
+    if (this._subBlocks.length >= SHORT_TERM_BLOCKS) {
+      const shortTerm = this._windowPower(SHORT_TERM_BLOCKS);
+      this._shortTermPowers.push(shortTerm);
+      this._shortTermMax = Math.max(this._shortTermMax, shortTerm);
+    }
+  }
+  
+  /** 最近 n 个子块的平均功率（不足时按静音补齐） */
+  private _windowPower(blocks: number): number {
+    let sum = 0;
+    const start = Math.max(0, this._subBlocks.length - blocks);
+    for (let i = start; i < this._subBlocks.length; i++) {
+      sum += this._subBlocks[i];
+    }
+    return sum / blocks;
+  }
+  
+  /** 平均值 */
+  private _mean(values: number[]): number {
+    let sum = 0;
+    for (const value of values) {
+      sum += value;
+    }
+    return values.length > 0 ? sum / values.length : 0;
+  }
+}
+
+// ============================================
+// 实时响度表
+// ============================================
+
+/**
+ * WAAudioLoudnessMeter - 实时响度表
+ * 
+ * 使用示例：
+ * ```typescript
+ * const meter = await WAAudioLoudnessMeter.create(context, mixer.masterGain);
+ * meter.onUpdate = (result) => console.log(result.momentary, result.integrated);
+ * // ...
+ * meter.destroy();
+ * ```
+ */
+export class WAAudioLoudnessMeter {
+  /** PCM 采集 */
+  private readonly _capture: WAAudioCapture;
+  
+  /** 响度计算 */
+  private readonly _loudness: WAAudioLoudness;
+  
+  /** 是否暂停累计 */
+  private _paused = false;
+  
+  /** 更新回调（约每 100ms） */
+  private _onUpdate: ((result: LoudnessResult) => void) | null = null;
+  
+  // ============================================
+  // 构造函数
+  // ============================================
+  
+  private constructor(capture: WAAudioCapture) {
+    this._capture = capture;
+    this._loudness = new WAAudioLoudness(capture.sampleRate, capture.channels);
+    
+    capture.onData = (channels) => {
+      if (this._paused) return;
+      this._loudness.process(channels);
+      this._onUpdate?.(this._loudness.getResult());
+    };
+  }
+  
+  /**
+   * 创建响度表
+   * 
+   * @param context - 上下文
+   * @param source - 计量的节点（可稍后 connect）
+   * @param channels - 声道数（默认 2）
+   */
+  static async create(context: BaseAudioContext, source?: AudioNode, channels: number = 2): Promise<WAAudioLoudnessMeter> {
+    const capture = await WAAudioCapture.create(context, {
+      channels,
+      blockSize: Math.round(context.sampleRate * SUB_BLOCK_TIME)
+    });
+    const meter = new WAAudioLoudnessMeter(capture);
+    if (source) {
+      meter.connect(source);
+    }
+    return meter;
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 瞬时响度 (LUFS) */
+  get momentary(): number {
+    return this._loudness.momentary;
+  }
+  
+  /** 短期响度 (LUFS) */
+  get shortTerm(): number {
+    return this._loudness.shortTerm;
+  }
+  
+  /** 综合响度 (LUFS) */
+  get integrated(): number {
+    return this._loudness.integrated;
+  }
+  
+  /** 响度范围 (LU) */
+  get range(): number {
+    return this._loudness.range;
+  }
+  
+  /** 已计量时长（秒） */
+  get duration(): number {
+    return this._loudness.duration;
+  }
+  
+  /** 是否暂停 */
+  get paused(): boolean {
+    return this._paused;
+  }
+  
+  /** 更新回调 */
+  set onUpdate(callback: ((result: LoudnessResult) => void) | null) {
+    this._onUpdate = callback;
+  }
+  
+  // ============================================
+  // 控制
+  // ============================================
+  
+  /** 连接计量的节点 */
+  connect(source: AudioNode): void {
+    this._capture.connect(source);
+  }
+  
+  /** 断开计量的节点 */
+  disconnect(source?: AudioNode): void {
+    this._capture.disconnect(source);
+  }
+  
+  /** 暂停/继续累计（综合响度与响度范围保持） */
+  setPaused(paused: boolean): void {
+    this._paused = paused;
+  }
+  
+  /** 获取结果快照 */
+  getResult(): LoudnessResult {
+    return this._loudness.getResult();
+  }
+  
+  /** 重置 */
+  reset(): void {
+    this._loudness.reset();
+  }
+  
+  /** 销毁 */
+  destroy(): void {
+    this._onUpdate = null;
+    void this._capture.stop();
+  }
+}
+
+/**
+ * 离线测量 AudioBuffer 的响度
+ */
+export function measureLoudness(buffer: AudioBuffer): LoudnessResult {
+  return WAAudioLoudness.measure(buffer);
+}
+
+export default WAAudioLoudnessMeter;
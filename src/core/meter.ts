@@ -0,0 +1,494 @@
+/**
+ * WAAudio Meter - 峰值表
+ * 
+ * 逐声道采样峰值与 4 倍过采样真峰值 (dBTP, ITU-R BS.1770 附录 2)
+ * 带峰值保持、下落速度、削波计数与越限事件
+ */
+
+import { WAAudioCapture } from './capture';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface PeakMeterOptions {
+  /** 声道数（默认 2） */
+  channels?: number;
+  /** 峰值保持时间（秒，默认 1.5） */
+  holdTime?: number;
+  /** 下落速度（dB/秒，默认 20） */
+  decayRate?: number;
+  /** 越限阈值（dBTP，默认 -1） */
+  threshold?: number;
+  /** 削波电平（dBFS，默认 0） */
+  clipLevel?: number;
+  /** 刷新间隔（秒，默认约 20ms） */
+  refreshTime?: number;
+}
+
+export interface PeakLevel {
+  /** 采样峰值 (dBFS) */
+  sample: number;
+  /** 真峰值 (dBTP) */
+  true: number;
+}
+
+export interface PeakMeterChannel {
+  /** 最近一个刷新周期的采样峰值 (dBFS) */
+  peak: number;
+  /** 最近一个刷新周期的真峰值 (dBTP) */
+  truePeak: number;
+  /** 显示电平（按下落速度衰减，dBTP） */
+  level: number;
+  /** 峰值保持 (dBTP) */
+  hold: number;
+  /** 自重置以来的最大采样峰值 (dBFS) */
+  maxPeak: number;
+  /** 自重置以来的最大真峰值 (dBTP) */
+  maxTruePeak: number;
+  /** 削波次数（连续削波的样本计一次） */
+  clips: number;
+}
+
+/** 越限事件回调 */
+export type PeakThresholdCallback = (channel: number, truePeak: number) => void;
+
+/** 最低显示电平 (dB) */
+const FLOOR_DB = -120;
+
+/** 过采样倍数 */
+const OVERSAMPLE = 4;
+
+/**
+ * 4 倍过采样插值滤波器（48 阶，分为 4 个 12 阶多相分量）
+ */
+const TRUE_PEAK_PHASES: number[][] = [
+  [0.0017089843750, 0.0109863281250, -0.0196533203125, 0.0332031250000, -0.0594482421875, 0.1373291015625,
+    0.9721679687500, -0.1022949218750, 0.0476074218750, -0.0266113281250, 0.0148925781250, -0.0083007812500],
+  [-0.0291748046875, 0.0292968750000, -0.0517578125000, 0.0891113281250, -0.1665039062500, 0.4650878906250,
+    0.7797851562500, -0.2003173828125, 0.1015625000000, -0.0582275390625, 0.0330810546875, -0.0189208984375],
+  [-0.0189208984375, 0.0330810546875, -0.0582275390625, 0.1015625000000, -0.2003173828125, 0.7797851562500,
+    0.4650878906250, -0.1665039062500, 0.0891113281250, -0.0517578125000, 0.0292968750000, -0.0291748046875],
+  [-0.0083007812500, 0.0148925781250, -0.0266113281250, 0.0476074218750, -0.1022949218750, 0.9721679687500,
+    0.1373291015625, -0.0594482421875, 0.0332031250000, -0.0196533203125, 0.0109863281250, 0.0017089843750]
+];
+
+/** 每个多相分量的阶数 */
+const PHASE_TAPS = TRUE_PEAK_PHASES[0].length;
+
+// ============================================
+// 工具函数
+// ============================================
+
+/** 线性幅度 → dB */
+export function amplitudeToDb(amplitude: number): number {
+  return amplitude > 0 ? Math.max(FLOOR_DB, 20 * Math.log10(amplitude)) : FLOOR_DB;
+}
+
+/** dB → 线性幅度 */
+export function dbToAmplitude(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+// ============================================
+// 峰值检测核心
+// ============================================
+
+/**
+ * WAAudioPeakDetector - 采样峰值/真峰值检测
+ * 
+ * 逐块送入 PCM 数据；实时峰值表与离线分析共用
+ * 
+ * 使用示例：
+ * ```typescript
+ * const { sample, true: truePeak } = WAAudioPeakDetector.measure(buffer)[0];
+ * ```
+ */
+export class WAAudioPeakDetector {
+  /** 声道数 */
+  private readonly _channels: number;
+  
+  /** 每声道插值历史（最近 PHASE_TAPS 个样本，环形） */
+  private readonly _history: Float32Array[];
+  
+  /** 环形写入位置 */
+  private _cursor = 0;
+  
+  /**
+   * @param channels - 声道数
+   */
+  constructor(channels: number) {
+    this._channels = channels;
+    this._history = Array.from({ length: channels }, () => new Float32Array(PHASE_TAPS));
+  }
+  
+  /** 声道数 */
+  get channels(): number {
+    return this._channels;
+  }
+  
+  /**
+   * 送入一段 PCM 数据
+   * 
+   * @param channels - 每声道等长的样本
+   * @param onSample - 可选：逐样本回调（声道、采样幅度），用于削波检测
+   * @returns 每声道本段的峰值（线性幅度）
+   */
+  process(
+    channels: Float32Array[],
+    onSample?: (channel: number, amplitude: number) => void
+  ): { sample: number; true: number }[] {
+    const length = channels[0]?.length ?? 0;
+    const peaks = Array.from({ length: this._channels }, () => ({ sample: 0, true: 0 }));
+    const startCursor = this._cursor;
+    
+    for (let c = 0; c < this._channels; c++) {
+      const input = channels[Math.min(c, channels.length - 1)];
+      const history = this._history[c];
+      const peak = peaks[c];
+      let cursor = startCursor;
+      
+      for (let i = 0; i < length; i++) {
+        const x = input[i];
+        const amplitude = Math.abs(x);
+        if (amplitude > peak.sample) peak.sample = amplitude;
+        onSample?.(c, amplitude);
+        
+        history[cursor] = x;
+        cursor = (cursor + 1) % PHASE_TAPS;
+        
+        // 每个输入样本产生 OVERSAMPLE 个插值样本
+        for (let phase = 0; phase < OVERSAMPLE; phase++) {
+          const taps = TRUE_PEAK_PHASES[phase];
+          let y = 0;
+          for (let t = 0; t < PHASE_TAPS; t++) {
+            y += taps[t] * history[(cursor + PHASE_TAPS - 1 - t) % PHASE_TAPS];
+          }
+          const value = Math.abs(y);
+          if (value > peak.true) peak.true = value;
+        }
+      }
+      
+      if (c === this._channels - 1) {
+        this._cursor = cursor;
+      }
+    }
+    
+    // 真峰值不低于采样峰值
+    for (const peak of peaks) {
+      peak.true = Math.max(peak.true, peak.sample);
+    }
+    return peaks;
+  }
+  
+  /** 重置插值历史 */
+  reset(): void {
+    for (const history of this._history) {
+      history.fill(0);
+    }
+    this._cursor = 0;
+  }
+  
+  /**
+   * 离线测量 AudioBuffer 每声道的峰值
+   * 
+   * @returns 每声道的采样峰值 (dBFS) 与真峰值 (dBTP)
+   */
+  static measure(buffer: AudioBuffer): PeakLevel[] {
+    const detector = new WAAudioPeakDetector(buffer.numberOfChannels);
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      channels.push(buffer.getChannelData(c));
+    }
+    
+    // 末尾补零，让插值滤波器输出最后几个样本附近的峰值
+    const peaks = detector.process(channels);
+    const tail = detector.process(channels.map(() => new Float32Array(PHASE_TAPS)));
+    
+    return peaks.map((peak, c) => ({
+      sample: amplitudeToDb(peak.sample),
+      true: amplitudeToDb(Math.max(peak.true, tail[c].true))
+    }));
+  }
+}
+
+// ============================================
+// 实时峰值表
+// ============================================
+
+/**
+ * WAAudioPeakMeter - 实时峰值表
+ * 
+ * 使用示例：
+ * ```typescript
+ * const meter = await track.createPeakMeter({ threshold: -1 });
+ * meter.onThreshold = (channel, truePeak) => console.warn(`声道 ${channel} 越限 ${truePeak} dBTP`);
+ * requestAnimationFrame(() => draw(meter.getLevels()));
+ * ```
+ */
+export class WAAudioPeakMeter {
+  /** PCM 采集 */
+  private readonly _capture: WAAudioCapture;
+  
+  /** 峰值检测 */
+  private readonly _detector: WAAudioPeakDetector;
+  
+  /** 保持时间 */
+  private _holdTime: number;
+  
+  /** 下落速度 */
+  private _decayRate: number;
+  
+  /** 越限阈值 (dBTP) */
+  private _threshold: number;
+  
+  /** 削波电平（线性） */
+  private _clipAmplitude: number;
+  
+  /** 每声道状态 */
+  private readonly _state: PeakMeterChannel[];
+  
+  /** 每声道剩余保持时间 */
+  private readonly _holdRemaining: number[];
+  
+  /** 每声道是否处于削波中（用于合并连续削波） */
+  private readonly _clipping: boolean[];
+  
+  /** 每声道是否已越限（回落后才再次触发） */
+  private readonly _over: boolean[];
+  
+  /** 越限回调 */
+  private _onThreshold: PeakThresholdCallback | null = null;
+  
+  /** 更新回调 */
+  private _onUpdate: ((levels: PeakMeterChannel[]) => void) | null = null;
+  
+  // ============================================
+  // 构造函数
+  // ============================================
+  
+  private constructor(capture: WAAudioCapture, options: PeakMeterOptions) {
+    this._capture = capture;
+    this._detector = new WAAudioPeakDetector(capture.channels);
+    this._holdTime = options.holdTime ?? 1.5;
+    this._decayRate = options.decayRate ?? 20;
+    this._threshold = options.threshold ?? -1;
+    this._clipAmplitude = dbToAmplitude(options.clipLevel ?? 0);
+    
+    this._state = Array.from({ length: capture.channels }, () => this._emptyChannel());
+    this._holdRemaining = new Array(capture.channels).fill(0);
+    this._clipping = new Array(capture.channels).fill(false);
+    this._over = new Array(capture.channels).fill(false);
+    
+    capture.onData = (channels) => this._process(channels);
+  }
+  
+  /**
+   * 创建峰值表
+   * 
+   * @param context - 上下文
+   * @param source - 计量的节点（可稍后 connect）
+   * @param options - 保持、下落、阈值等设置
+   */
+  static async create(
+    context: BaseAudioContext,
+    source?: AudioNode,
+    options: PeakMeterOptions = {}
+  ): Promise<WAAudioPeakMeter> {
+    const capture = await WAAudioCapture.create(context, {
+      channels: options.channels ?? 2,
+      blockSize: Math.round(context.sampleRate * (options.refreshTime ?? 0.02))
+    });
+    const meter = new WAAudioPeakMeter(capture, options);
+    if (source) {
+      meter.connect(source);
+    }
+    return meter;
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 声道数 */
+  get channels(): number {
+    return this._capture.channels;
+  }
+  
+  /** 越限阈值 (dBTP) */
+  get threshold(): number {
+    return this._threshold;
+  }
+  
+  /** 所有声道的削波总次数 */
+  get clips(): number {
+    return this._state.reduce((sum, channel) => sum + channel.clips, 0);
+  }
+  
+  /** 越限回调（真峰值从阈值以下升到阈值以上时触发） */
+  set onThreshold(callback: PeakThresholdCallback | null) {
+    this._onThreshold = callback;
+  }
+  
+  /** 更新回调（每个刷新周期） */
+  set onUpdate(callback: ((levels: PeakMeterChannel[]) => void) | null) {
+    this._onUpdate = callback;
+  }
+  
+  // ============================================
+  // 设置
+  // ============================================
+  
+  /** 设置峰值保持时间（秒） */
+  setHoldTime(seconds: number): this {
+    this._holdTime = Math.max(0, seconds);
+    return this;
+  }
+  
+  /** 设置下落速度（dB/秒） */
+  setDecayRate(dbPerSecond: number): this {
+    this._decayRate = Math.max(0, dbPerSecond);
+    return this;
+  }
+  
+  /** 设置越限阈值（dBTP） */
+  setThreshold(db: number): this {
+    this._threshold = db;
+    this._over.fill(false);
+    return this;
+  }
+  
+  /** 设置削波电平（dBFS） */
+  setClipLevel(db: number): this {
+    this._clipAmplitude = dbToAmplitude(db);
+    return this;
+  }
+  
+  // ============================================
+  // 读数
+  // ============================================
+  
+  /** 获取所有声道的读数 */
+  getLevels(): PeakMeterChannel[] {
+    return this._state.map(channel => ({ ...channel }));
+  }
+  
+  /** 获取单个声道的读数 */
+  getLevel(channel: number): PeakMeterChannel | undefined {
+    const state = this._state[channel];
+    return state ? { ...state } : undefined;
+  }
+  
+  // ============================================
+  // 控制
+  // ============================================
+  
+  /** 连接计量的节点 */
+  connect(source: AudioNode): void {
+    this._capture.connect(source);
+  }
+  
+  /** 断开计量的节点 */
+  disconnect(source?: AudioNode): void {
+    this._capture.disconnect(source);
+  }
+  
+  /** 清除削波计数 */
+  resetClips(): void {
+    for (const channel of this._state) {
+      channel.clips = 0;
+    }
+    this._clipping.fill(false);
+  }
+  
+  /** 重置所有读数 */
+  reset(): void {
+    for (let c = 0; c < this._state.length; c++) {
+      this._state[c] = this._emptyChannel();
+    }
+    this._holdRemaining.fill(0);
+    this._clipping.fill(false);
+    this._over.fill(false);
+    this._detector.reset();
+  }
+  
+  /** 销毁 */
+  destroy(): void {
+    this._onThreshold = null;
+    this._onUpdate = null;
+    void this._capture.stop();
+  }
+  
+  // ============================================
+  // 内部方法
+  // ============================================
+  
+  /** 处理一个刷新周期的数据 */
+  private _process(channels: Float32Array[]): void {
+    const elapsed = (channels[0]?.length ?? 0) / this._capture.sampleRate;
+    
+    const peaks = this._detector.process(channels, (c, amplitude) => {
+      const clipping = amplitude >= this._clipAmplitude;
+      if (clipping && !this._clipping[c]) {
+        this._state[c].clips++;
+      }
+      this._clipping[c] = clipping;
+    });
+    
+    for (let c = 0; c < this._state.length; c++) {
+      const state = this._state[c];
+      const peak = amplitudeToDb(peaks[c].sample);
+      const truePeak = amplitudeToDb(peaks[c].true);
+      
+      state.peak = peak;
+      state.truePeak = truePeak;
+      state.maxPeak = Math.max(state.maxPeak, peak);
+      state.maxTruePeak = Math.max(state.maxTruePeak, truePeak);
+      
+      // 下落
+      state.level = Math.max(truePeak, state.level - this._decayRate * elapsed, FLOOR_DB);
+      
+      // 保持
+      if (truePeak >= state.hold) {
+        state.hold = truePeak;
+        this._holdRemaining[c] = this._holdTime;
+      } else {
+        this._holdRemaining[c] -= elapsed;
+        if (this._holdRemaining[c] <= 0) {
+          state.hold = state.level;
+        }
+      }
+      
+      // 越限
+      const over = truePeak >= this._threshold;
+      if (over && !this._over[c]) {
+        this._onThreshold?.(c, truePeak);
+      }
+      this._over[c] = over;
+    }
+    
+    this._onUpdate?.(this.getLevels());
+  }
+  
+  /** 初始声道状态 */
+  private _emptyChannel(): PeakMeterChannel {
+    return {
+      peak: FLOOR_DB,
+      truePeak: FLOOR_DB,
+      level: FLOOR_DB,
+      hold: FLOOR_DB,
+      maxPeak: FLOOR_DB,
+      maxTruePeak: FLOOR_DB,
+      clips: 0
+    };
+  }
+}
+
+/**
+ * 离线测量 AudioBuffer 的采样峰值与真峰值
+ */
+export function measurePeak(buffer: AudioBuffer): PeakLevel[] {
+  return WAAudioPeakDetector.measure(buffer);
+}
+
+export default WAAudioPeakMeter;
@@ -1,20 +1,84 @@
 /**
  * WAAudio Recorder - 录音管理器
  * 
- * 支持麦克风录音、实时电平监控、WAV 导出
+ * 支持麦克风或任意节点录音、实时电平监控、WAV 导出
+ * 通过 AudioWorklet 采集无损 PCM，同时用 MediaRecorder 生成压缩版本
+ * 支持预录缓冲与穿插录音（punch-in/punch-out）
+ * 麦克风录音按 calibrateLatency() 测得的往返延迟自动对齐
+ * 可选把 PCM 逐块写入 IndexedDB，崩溃后由 WAAudioRecordingStore 恢复
+ * 支持经效果器链的输入监听与声控录音
  */
 
+import { WAAudioCapture, concatCaptureChunks } from './capture';
+import { getRecordingLatency } from './latency';
+import { WAAudioRecordingStore, isQuotaError } from './recording-store';
+import { WAAudioMixer, WAAudioTrack } from './engine/mixer';
+import { WAAudioOscillator } from './source/oscillator';
+import { WAAudioSource } from './source/file-source';
+import type { WAAudioTransport } from './engine/transport';
+import { WAAudioEffectChain } from './effects';
+
 // ============================================
 // 类型定义
 // ============================================
 
+/**
+ * 录音源
+ * 
+ * - 'microphone'：麦克风（getUserMedia）
+ * - WAAudioMixer：主总线（推子后）
+ * - WAAudioTrack：单条轨道（推子后、静音后）
+ * - WAAudioOscillator / WAAudioSource：振荡器或文件源的输出
+ * - AudioNode：任意节点
+ */
+export type RecordingSource =
+  | 'microphone'
+  | WAAudioMixer
+  | WAAudioTrack
+  | WAAudioOscillator
+  | WAAudioSource
+  | AudioNode;
+
 export interface RecorderConfig {
-  /** 采样率 */
+  /** 录音源（默认麦克风） */
+  source?: RecordingSource;
+  /** 采样率（仅影响压缩录音的码率；PCM 采用上下文采样率） */
   sampleRate?: number;
-  /** 声道数 */
+  /** 声道数（PCM 采集按此声道数上/下混，默认 2） */
   channels?: number;
   /** MIME 类型 */
   mimeType?: string;
+  /** 预录时长（秒）：待录状态下持续保留最近这段音频，开始录音时并入录音开头 */
+  preRoll?: number;
+  /** 是否把录音逐块写入 IndexedDB（崩溃后可恢复），也可传入已打开的存储 */
+  persist?: boolean | WAAudioRecordingStore;
+  /** 录音名称（用于持久化会话） */
+  name?: string;
+}
+
+export interface MonitorOptions {
+  /** 直通/效果混合 (0 = 仅直通, 1 = 仅效果，默认 1) */
+  mix?: number;
+  /** 监听音量 (0-1，默认 1) */
+  volume?: number;
+  /** 效果器链的处理延迟（秒）：直通信号延迟同样时长，避免混合时梳状滤波 */
+  effectLatency?: number;
+  /** 监听输出（默认 context.destination） */
+  output?: AudioNode;
+}
+
+export interface VoiceActivationOptions {
+  /** 开始录音的电平 (0-1，与 level 同一刻度，默认 0.1) */
+  startLevel?: number;
+  /** 停止录音的电平（默认为开始电平的一半） */
+  stopLevel?: number;
+  /** 电平低于停止电平持续该时长后停止（秒，默认 1.5） */
+  holdTime?: number;
+}
+
+export interface PunchOptions {
+  /** 入点/出点处的交叉淡化时长（秒，默认 0.01） */
+  crossfade?: number;
 }
 
 export interface RecordingState {
@@ -33,11 +97,33 @@ export interface RecordingState {
  * 
  * 使用示例：
  * ```typescript
- * const recorder = new WAAudioRecorder(context);
+ * const recorder = new WAAudioRecorder(context, { channels: 1 });
  * await recorder.start();
  * // ... 录音中
- * const blob = await recorder.stop();
- * recorder.download(blob, 'my-recording.wav');
+ * const buffer = await recorder.stop();  // 无损 AudioBuffer
+ * const editor = new WAAudioEditor(context, buffer);
+ * await recorder.exportWAV(buffer, 'my-recording.wav');
+ * 
+ * // 录制主总线（"所听即所录"）
+ * recorder.setSource(mixer);
+ * await recorder.start();
+ * 
+ * // 预录：待录期间保留最近 2 秒
+ * recorder.setPreRoll(2);
+ * await recorder.arm();
+ * // ... 开始录音时前 2 秒一并保留
+ * await recorder.start();
+ * 
+ * // 带效果监听 + 声控录音（配合预录保留起音）
+ * recorder.monitorEffects.add('reverb', reverb);
+ * recorder.enableMonitoring({ mix: 0.3 });
+ * recorder.setVoiceActivation({ startLevel: 0.15, holdTime: 2 });
+ * recorder.onTake = (take) => track.addClip(take);
+ * await recorder.arm();
+ * 
+ * // 穿插录音：只替换入点到出点之间
+ * transport.play(markers.get(inId)!.time - 2);
+ * const fixed = await recorder.punch(transport, buffer, inTime, outTime);
  * ```
  */
 export class WAAudioRecorder {
@@ -45,16 +131,48 @@ export class WAAudioRecorder {
   private stream: MediaStream | null = null;
   private mediaRecorder: MediaRecorder | null = null;
   private analyser: AnalyserNode | null = null;
+  private capture: WAAudioCapture | null = null;
+  private source: RecordingSource;
+  private sourceNode: AudioNode | null = null;
+  private tapNode: GainNode | null = null;
   private chunks: Blob[] = [];
   private startTime = 0;
   private pauseTime = 0;
   private _isRecording = false;
   private _isPaused = false;
+  private _isArmed = false;
   private animationId: number | null = null;
   private _onLevelChange: ((level: number) => void) | null = null;
   
-  // 音频缓冲区（用于 WAV 导出）
-  private audioBuffer: Float32Array[] = [];
+  // PCM 数据块（每块为各声道等长的样本）
+  private pcmChunks: Float32Array[][] = [];
+  private lastTake: AudioBuffer | null = null;
+  
+  // 预录：滚动缓冲丢弃的帧数、录音起始帧（均按采集开始计）
+  private preRoll: number;
+  private droppedFrames = 0;
+  private takeStartFrame = 0;
+  private recordStream: MediaStream | null = null;
+  
+  // 持久化：存储、当前会话、是否已因错误停止写入
+  private readonly persist: boolean | WAAudioRecordingStore;
+  private readonly name: string | undefined;
+  private store: WAAudioRecordingStore | null = null;
+  private sessionId: string | null = null;
+  private persistFailed = false;
+  private _onStorageError: ((error: Error) => void) | null = null;
+  
+  // 输入监听：效果器链与混合节点（待录时才连接）
+  private _monitorEffects: WAAudioEffectChain | null = null;
+  private monitorOptions: Required<Omit<MonitorOptions, 'output'>> & { output: AudioNode | null } | null = null;
+  private monitorNodes: { direct: GainNode; delay: DelayNode; wet: GainNode; volume: GainNode } | null = null;
+  
+  // 声控录音：阈值、低电平起始时间、是否正在切换、最近的设备选项
+  private voiceActivation: Required<VoiceActivationOptions> | null = null;
+  private quietSince: number | null = null;
+  private voiceSwitching = false;
+  private armOptions: MediaTrackConstraints = {};
+  private _onTake: ((buffer: AudioBuffer) => void) | null = null;
   private readonly channels: number;
   private readonly sampleRate: number;
   private readonly mimeType: string;
@@ -62,6 +180,10 @@ export class WAAudioRecorder {
   constructor(context: AudioContext, config: RecorderConfig = {}) {
     this.context = context;
     this.channels = config.channels || 2;
+    this.source = config.source ?? 'microphone';
+    this.preRoll = Math.max(0, config.preRoll ?? 0);
+    this.persist = config.persist ?? false;
+    this.name = config.name;
     this.sampleRate = config.sampleRate || context.sampleRate;
     this.mimeType = config.mimeType || this._getSupportedMimeType();
   }
@@ -80,6 +202,22 @@ export class WAAudioRecorder {
     return this._isPaused;
   }
   
+  /** 是否处于待录状态（录音源已打开） */
+  get isArmed(): boolean {
+    return this._isArmed;
+  }
+  
+  /** 预录时长（秒） */
+  get preRollTime(): number {
+    return this.preRoll;
+  }
+  
+  /** 录音对齐使用的往返延迟（秒，仅麦克风录音源；节点源无硬件延迟） */
+  get latency(): number {
+    if (this.source !== 'microphone') return 0;
+    return getRecordingLatency(this.context) ?? 0;
+  }
+  
   /** 录音时长（秒） */
   get duration(): number {
     if (!this._isRecording) return 0;
@@ -101,6 +239,51 @@ export class WAAudioRecorder {
     return Math.sqrt(sum / dataArray.length) / 255;
   }
   
+  /** 录音源 */
+  get recordingSource(): RecordingSource {
+    return this.source;
+  }
+  
+  /** 是否开启输入监听 */
+  get monitoring(): boolean {
+    return this.monitorOptions !== null;
+  }
+  
+  /** 监听效果器链（开启监听前后均可编辑） */
+  get monitorEffects(): WAAudioEffectChain {
+    if (!this._monitorEffects) {
+      this._monitorEffects = new WAAudioEffectChain(this.context);
+    }
+    return this._monitorEffects;
+  }
+  
+  /**
+   * 监听延迟估算（秒）：设备往返延迟 + 效果器处理延迟
+   * 
+   * 超过约 20ms 时演唱者通常会感到回声，建议改用直通（硬件）监听
+   */
+  get monitorLatency(): number {
+    const device = this.source === 'microphone'
+      ? getRecordingLatency(this.context) ?? (this.context.baseLatency ?? 0) + (this.context.outputLatency ?? 0)
+      : 0;
+    return device + (this.monitorOptions?.effectLatency ?? 0);
+  }
+  
+  /** 是否开启声控录音 */
+  get voiceActivated(): boolean {
+    return this.voiceActivation !== null;
+  }
+  
+  /** 声控录音完成一段时的回调 */
+  set onTake(callback: ((buffer: AudioBuffer) => void) | null) {
+    this._onTake = callback;
+  }
+  
+  /** 持久化出错回调（如配额不足；录音继续保存在内存中） */
+  set onStorageError(callback: ((error: Error) => void) | null) {
+    this._onStorageError = callback;
+  }
+  
   /** 电平变化回调 */
   set onLevelChange(callback: ((level: number) => void) | null) {
     this._onLevelChange = callback;
@@ -111,43 +294,107 @@ export class WAAudioRecorder {
   // ============================================
   
   /**
-   * 开始录音
+   * 设置录音源（待录或录音中不可更改）
    * 
-   * @param options - 媒体设备选项
+   * @param source - 麦克风、混音器、轨道、振荡器或任意 AudioNode
    */
-  async start(options: MediaTrackConstraints = {}): Promise<void> {
-    if (this._isRecording) {
-      console.warn('[Recorder] 已经在录音中');
-      return;
+  setSource(source: RecordingSource): this {
+    if (this._isArmed) {
+      throw new Error('录音中不能更改录音源');
     }
+    this.source = source;
+    return this;
+  }
+  
+  /**
+   * 设置预录时长
+   * 
+   * @param seconds - 秒（0 为关闭）
+   */
+  setPreRoll(seconds: number): this {
+    this.preRoll = Math.max(0, seconds);
+    return this;
+  }
+  
+  /**
+   * 进入待录状态
+   * 
+   * 打开录音源并开始采集，但只在滚动缓冲中保留最近 preRoll 秒
+   * 
+   * @param options - 媒体设备选项（仅麦克风录音源使用）
+   */
+  async arm(options: MediaTrackConstraints = {}): Promise<void> {
+    if (this._isArmed) return;
+    this.armOptions = options;
     
     try {
-      // 请求麦克风权限
-      this.stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: false,
-          ...options
-        }
-      });
+      // 连接录音源：所有源都先汇入内部分接节点
+      this.recordStream = await this._connectSource(options);
       
       // 创建分析器（用于电平监控）
       this.analyser = this.context.createAnalyser();
       this.analyser.fftSize = 256;
+      this.tapNode!.connect(this.analyser);
+      
+      // 创建 PCM 采集
+      this.pcmChunks = [];
+      this.droppedFrames = 0;
+      this.capture = await WAAudioCapture.create(this.context, { channels: this.channels });
+      this.capture.onData = (channels) => this._receive(channels);
+      this.capture.connect(this.tapNode!);
       
-      const source = this.context.createMediaStreamSource(this.stream);
-      source.connect(this.analyser);
+      this._isArmed = true;
+      this._connectMonitor();
+      this._monitorLevel();
       
-      // 创建 MediaRecorder
+      console.log('[Recorder] 待录');
+    
+    } catch (error) {
+      console.error('[Recorder] 无法开始录音:', error);
+      this._release();
+      throw error;
+    }
+  }
+  
+  /**
+   * 退出待录状态（录音中无效）
+   */
+  disarm(): void {
+    if (!this._isArmed || this._isRecording) return;
+    
+    this._stopMonitor();
+    this._release();
+    this.pcmChunks = [];
+  }
+  
+  /**
+   * 开始录音
+   * 
+   * 已待录时，预录缓冲中最近 preRoll 秒并入录音开头
+   * 
+   * @param options - 媒体设备选项（仅麦克风录音源使用）
+   */
+  async start(options: MediaTrackConstraints = {}): Promise<void> {
+    if (this._isRecording) {
+      console.warn('[Recorder] 已经在录音中');
+      return;
+    }
+    
+    await this.arm(options);
+    
+    // 录音起点：当前时刻向前 preRoll 秒（不早于缓冲中最早的样本）
+    const now = this._frameAt(this.context.currentTime);
+    this.takeStartFrame = Math.max(this.droppedFrames, now - Math.round(this.preRoll * this.context.sampleRate));
+    
+    try {
+      // 创建 MediaRecorder（压缩版本不含预录部分）
       const mimeType = this._getSupportedMimeType();
-      this.mediaRecorder = new MediaRecorder(this.stream, {
+      this.mediaRecorder = new MediaRecorder(this.recordStream!, {
         mimeType,
         audioBitsPerSecond: this.sampleRate * this.channels * 16
       });
       
       this.chunks = [];
-      this.audioBuffer = Array(this.channels).fill(null).map(() => new Float32Array());
       
       this.mediaRecorder.ondataavailable = (e) => {
         if (e.data.size > 0) {
@@ -161,52 +408,60 @@ export class WAAudioRecorder {
       this._isPaused = false;
       this.startTime = Date.now();
       
-      // 开始电平监控
-      this._monitorLevel();
-      
       console.log('[Recorder] 开始录音');
-      
+    
     } catch (error) {
-      console.error('[Recorder] 无法获取麦克风:', error);
+      console.error('[Recorder] 无法开始录音:', error);
+      this.cancel();
       throw error;
     }
+    
+    if (this.persist) {
+      await this._beginPersistence();
+    }
   }
   
   /**
    * 停止录音
+   * 
+   * @returns 无损录音（上下文采样率，RecorderConfig.channels 声道）
    */
-  async stop(): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-      if (!this._isRecording || !this.mediaRecorder) {
-        reject(new Error('没有在录音'));
+  async stop(): Promise<AudioBuffer> {
+    if (!this._isRecording || !this.capture) {
+      throw new Error('没有在录音');
+    }
+    
+    this._stopMonitor();
+    
+    // 往返延迟内的输入仍属于本次录音
+    const latency = this.latency;
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency * 1000));
+    }
+    
+    // 等待压缩录音与 PCM 采集的剩余数据
+    const mediaStopped = new Promise<void>(resolve => {
+      if (!this.mediaRecorder || this.mediaRecorder.state === 'inactive') {
+        resolve();
         return;
       }
-      
-      // 停止电平监控
-      if (this.animationId) {
-        cancelAnimationFrame(this.animationId);
-        this.animationId = null;
-      }
-      
-      this.mediaRecorder.onstop = () => {
-        const mimeType = this._getSupportedMimeType();
-        const blob = new Blob(this.chunks, { type: mimeType });
-        
-        this._isRecording = false;
-        this._isPaused = false;
-        
-        // 停止麦克风
-        if (this.stream) {
-          this.stream.getTracks().forEach(track => track.stop());
-          this.stream = null;
-        }
-        
-        console.log(`[Recorder] 录音结束，时长: ${this.duration.toFixed(1)}s`);
-        resolve(blob);
-      };
-      
+      this.mediaRecorder.onstop = () => resolve();
       this.mediaRecorder.stop();
     });
+    
+    await Promise.all([this.capture.stop(), mediaStopped]);
+    
+    const buffer = this._buildBuffer(this.takeStartFrame + Math.round(latency * this.context.sampleRate));
+    this.lastTake = buffer;
+    this.pcmChunks = [];
+    await this._endPersistence();
+    
+    this._isRecording = false;
+    this._isPaused = false;
+    this._release();
+    
+    console.log(`[Recorder] 录音结束，时长: ${buffer.duration.toFixed(1)}s`);
+    return buffer;
   }
   
   /**
@@ -217,6 +472,7 @@ export class WAAudioRecorder {
     
     if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
       this.mediaRecorder.pause();
+      this.capture?.pause();
       this._isPaused = true;
       this.pauseTime = Date.now();
       
@@ -236,6 +492,7 @@ export class WAAudioRecorder {
     
     if (this.mediaRecorder && this.mediaRecorder.state === 'paused') {
       this.mediaRecorder.resume();
+      this.capture?.resume();
       this._isPaused = false;
       this.startTime += Date.now() - this.pauseTime;
       
@@ -246,30 +503,195 @@ export class WAAudioRecorder {
   }
   
   /**
-   * 取消录音
+   * 取消录音（同时退出待录状态）
    */
   cancel(): void {
-    if (this._isRecording && this.mediaRecorder) {
+    if (this._isRecording && this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
       this.mediaRecorder.stop();
     }
     
-    if (this.stream) {
-      this.stream.getTracks().forEach(track => track.stop());
-      this.stream = null;
-    }
-    
-    if (this.animationId) {
-      cancelAnimationFrame(this.animationId);
-    }
+    this._stopMonitor();
     
+    this._release();
     this._isRecording = false;
     this._isPaused = false;
     this.chunks = [];
-    this.audioBuffer = [];
+    this.pcmChunks = [];
+    void this._endPersistence();
     
     console.log('[Recorder] 录音已取消');
   }
   
+  // ============================================
+  // 输入监听
+  // ============================================
+  
+  /**
+   * 开启输入监听
+   * 
+   * 输入经 monitorEffects 送到输出，并与直通信号按 mix 混合；只在待录/录音时发声
+   * 
+   * @param options - 混合、音量、效果延迟、输出
+   */
+  enableMonitoring(options: MonitorOptions = {}): this {
+    this.monitorOptions = {
+      mix: Math.max(0, Math.min(options.mix ?? 1, 1)),
+      volume: Math.max(0, Math.min(options.volume ?? 1, 1)),
+      effectLatency: Math.max(0, options.effectLatency ?? 0),
+      output: options.output ?? null
+    };
+    
+    this._disconnectMonitor();
+    this._connectMonitor();
+    
+    if (this.monitorLatency > 0.02) {
+      console.warn(`[Recorder] 监听延迟约 ${(this.monitorLatency * 1000).toFixed(0)}ms，可能产生回声感`);
+    }
+    return this;
+  }
+  
+  /** 关闭输入监听 */
+  disableMonitoring(): this {
+    this._disconnectMonitor();
+    this.monitorOptions = null;
+    return this;
+  }
+  
+  /**
+   * 设置直通/效果混合
+   * 
+   * @param mix - 0 = 仅直通, 1 = 仅效果
+   */
+  setMonitorMix(mix: number): this {
+    if (!this.monitorOptions) return this;
+    
+    this.monitorOptions.mix = Math.max(0, Math.min(mix, 1));
+    if (this.monitorNodes) {
+      this._applyMonitorMix(this.monitorNodes);
+    }
+    return this;
+  }
+  
+  /** 设置监听音量 (0-1) */
+  setMonitorVolume(volume: number): this {
+    if (!this.monitorOptions) return this;
+    
+    this.monitorOptions.volume = Math.max(0, Math.min(volume, 1));
+    this.monitorNodes?.volume.gain.setTargetAtTime(this.monitorOptions.volume, this.context.currentTime, 0.01);
+    return this;
+  }
+  
+  // ============================================
+  // 声控录音
+  // ============================================
+  
+  /**
+   * 设置声控录音
+   * 
+   * 待录时电平超过开始电平即开始录音（预录缓冲保留起音），
+   * 低于停止电平持续 holdTime 后停止，录音通过 onTake 交付并自动重新待录
+   * 
+   * @param options - 阈值与保持时间，null 为关闭
+   */
+  setVoiceActivation(options: VoiceActivationOptions | null): this {
+    if (!options) {
+      this.voiceActivation = null;
+      this.quietSince = null;
+      return this;
+    }
+    
+    const startLevel = Math.max(0, Math.min(options.startLevel ?? 0.1, 1));
+    this.voiceActivation = {
+      startLevel,
+      stopLevel: Math.max(0, Math.min(options.stopLevel ?? startLevel / 2, startLevel)),
+      holdTime: Math.max(0, options.holdTime ?? 1.5)
+    };
+    this.quietSince = null;
+    return this;
+  }
+  
+  // ============================================
+  // 穿插录音
+  // ============================================
+  
+  /**
+   * 穿插录音（punch-in/punch-out）
+   * 
+   * 随走带播放，在入点到出点之间录音，并替换目标缓冲区中的这一段
+   * 入点/出点可取自 WAAudioMarkers.setIn/setOut 的标记时间
+   * 走带需已在入点之前开始播放；若已越过入点，需由预录缓冲覆盖
+   * 
+   * @param transport - 正在播放的走带
+   * @param target - 被替换的原录音（时间与走带位置一致）
+   * @param punchIn - 入点（秒）
+   * @param punchOut - 出点（秒）
+   * @param options - 交叉淡化
+   * @returns 替换后的新缓冲区（原缓冲区不变）
+   */
+  async punch(
+    transport: WAAudioTransport,
+    target: AudioBuffer,
+    punchIn: number,
+    punchOut: number,
+    options: PunchOptions = {}
+  ): Promise<AudioBuffer> {
+    if (this._isRecording) {
+      throw new Error('已经在录音中');
+    }
+    if (transport.state !== 'playing') {
+      throw new Error('走带未在播放');
+    }
+    if (transport.loopEnabled) {
+      throw new Error('穿插录音不支持循环播放');
+    }
+    
+    const start = Math.max(0, Math.min(punchIn, punchOut));
+    const end = Math.max(punchIn, punchOut);
+    if (end - start <= 0) {
+      throw new Error('穿插区间长度必须大于 0');
+    }
+    
+    // 录音两端各多留半个交叉淡化，使淡化以入点/出点为中心
+    const half = (options.crossfade ?? 0.01) / 2;
+    
+    await this.arm();
+    await this.capture!.started();
+    
+    // 走带位置 → 上下文时间（走带播放期间为线性关系），再加上往返延迟
+    const origin = this.context.currentTime - transport.position + this.latency;
+    const inTime = origin + start - half;
+    const outTime = origin + end + half;
+    
+    if (this._frameAt(inTime) < this.droppedFrames) {
+      this.disarm();
+      throw new Error('走带已越过入点，且超出预录缓冲');
+    }
+    
+    this._isRecording = true;
+    this._isPaused = false;
+    this.startTime = Date.now();
+    
+    try {
+      await this._waitUntil(transport, outTime);
+    } catch (error) {
+      this.cancel();
+      throw error;
+    }
+    
+    this._stopMonitor();
+    await this.capture!.stop();
+    
+    const take = this._buildBuffer(this._frameAt(inTime), this._frameAt(outTime));
+    this.lastTake = take;
+    this.pcmChunks = [];
+    
+    this._isRecording = false;
+    this._release();
+    
+    console.log(`[Recorder] 穿插录音完成: ${start.toFixed(2)}s - ${end.toFixed(2)}s`);
+    return punchReplace(this.context, target, take, start - half, half * 2);
+  }
+  
   // ============================================
   // 文件导出
   // ============================================
@@ -277,12 +699,17 @@ export class WAAudioRecorder {
   /**
    * 导出为 WAV 文件
    * 
-   * @param blob - 录音 Blob
+   * @param source - 录音 AudioBuffer（无损，默认最近一次录音）或压缩录音 Blob
    * @param filename - 文件名
    */
-  async exportWAV(blob: Blob, filename: string = 'recording.wav'): Promise<void> {
-    const arrayBuffer = await blob.arrayBuffer();
-    const audioBuffer = await this.context.decodeAudioData(arrayBuffer);
+  async exportWAV(source: AudioBuffer | Blob | null = this.lastTake, filename: string = 'recording.wav'): Promise<void> {
+    if (!source) {
+      throw new Error('没有录音数据');
+    }
+    
+    const audioBuffer = source instanceof Blob
+      ? await this.context.decodeAudioData(await source.arrayBuffer())
+      : source;
     
     const wavBlob = this._encodeWAV(audioBuffer);
     this._downloadBlob(wavBlob, filename);
@@ -302,7 +729,14 @@ export class WAAudioRecorder {
   }
   
   /**
-   * 获取录音 Blob
+   * 获取最近一次录音（无损 AudioBuffer）
+   */
+  getAudioBuffer(): AudioBuffer | null {
+    return this.lastTake;
+  }
+  
+  /**
+   * 获取压缩录音 Blob
    */
   getBlob(): Blob | null {
     if (this.chunks.length === 0) return null;
@@ -353,10 +787,10 @@ export class WAAudioRecorder {
    * 电平监控
    */
   private _monitorLevel(): void {
-    if (!this._isRecording || this._isPaused || !this.analyser) return;
+    if (!this._isArmed || this._isPaused || !this.analyser) return;
     
     const monitor = () => {
-      if (!this._isRecording || this._isPaused) return;
+      if (!this._isArmed || this._isPaused) return;
       
       const level = this.level;
       
@@ -364,12 +798,357 @@ export class WAAudioRecorder {
         this._onLevelChange(level);
       }
       
+      if (this.voiceActivation) {
+        this._checkVoiceActivation(level);
+      }
+      
       this.animationId = requestAnimationFrame(monitor);
     };
     
     monitor();
   }
   
+  /**
+   * 声控录音：按电平开始/停止
+   */
+  private _checkVoiceActivation(level: number): void {
+    const activation = this.voiceActivation!;
+    if (this.voiceSwitching) return;
+    
+    if (!this._isRecording) {
+      if (level >= activation.startLevel) {
+        this.quietSince = null;
+        this._switchVoiceRecording(() => this.start(this.armOptions));
+      }
+      return;
+    }
+    
+    if (level >= activation.stopLevel) {
+      this.quietSince = null;
+      return;
+    }
+    
+    const now = this.context.currentTime;
+    this.quietSince ??= now;
+    if (now - this.quietSince >= activation.holdTime) {
+      this.quietSince = null;
+      this._switchVoiceRecording(async () => {
+        const take = await this.stop();
+        this._onTake?.(take);
+        
+        // 继续等待下一段
+        if (this.voiceActivation) {
+          await this.arm(this.armOptions);
+        }
+      });
+    }
+  }
+  
+  /**
+   * 执行声控切换（切换期间不再检测）
+   */
+  private _switchVoiceRecording(action: () => Promise<void>): void {
+    this.voiceSwitching = true;
+    action()
+      .catch(error => console.error('[Recorder] 声控录音失败:', error))
+      .finally(() => {
+        this.voiceSwitching = false;
+      });
+  }
+  
+  /**
+   * 连接监听链路（待录且开启监听时）
+   * 
+   * 分接节点 → 直通（延迟补偿） ┐
+   * 分接节点 → 效果器链 → 效果  ┴→ 音量 → 输出
+   */
+  private _connectMonitor(): void {
+    const options = this.monitorOptions;
+    if (!options || !this.tapNode || this.monitorNodes) return;
+    
+    const effects = this.monitorEffects;
+    const nodes = {
+      direct: this.context.createGain(),
+      delay: this.context.createDelay(Math.max(1, options.effectLatency * 2)),
+      wet: this.context.createGain(),
+      volume: this.context.createGain()
+    };
+    
+    nodes.delay.delayTime.value = options.effectLatency;
+    nodes.volume.gain.value = options.volume;
+    this._applyMonitorMix(nodes);
+    
+    this.tapNode.connect(nodes.delay);
+    nodes.delay.connect(nodes.direct);
+    nodes.direct.connect(nodes.volume);
+    
+    this.tapNode.connect(effects.input);
+    effects.output.connect(nodes.wet);
+    nodes.wet.connect(nodes.volume);
+    
+    nodes.volume.connect(options.output ?? this.context.destination);
+    this.monitorNodes = nodes;
+  }
+  
+  /**
+   * 断开监听链路
+   */
+  private _disconnectMonitor(): void {
+    const nodes = this.monitorNodes;
+    if (!nodes) return;
+    
+    if (this.tapNode) {
+      this.tapNode.disconnect(nodes.delay);
+      this.tapNode.disconnect(this._monitorEffects!.input);
+    }
+    this._monitorEffects!.output.disconnect(nodes.wet);
+    nodes.delay.disconnect();
+    nodes.direct.disconnect();
+    nodes.wet.disconnect();
+    nodes.volume.disconnect();
+    this.monitorNodes = null;
+  }
+  
+  /**
+   * 应用直通/效果混合（等功率）
+   */
+  private _applyMonitorMix(nodes: { direct: GainNode; wet: GainNode }): void {
+    const mix = this.monitorOptions?.mix ?? 1;
+    const now = this.context.currentTime;
+    nodes.direct.gain.setTargetAtTime(Math.cos(mix * Math.PI / 2), now, 0.01);
+    nodes.wet.gain.setTargetAtTime(Math.sin(mix * Math.PI / 2), now, 0.01);
+  }
+  
+  /**
+   * 停止电平监控
+   */
+  private _stopMonitor(): void {
+    if (this.animationId) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+  
+  /**
+   * 接收采集数据
+   * 
+   * 待录时只保留最近 preRoll 秒（按整块丢弃）
+   */
+  private _receive(channels: Float32Array[]): void {
+    this.pcmChunks.push(channels);
+    if (this._isRecording) {
+      this._persistBlock(channels);
+      return;
+    }
+    
+    const keep = Math.round(this.preRoll * this.context.sampleRate);
+    let total = this.pcmChunks.reduce((sum, chunk) => sum + chunk[0].length, 0);
+    while (this.pcmChunks.length > 0 && total - this.pcmChunks[0][0].length >= keep) {
+      const dropped = this.pcmChunks.shift()![0].length;
+      total -= dropped;
+      this.droppedFrames += dropped;
+    }
+  }
+  
+  /**
+   * 开始持久化：写入录音起点之后已采集的数据，之后每块随到随写
+   * 
+   * 失败不影响录音，通过 onStorageError 报告
+   */
+  private async _beginPersistence(): Promise<void> {
+    this.persistFailed = false;
+    const sampleRate = this.context.sampleRate;
+    
+    try {
+      this.store = this.persist instanceof WAAudioRecordingStore
+        ? this.persist
+        : this.store ?? await WAAudioRecordingStore.open();
+      
+      // 至少留出一分钟的空间
+      if (!(await this.store.hasSpace(sampleRate * this.channels * 4 * 60))) {
+        throw new Error('存储空间不足，录音仅保存在内存中');
+      }
+      void this.store.requestPersistence();
+      
+      const sessionId = await this.store.beginSession({
+        name: this.name,
+        sampleRate,
+        channels: this.channels,
+        offset: Math.round(this.latency * sampleRate)
+      });
+      
+      // 等待期间录音已结束
+      if (!this._isRecording) {
+        await this.store.finishSession(sessionId);
+        return;
+      }
+      
+      this.sessionId = sessionId;
+      const existing = this._buildBuffer(this.takeStartFrame);
+      const channels = Array.from({ length: existing.numberOfChannels }, (_, c) => existing.getChannelData(c));
+      this._persistBlock(channels);
+    } catch (error) {
+      this._reportStorageError(error);
+    }
+  }
+  
+  /**
+   * 写入一个数据块
+   */
+  private _persistBlock(channels: Float32Array[]): void {
+    if (!this.store || !this.sessionId || this.persistFailed) return;
+    
+    this.store.append(this.sessionId, channels).catch(error => this._reportStorageError(error));
+  }
+  
+  /**
+   * 结束持久化：录音已交给调用方，删除会话数据
+   */
+  private async _endPersistence(): Promise<void> {
+    if (!this.store || !this.sessionId) return;
+    
+    const sessionId = this.sessionId;
+    this.sessionId = null;
+    try {
+      await this.store.finishSession(sessionId);
+    } catch (error) {
+      console.warn('[Recorder] 清理录音会话失败:', error);
+    }
+  }
+  
+  /**
+   * 报告持久化错误并停止写入
+   */
+  private _reportStorageError(error: unknown): void {
+    if (this.persistFailed) return;
+    this.persistFailed = true;
+    
+    const reported = isQuotaError(error)
+      ? new Error('存储空间不足，已停止持久化，录音仅保存在内存中')
+      : error instanceof Error ? error : new Error(String(error));
+    
+    console.warn('[Recorder] 录音持久化失败:', reported.message);
+    this._onStorageError?.(reported);
+  }
+  
+  /**
+   * 上下文时间对应的采集帧（按采集开始计）
+   */
+  private _frameAt(time: number): number {
+    const startTime = this.capture?.startTime ?? null;
+    if (startTime === null) return 0;
+    return Math.round((time - startTime) * this.context.sampleRate);
+  }
+  
+  /**
+   * 等待上下文时间到达 time（含采集块的余量），走带中途停止则失败
+   */
+  private _waitUntil(transport: WAAudioTransport, time: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        if (!this._isRecording) {
+          reject(new Error('录音已取消'));
+        } else if (transport.state !== 'playing') {
+          reject(new Error('走带在出点前停止'));
+        } else if (this.context.currentTime >= time) {
+          resolve();
+        } else {
+          setTimeout(check, 25);
+        }
+      };
+      check();
+    });
+  }
+  
+  /**
+   * 解析录音源的输出节点
+   */
+  private _resolveSourceNode(source: Exclude<RecordingSource, 'microphone'>): AudioNode {
+    if (source instanceof WAAudioMixer) return source.masterGain;
+    if (source instanceof WAAudioTrack) return source.output;
+    if (source instanceof WAAudioOscillator) return source.gainNode;
+    if (source instanceof WAAudioSource) return source.gainNode;
+    return source;
+  }
+  
+  /**
+   * 连接录音源到内部分接节点
+   * 
+   * @returns 供 MediaRecorder 使用的媒体流
+   */
+  private async _connectSource(options: MediaTrackConstraints): Promise<MediaStream> {
+    this.tapNode = this.context.createGain();
+    
+    if (this.source === 'microphone') {
+      // 请求麦克风权限
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+          ...options
+        }
+      });
+      
+      this.sourceNode = this.context.createMediaStreamSource(this.stream);
+      this.sourceNode.connect(this.tapNode);
+      return this.stream;
+    }
+    
+    const node = this._resolveSourceNode(this.source);
+    if (node.context !== this.context) {
+      throw new Error('录音源不属于当前音频上下文');
+    }
+    
+    // 节点源：分接后再送入 MediaStream，供压缩录音使用
+    this.sourceNode = node;
+    node.connect(this.tapNode);
+    
+    const streamDestination = this.context.createMediaStreamDestination();
+    streamDestination.channelCount = this.channels;
+    this.tapNode.connect(streamDestination);
+    return streamDestination.stream;
+  }
+  
+  /**
+   * 由 PCM 数据块拼接 AudioBuffer
+   * 
+   * @param from - 起始帧（按采集开始计）
+   * @param to - 结束帧（不含，默认到末尾）
+   */
+  private _buildBuffer(from: number, to: number = Infinity): AudioBuffer {
+    const start = Math.max(from, this.droppedFrames);
+    return concatCaptureChunks(this.context, this.pcmChunks, this.channels, start - this.droppedFrames, to - this.droppedFrames);
+  }
+  
+  /**
+   * 释放设备与节点
+   */
+  private _release(): void {
+    this._disconnectMonitor();
+    
+    if (this.capture && !this.capture.stopped) {
+      void this.capture.stop();
+    }
+    this.capture = null;
+    
+    // 节点源只断开到分接节点的连接，不影响其原有路由
+    if (this.sourceNode && this.tapNode) {
+      this.sourceNode.disconnect(this.tapNode);
+    }
+    this.tapNode?.disconnect();
+    this.tapNode = null;
+    this.sourceNode = null;
+    this.analyser = null;
+    this.recordStream = null;
+    this._isArmed = false;
+    
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+    }
+  }
+  
   /**
    * 编码为 WAV
    */
@@ -469,4 +1248,60 @@ export class WAAudioRecorder {
 // 导出
 // ============================================
 
+// ============================================
+// 工具函数
+// ============================================
+
+/**
+ * 用新录音替换缓冲区中的一段
+ * 
+ * 录音首尾各 crossfade 秒与原音频做等功率交叉淡化；超出原长度时延长缓冲区
+ * 
+ * @param context - 上下文
+ * @param target - 原缓冲区（不修改）
+ * @param take - 新录音
+ * @param at - 新录音首帧在原缓冲区中的时间（秒）
+ * @param crossfade - 交叉淡化时长（秒）
+ */
+export function punchReplace(
+  context: BaseAudioContext,
+  target: AudioBuffer,
+  take: AudioBuffer,
+  at: number,
+  crossfade: number = 0.01
+): AudioBuffer {
+  if (take.sampleRate !== target.sampleRate) {
+    throw new Error('录音与原缓冲区采样率不一致');
+  }
+  
+  const sampleRate = target.sampleRate;
+  const atFrame = Math.round(at * sampleRate);
+  const length = Math.max(target.length, atFrame + take.length);
+  const fade = Math.min(Math.round(crossfade * sampleRate), Math.floor(take.length / 2));
+  const result = context.createBuffer(target.numberOfChannels, length, sampleRate);
+  
+  for (let channel = 0; channel < target.numberOfChannels; channel++) {
+    const output = result.getChannelData(channel);
+    const input = take.getChannelData(Math.min(channel, take.numberOfChannels - 1));
+    output.set(target.getChannelData(channel));
+    
+    for (let i = 0; i < take.length; i++) {
+      const j = atFrame + i;
+      if (j < 0) continue;
+      
+      let weight = 1;
+      if (i < fade) {
+        weight = (i + 0.5) / fade;
+      } else if (i >= take.length - fade) {
+        weight = (take.length - i - 0.5) / fade;
+      }
+      
+      const angle = weight * Math.PI / 2;
+      output[j] = output[j] * Math.cos(angle) + input[i] * Math.sin(angle);
+    }
+  }
+  
+  return result;
+}
+
 export default WAAudioRecorder;
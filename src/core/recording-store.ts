@@ -0,0 +1,397 @@
+/**
+ * WAAudio Recording Store - 录音持久化
+ * 
+ * 录音期间把 PCM 数据块逐块写入 IndexedDB，页面崩溃后可恢复未完成的录音
+ */
+
+import { concatCaptureChunks } from './capture';
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface RecordingSessionInfo {
+  /** 会话 ID */
+  id: string;
+  /** 名称 */
+  name: string;
+  /** 采样率 */
+  sampleRate: number;
+  /** 声道数 */
+  channels: number;
+  /** 已写入的帧数 */
+  frames: number;
+  /** 恢复时跳过的起始帧数（如延迟补偿） */
+  offset: number;
+  /** 创建时间 (ms) */
+  createdAt: number;
+  /** 最后写入时间 (ms) */
+  updatedAt: number;
+  /** 是否正常结束 */
+  finished: boolean;
+}
+
+export interface RecordingSessionConfig {
+  /** 名称 */
+  name?: string;
+  /** 采样率 */
+  sampleRate: number;
+  /** 声道数 */
+  channels: number;
+  /** 恢复时跳过的起始帧数 */
+  offset?: number;
+}
+
+export interface StorageQuota {
+  /** 已使用（字节） */
+  usage: number;
+  /** 配额（字节） */
+  quota: number;
+  /** 剩余可用（字节） */
+  available: number;
+}
+
+/** 数据块记录（内部） */
+interface BlockRecord {
+  session: string;
+  index: number;
+  data: Float32Array[];
+}
+
+/** 默认数据库名 */
+const DEFAULT_DB_NAME = 'waaudio-recordings';
+
+/** 数据库版本 */
+const DB_VERSION = 1;
+
+/** 会话表 */
+const SESSIONS = 'sessions';
+
+/** 数据块表 */
+const BLOCKS = 'blocks';
+
+/** 默认清理期限：7 天 */
+const DEFAULT_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/** 本页面正在写入的会话（不算作待恢复） */
+const activeSessions: Set<string> = new Set();
+
+/** 把 IDBRequest 包装为 Promise */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** 等待事务完成 */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('事务已中止'));
+  });
+}
+
+/** 是否为配额不足错误 */
+export function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
+
+// ============================================
+// 存储类
+// ============================================
+
+/**
+ * WAAudioRecordingStore - 录音持久化
+ * 
+ * 使用示例：
+ * ```typescript
+ * // 页面加载时恢复崩溃前未完成的录音
+ * const store = await WAAudioRecordingStore.open();
+ * for (const session of await store.listUnfinished()) {
+ *   const buffer = await store.restore(session.id, context);
+ *   // ... 交给编辑器或轨道
+ *   await store.deleteSession(session.id);
+ * }
+ * await store.cleanup();
+ * ```
+ */
+export class WAAudioRecordingStore {
+  /** 数据库 */
+  private readonly _db: IDBDatabase;
+  
+  /** 各会话的写入队列（保证数据块按顺序写入） */
+  private readonly _queues: Map<string, Promise<void>> = new Map();
+  
+  /** 各会话的写入计数 */
+  private readonly _sessions: Map<string, RecordingSessionInfo & { blocks: number }> = new Map();
+  
+  // ============================================
+  // 构造函数
+  // ============================================
+  
+  /**
+   * 使用 WAAudioRecordingStore.open() 创建
+   */
+  private constructor(db: IDBDatabase) {
+    this._db = db;
+  }
+  
+  /**
+   * 打开存储
+   * 
+   * @param name - 数据库名
+   */
+  static async open(name: string = DEFAULT_DB_NAME): Promise<WAAudioRecordingStore> {
+    if (typeof indexedDB === 'undefined') {
+      throw new Error('当前环境不支持 IndexedDB');
+    }
+    
+    const openRequest = indexedDB.open(name, DB_VERSION);
+    openRequest.onupgradeneeded = () => {
+      const db = openRequest.result;
+      if (!db.objectStoreNames.contains(SESSIONS)) {
+        db.createObjectStore(SESSIONS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(BLOCKS)) {
+        db.createObjectStore(BLOCKS, { keyPath: ['session', 'index'] });
+      }
+    };
+    
+    return new WAAudioRecordingStore(await request(openRequest));
+  }
+  
+  // ============================================
+  // 配额
+  // ============================================
+  
+  /**
+   * 查询存储配额
+   */
+  async getQuota(): Promise<StorageQuota> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return { usage: 0, quota: Infinity, available: Infinity };
+    }
+    
+    const estimate = await navigator.storage.estimate();
+    const usage = estimate.usage ?? 0;
+    const quota = estimate.quota ?? Infinity;
+    return { usage, quota, available: Math.max(0, quota - usage) };
+  }
+  
+  /**
+   * 检查剩余空间
+   * 
+   * @param bytes - 需要的字节数
+   */
+  async hasSpace(bytes: number): Promise<boolean> {
+    const { available } = await this.getQuota();
+    return available >= bytes;
+  }
+  
+  /**
+   * 申请持久化存储（浏览器可能拒绝）
+   * 
+   * @returns 是否已持久化
+   */
+  async requestPersistence(): Promise<boolean> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+    return navigator.storage.persist();
+  }
+  
+  // ============================================
+  // 写入
+  // ============================================
+  
+  /**
+   * 开始新会话
+   * 
+   * @returns 会话 ID
+   */
+  async beginSession(config: RecordingSessionConfig): Promise<string> {
+    const now = Date.now();
+    const info: RecordingSessionInfo = {
+      id: `rec_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      name: config.name ?? new Date(now).toLocaleString(),
+      sampleRate: config.sampleRate,
+      channels: config.channels,
+      frames: 0,
+      offset: Math.max(0, config.offset ?? 0),
+      createdAt: now,
+      updatedAt: now,
+      finished: false
+    };
+    
+    await this._putSession(info);
+    this._sessions.set(info.id, { ...info, blocks: 0 });
+    this._queues.set(info.id, Promise.resolve());
+    activeSessions.add(info.id);
+    return info.id;
+  }
+  
+  /**
+   * 追加数据块（按调用顺序写入）
+   * 
+   * @param id - 会话 ID
+   * @param channels - 各声道等长的样本
+   * @returns 本块写入完成（配额不足时失败）
+   */
+  append(id: string, channels: Float32Array[]): Promise<void> {
+    const session = this._sessions.get(id);
+    if (!session) {
+      return Promise.reject(new Error(`录音会话不存在: ${id}`));
+    }
+    
+    const block: BlockRecord = { session: id, index: session.blocks++, data: channels };
+    session.frames += channels[0]?.length ?? 0;
+    session.updatedAt = Date.now();
+    const info = this._toInfo(session);
+    
+    const queued = this._queues.get(id)!.then(async () => {
+      const transaction = this._db.transaction([SESSIONS, BLOCKS], 'readwrite');
+      transaction.objectStore(BLOCKS).put(block);
+      transaction.objectStore(SESSIONS).put(info);
+      await transactionDone(transaction);
+    });
+    
+    // 队列不因单次失败中断
+    this._queues.set(id, queued.catch(() => undefined));
+    return queued;
+  }
+  
+  /**
+   * 结束会话
+   * 
+   * @param id - 会话 ID
+   * @param keep - 是否保留数据（默认删除，录音已交给调用方）
+   */
+  async finishSession(id: string, keep: boolean = false): Promise<void> {
+    await this._queues.get(id);
+    const session = this._sessions.get(id);
+    
+    this._queues.delete(id);
+    this._sessions.delete(id);
+    activeSessions.delete(id);
+    
+    if (!keep) {
+      await this.deleteSession(id);
+    } else if (session) {
+      await this._putSession({ ...this._toInfo(session), finished: true, updatedAt: Date.now() });
+    }
+  }
+  
+  // ============================================
+  // 恢复
+  // ============================================
+  
+  /**
+   * 列出所有会话（按创建时间排序）
+   */
+  async listSessions(): Promise<RecordingSessionInfo[]> {
+    const transaction = this._db.transaction(SESSIONS, 'readonly');
+    const sessions = await request(transaction.objectStore(SESSIONS).getAll() as IDBRequest<RecordingSessionInfo[]>);
+    return sessions.sort((a, b) => a.createdAt - b.createdAt);
+  }
+  
+  /**
+   * 列出未完成（崩溃或关闭页面而中断）的会话
+   * 
+   * 本页面正在录制的会话不包括在内
+   */
+  async listUnfinished(): Promise<RecordingSessionInfo[]> {
+    const sessions = await this.listSessions();
+    return sessions.filter(session => !session.finished && !activeSessions.has(session.id));
+  }
+  
+  /**
+   * 恢复会话为 AudioBuffer
+   * 
+   * @param id - 会话 ID
+   * @param context - 上下文（采样率不同时仍按录音采样率创建）
+   */
+  async restore(id: string, context: BaseAudioContext): Promise<AudioBuffer> {
+    const transaction = this._db.transaction([SESSIONS, BLOCKS], 'readonly');
+    const info = await request(transaction.objectStore(SESSIONS).get(id) as IDBRequest<RecordingSessionInfo | undefined>);
+    if (!info) {
+      throw new Error(`录音会话不存在: ${id}`);
+    }
+    
+    const range = IDBKeyRange.bound([id, 0], [id, Infinity]);
+    const blocks = await request(transaction.objectStore(BLOCKS).getAll(range) as IDBRequest<BlockRecord[]>);
+    blocks.sort((a, b) => a.index - b.index);
+    
+    const chunks = blocks.map(block => block.data);
+    if (info.sampleRate === context.sampleRate) {
+      return concatCaptureChunks(context, chunks, info.channels, info.offset);
+    }
+    
+    // 采样率不同：先按录音采样率拼接
+    const offline = new OfflineAudioContext(info.channels, 1, info.sampleRate);
+    return concatCaptureChunks(offline, chunks, info.channels, info.offset);
+  }
+  
+  // ============================================
+  // 清理
+  // ============================================
+  
+  /**
+   * 删除会话及其数据
+   */
+  async deleteSession(id: string): Promise<void> {
+    const transaction = this._db.transaction([SESSIONS, BLOCKS], 'readwrite');
+    transaction.objectStore(SESSIONS).delete(id);
+    transaction.objectStore(BLOCKS).delete(IDBKeyRange.bound([id, 0], [id, Infinity]));
+    await transactionDone(transaction);
+  }
+  
+  /**
+   * 清理旧会话
+   * 
+   * @param maxAge - 最后写入距今超过该时长（毫秒，默认 7 天）的会话被删除
+   * @returns 删除的会话数
+   */
+  async cleanup(maxAge: number = DEFAULT_MAX_AGE): Promise<number> {
+    const threshold = Date.now() - maxAge;
+    const sessions = await this.listSessions();
+    const expired = sessions.filter(session => session.updatedAt < threshold && !activeSessions.has(session.id));
+    
+    for (const session of expired) {
+      await this.deleteSession(session.id);
+    }
+    return expired.length;
+  }
+  
+  /** 关闭数据库 */
+  close(): void {
+    this._db.close();
+  }
+  
+  // ============================================
+  // 内部方法
+  // ============================================
+  
+  /** 写入会话记录 */
+  private async _putSession(info: RecordingSessionInfo): Promise<void> {
+    const transaction = this._db.transaction(SESSIONS, 'readwrite');
+    transaction.objectStore(SESSIONS).put(info);
+    await transactionDone(transaction);
+  }
+  
+  /** 去掉内部计数 */
+  private _toInfo(session: RecordingSessionInfo & { blocks: number }): RecordingSessionInfo {
+    return {
+      id: session.id,
+      name: session.name,
+      sampleRate: session.sampleRate,
+      channels: session.channels,
+      frames: session.frames,
+      offset: session.offset,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      finished: session.finished
+    };
+  }
+}
+
+export default WAAudioRecordingStore;
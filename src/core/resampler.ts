@@ -0,0 +1,194 @@
+/**
+ * WAAudio Resampler - 采样率转换
+ * 
+ * 带限的加窗 sinc 插值（Kaiser 窗），降采样时自动降低截止频率防止混叠
+ */
+
+// ============================================
+// 类型定义
+// ============================================
+
+/** 转换质量：越高滤波器越长、过渡带越窄，速度越慢 */
+export type ResampleQuality = 'draft' | 'standard' | 'high' | 'best';
+
+/** 质量预设：单侧过零点数、Kaiser 窗 β、截止频率（相对奈奎斯特频率） */
+const QUALITY_PRESETS: Record<ResampleQuality, { zeroCrossings: number; beta: number; cutoff: number }> = {
+  draft: { zeroCrossings: 8, beta: 5, cutoff: 0.9 },
+  standard: { zeroCrossings: 16, beta: 7, cutoff: 0.94 },
+  high: { zeroCrossings: 32, beta: 8.6, cutoff: 0.96 },
+  best: { zeroCrossings: 64, beta: 10, cutoff: 0.975 }
+};
+
+/** 滤波器表每个过零点的采样数（表间线性插值） */
+const TABLE_RESOLUTION = 512;
+
+/** 已生成的滤波器表 */
+const kernelTables: Map<ResampleQuality, Float32Array> = new Map();
+
+// ============================================
+// 转换函数
+// ============================================
+
+/**
+ * 转换单个声道
+ * 
+ * @param input - 输入样本
+ * @param fromRate - 输入采样率
+ * @param toRate - 输出采样率
+ * @param quality - 转换质量（默认 'high'）
+ */
+export function resampleChannel(
+  input: Float32Array,
+  fromRate: number,
+  toRate: number,
+  quality: ResampleQuality = 'high'
+): Float32Array {
+  if (!(fromRate > 0) || !(toRate > 0)) {
+    throw new Error(`无效的采样率: ${fromRate} → ${toRate}`);
+  }
+  if (fromRate === toRate) return input.slice();
+  
+  const { zeroCrossings, cutoff } = QUALITY_PRESETS[quality];
+  const table = getKernelTable(quality);
+  
+  // 降采样时截止频率按比例降低
+  const fc = cutoff * Math.min(1, toRate / fromRate);
+  const radius = zeroCrossings / fc;
+  const step = fromRate / toRate;
+  const scale = fc * TABLE_RESOLUTION;
+  const tableEnd = table.length - 1;
+  
+  const output = new Float32Array(Math.max(1, Math.round(input.length * toRate / fromRate)));
+  
+  for (let n = 0; n < output.length; n++) {
+    const center = n * step;
+    const first = Math.max(0, Math.ceil(center - radius));
+    const last = Math.min(input.length - 1, Math.floor(center + radius));
+    
+    let sum = 0;
+    for (let i = first; i <= last; i++) {
+      const position = Math.abs(center - i) * scale;
+      const index = position | 0;
+      if (index >= tableEnd) continue;
+      
+      const weight = table[index] + (table[index + 1] - table[index]) * (position - index);
+      sum += input[i] * weight;
+    }
+    output[n] = sum * fc;
+  }
+  
+  return output;
+}
+
+/**
+ * 转换多个声道
+ */
+export function resampleChannels(
+  channels: Float32Array[],
+  fromRate: number,
+  toRate: number,
+  quality: ResampleQuality = 'high'
+): Float32Array[] {
+  return channels.map(data => resampleChannel(data, fromRate, toRate, quality));
+}
+
+/**
+ * 转换 AudioBuffer
+ * 
+ * 使用示例：
+ * ```typescript
+ * const converted = resampleBuffer(context, buffer, 48000, 'best');
+ * ```
+ * 
+ * @param context - 用于创建结果的上下文
+ * @param buffer - 输入
+ * @param sampleRate - 目标采样率
+ * @param quality - 转换质量（默认 'high'）
+ */
+export function resampleBuffer(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  sampleRate: number,
+  quality: ResampleQuality = 'high'
+): AudioBuffer {
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    channels.push(buffer.getChannelData(channel));
+  }
+  
+  const converted = resampleChannels(channels, buffer.sampleRate, sampleRate, quality);
+  const output = context.createBuffer(buffer.numberOfChannels, converted[0].length, sampleRate);
+  converted.forEach((data, channel) => output.getChannelData(channel).set(data));
+  return output;
+}
+
+/**
+ * 读取 WAV 文件的采样率
+ * 
+ * @returns 采样率，不是 WAV 时返回 null
+ */
+export function getWAVSampleRate(data: ArrayBuffer): number | null {
+  if (data.byteLength < 12) return null;
+  
+  const view = new DataView(data);
+  const tag = (offset: number) => String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+  if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') return null;
+  
+  // 逐块查找 fmt 块
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const size = view.getUint32(offset + 4, true);
+    if (tag(offset) === 'fmt ' && offset + 16 <= data.byteLength) {
+      return view.getUint32(offset + 12, true);
+    }
+    offset += 8 + size + (size % 2);
+  }
+  
+  return null;
+}
+
+// ============================================
+// 内部函数
+// ============================================
+
+/**
+ * 生成滤波器表：sinc(x) × Kaiser 窗，x 以过零点为单位
+ */
+function getKernelTable(quality: ResampleQuality): Float32Array {
+  const cached = kernelTables.get(quality);
+  if (cached) return cached;
+  
+  const { zeroCrossings, beta } = QUALITY_PRESETS[quality];
+  const length = zeroCrossings * TABLE_RESOLUTION + 1;
+  const table = new Float32Array(length + 1);
+  const norm = besselI0(beta);
+  
+  for (let i = 0; i < length; i++) {
+    const x = i / TABLE_RESOLUTION;
+    const r = x / zeroCrossings;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    table[i] = sinc * besselI0(beta * Math.sqrt(Math.max(0, 1 - r * r))) / norm;
+  }
+  
+  kernelTables.set(quality, table);
+  return table;
+}
+
+/**
+ * 零阶第一类修正贝塞尔函数（级数展开）
+ */
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const half = x / 2;
+  
+  for (let k = 1; k < 50; k++) {
+    term *= (half / k) * (half / k);
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  
+  return sum;
+}
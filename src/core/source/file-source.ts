@@ -5,6 +5,9 @@
  * 支持播放本地音频文件
  */
 
+import { WAAudioTimeStretchNode } from '../time-stretch';
+import type { TimeStretchMode } from '../time-stretch';
+
 // ============================================
 // 类型定义
 // ============================================
@@ -30,6 +33,10 @@ export interface SourceOptions {
  * const source = new WAAudioSource(context, buffer);
  * source.connect(masterGain);
  * source.play();
+ * 
+ * // 练习用慢速播放，音高不变
+ * await source.setPreservePitch(true);
+ * source.setPlaybackRate(0.75);
  * ```
  */
 export class WAAudioSource {
@@ -45,6 +52,9 @@ export class WAAudioSource {
   /** 源节点 */
   private _sourceNode: AudioBufferSourceNode | null = null;
   
+  /** 变速不变调节点（启用保持音高时代替源节点） */
+  private _stretch: WAAudioTimeStretchNode | null = null;
+  
   /** 增益节点（音量控制） */
   private readonly _gainNode: GainNode;
   
@@ -133,6 +143,11 @@ export class WAAudioSource {
     return this._playbackRate;
   }
   
+  /** 变速时是否保持音高 */
+  get preservePitch(): boolean {
+    return this._stretch !== null;
+  }
+  
   /** 当前播放位置 */
   get currentTime(): number {
     if (this._isPlaying) {
@@ -158,13 +173,22 @@ export class WAAudioSource {
   /**
    * 播放
    * 
-   * @param offset - 起始位置（秒）
+   * @param offset - 起始位置（秒，默认从当前位置继续）
    */
   play(offset?: number): void {
+    // 在停止前取位置：stop() 会把位置归零
+    const startOffset = offset ?? this.currentTime;
+    
     // 如果正在播放，先停止
     this.stop();
+    this._pausePosition = startOffset;
     
-    const startOffset = offset ?? this._pausePosition;
+    if (this._stretch) {
+      this._stretch.setLoop(this._loop).start(startOffset, this._playbackRate);
+      this._startTime = this._context.currentTime;
+      this._isPlaying = true;
+      return;
+    }
     
     // 创建新的源节点
     this._sourceNode = this._context.createBufferSource();
@@ -183,8 +207,7 @@ export class WAAudioSource {
     // 监听播放结束
     this._sourceNode.onended = () => {
       if (this._loop) {
-        this._pausePosition = 0;
-        this.play();
+        this.play(0);
       } else if (this._isPlaying) {
         this.stop();
       }
@@ -193,22 +216,16 @@ export class WAAudioSource {
   
   /** 暂停 */
   pause(): void {
-    if (this._isPlaying && this._sourceNode) {
+    if (this._isPlaying) {
       this._pausePosition = this.currentTime;
-      this._sourceNode.stop();
-      this._sourceNode.disconnect();
-      this._sourceNode = null;
+      this._stopSourceNode();
       this._isPlaying = false;
     }
   }
   
   /** 停止 */
   stop(): void {
-    if (this._sourceNode) {
-      this._sourceNode.stop();
-      this._sourceNode.disconnect();
-      this._sourceNode = null;
-    }
+    this._stopSourceNode();
     this._isPlaying = false;
     this._pausePosition = 0;
   }
@@ -244,15 +261,58 @@ export class WAAudioSource {
     if (this._sourceNode) {
       this._sourceNode.loop = loop;
     }
+    this._stretch?.setLoop(loop);
   }
   
-  /** 设置播放速率 */
+  /** 设置播放速率（启用保持音高时音高不变，否则随速率升降） */
   setPlaybackRate(rate: number): void {
     const clampedRate = Math.max(0.25, Math.min(rate, 4));
+    
+    // 以当前位置为新的计时起点
+    if (this._isPlaying) {
+      this._pausePosition = this.currentTime;
+      this._startTime = this._context.currentTime;
+    }
+    
     this._playbackRate = clampedRate;
     if (this._sourceNode) {
       this._sourceNode.playbackRate.value = clampedRate;
     }
+    this._stretch?.setRate(clampedRate);
+  }
+  
+  /**
+   * 设置变速时是否保持音高
+   * 
+   * 启用后通过 WSOLA 实时拉伸播放（需异步加载处理器），正在播放时从当前位置无缝切换
+   * 
+   * @param enabled - 是否保持音高
+   * @param mode - 处理模式（默认 'music'，人声练习可用 'speech'）
+   */
+  async setPreservePitch(enabled: boolean, mode: TimeStretchMode = 'music'): Promise<void> {
+    const stretch = enabled
+      ? await WAAudioTimeStretchNode.create(this._context, this._buffer, { mode, rate: this._playbackRate, loop: this._loop })
+      : null;
+    
+    const playing = this._isPlaying;
+    const position = this.currentTime;
+    this._stopSourceNode();
+    this._isPlaying = false;
+    
+    this._stretch?.dispose();
+    this._stretch = stretch;
+    if (stretch) {
+      stretch.connect(this._gainNode);
+      stretch.onEnded = () => {
+        if (this._isPlaying) this.stop();
+      };
+    }
+    
+    if (playing) {
+      this.play(position);
+    } else {
+      this._pausePosition = position;
+    }
   }
   
   // ============================================
@@ -333,6 +393,21 @@ export class WAAudioSource {
     
     return newBuffer;
   }
+  
+  // ============================================
+  // 内部方法
+  // ============================================
+  
+  /** 停止当前的源节点或变速不变调节点 */
+  private _stopSourceNode(): void {
+    if (this._sourceNode) {
+      this._sourceNode.onended = null;
+      this._sourceNode.stop();
+      this._sourceNode.disconnect();
+      this._sourceNode = null;
+    }
+    this._stretch?.stop();
+  }
 }
 
 // ============================================
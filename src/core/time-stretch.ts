@@ -0,0 +1,591 @@
+/**
+ * WAAudio Time Stretch - 变速不变调
+ * 
+ * WSOLA（波形相似重叠相加）：按目标速度推进读取位置，在容差范围内寻找与上一帧自然延续最相似的帧再重叠相加，
+ * 改变时长而不改变音高
+ * 离线处理用于编辑器，实时处理通过 AudioWorklet 用于播放
+ */
+
+import { resampleChannel } from './resampler';
+
+// ============================================
+// 类型定义
+// ============================================
+
+/**
+ * 处理模式
+ * 
+ * - speech: 短帧，语音清晰、辅音不拖尾
+ * - music: 长帧，音调稳定、和声不颤动
+ */
+export type TimeStretchMode = 'speech' | 'music';
+
+export interface TimeStretchOptions {
+  /** 处理模式（默认 'music'） */
+  mode?: TimeStretchMode;
+  /** 帧长（秒，覆盖模式预设） */
+  frameSize?: number;
+  /** 对齐搜索容差（秒，覆盖模式预设） */
+  tolerance?: number;
+}
+
+export interface TimeStretchNodeOptions extends TimeStretchOptions {
+  /** 播放速度（默认 1） */
+  rate?: number;
+  /** 循环播放 */
+  loop?: boolean;
+}
+
+/** 模式预设：帧长、搜索容差（秒） */
+const MODE_PRESETS: Record<TimeStretchMode, { frameSize: number; tolerance: number }> = {
+  speech: { frameSize: 0.03, tolerance: 0.0125 },
+  music: { frameSize: 0.08, tolerance: 0.02 }
+};
+
+/** 时长比例范围 */
+const MIN_RATIO = 0.25;
+const MAX_RATIO = 4;
+
+/** 相关计算的降采样目标频率（Hz） */
+const CORRELATION_RATE = 11025;
+
+/** 处理器名称 */
+const PROCESSOR_NAME = 'waaudio-time-stretch';
+
+/**
+ * 处理器源码
+ * 
+ * 整个缓冲区在创建时传入，读取位置每帧按 rate 推进；不播放时输出静音
+ * 首帧前半段不加窗，起播时不产生淡入
+ */
+const PROCESSOR_SOURCE = `
+class WAAudioTimeStretchProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const o = options.processorOptions;
+    this.data = o.channels;
+    this.length = this.data[0].length;
+    this.frame = o.frame;
+    this.hop = o.frame / 2;
+    this.tolerance = o.tolerance;
+    this.stride = o.stride;
+    this.rate = o.rate;
+    this.loop = o.loop;
+    this.window = new Float32Array(this.frame);
+    for (let i = 0; i < this.frame; i++) this.window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / this.frame);
+    this.mono = new Float32Array(this.length);
+    for (const channel of this.data) {
+      for (let i = 0; i < this.length; i++) this.mono[i] += channel[i] / this.data.length;
+    }
+    this.accum = this.data.map(() => new Float32Array(this.frame));
+    this.queue = this.data.map(() => new Float32Array(this.hop));
+    this.playing = false;
+    this.active = true;
+    this.port.onmessage = (e) => {
+      const m = e.data;
+      if (m.type === 'start') this.start(m.offset);
+      if (m.type === 'stop') this.playing = false;
+      if (m.type === 'rate') this.rate = m.rate;
+      if (m.type === 'loop') this.loop = m.loop;
+      if (m.type === 'dispose') this.active = false;
+    };
+  }
+  start(offset) {
+    this.position = offset;
+    this.previous = null;
+    this.read = this.hop;
+    this.draining = false;
+    this.accum.forEach((a) => a.fill(0));
+    this.playing = true;
+  }
+  index(i) {
+    if (this.loop) return ((i % this.length) + this.length) % this.length;
+    return i >= 0 && i < this.length ? i : -1;
+  }
+  correlate(target, candidate) {
+    let sum = 0;
+    let energy = 0;
+    for (let i = 0; i < this.hop; i += this.stride) {
+      const a = this.index(target + i);
+      const b = this.index(candidate + i);
+      const y = b < 0 ? 0 : this.mono[b];
+      sum += (a < 0 ? 0 : this.mono[a]) * y;
+      energy += y * y;
+    }
+    return energy > 0 ? sum / Math.sqrt(energy) : 0;
+  }
+  align(nominal) {
+    if (this.previous === null) return nominal;
+    const target = this.previous + this.hop;
+    if (this.rate === 1 && Math.abs(target - nominal) <= this.tolerance) return target;
+    const end = this.loop ? Infinity : Math.max(0, this.length - this.frame);
+    const center = Math.min(nominal, end);
+    const to = Math.min(center + this.tolerance, end);
+    const from = center - this.tolerance;
+    let best = to;
+    let bestScore = -Infinity;
+    for (let c = from; c <= to; c += this.stride) {
+      const score = this.correlate(target, c);
+      if (score > bestScore) { bestScore = score; best = c; }
+    }
+    const coarse = best;
+    for (let c = Math.max(from, coarse - this.stride + 1); c < Math.min(to + 1, coarse + this.stride); c++) {
+      const score = this.correlate(target, c);
+      if (score > bestScore) { bestScore = score; best = c; }
+    }
+    return best;
+  }
+  next() {
+    if (!this.loop && this.position >= this.length) {
+      if (this.draining) return false;
+      this.draining = true;
+    } else {
+      const position = this.align(Math.round(this.position));
+      const first = this.previous === null;
+      for (let c = 0; c < this.data.length; c++) {
+        const data = this.data[c];
+        const accum = this.accum[c];
+        for (let i = 0; i < this.frame; i++) {
+          const j = this.index(position + i);
+          if (j < 0) continue;
+          accum[i] += data[j] * (first && i < this.hop ? 1 : this.window[i]);
+        }
+      }
+      this.previous = position;
+      this.position += this.hop * this.rate;
+      if (this.loop && this.position >= this.length) {
+        this.position -= this.length;
+        this.previous -= this.length;
+      }
+    }
+    for (let c = 0; c < this.data.length; c++) {
+      const accum = this.accum[c];
+      this.queue[c].set(accum.subarray(0, this.hop));
+      accum.copyWithin(0, this.hop);
+      accum.fill(0, this.frame - this.hop);
+    }
+    this.read = 0;
+    return true;
+  }
+  process(inputs, outputs) {
+    if (!this.active) return false;
+    if (!this.playing) return true;
+    const output = outputs[0];
+    const length = output[0].length;
+    for (let i = 0; i < length; i++) {
+      if (this.read >= this.hop && !this.next()) {
+        this.playing = false;
+        this.port.postMessage('ended');
+        break;
+      }
+      for (let c = 0; c < output.length; c++) {
+        output[c][i] = this.queue[Math.min(c, this.queue.length - 1)][this.read];
+      }
+      this.read++;
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', WAAudioTimeStretchProcessor);
+`;
+
+/** 每个上下文只加载一次处理器模块 */
+const loadedContexts: WeakMap<BaseAudioContext, Promise<void>> = new WeakMap();
+
+/**
+ * 在上下文中加载处理器
+ */
+function loadProcessor(context: BaseAudioContext): Promise<void> {
+  let loading = loadedContexts.get(context);
+  if (!loading) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    loading = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    loadedContexts.set(context, loading);
+  }
+  return loading;
+}
+
+// ============================================
+// 离线处理
+// ============================================
+
+/**
+ * 拉伸多个声道（各声道共用对齐位置，保持声道间相位关系）
+ * 
+ * @param channels - 各声道等长的样本
+ * @param sampleRate - 采样率
+ * @param ratio - 时长比例（2 为放慢一倍，0.5 为加快一倍）
+ * @param options - 处理模式
+ * @returns 长度为原长 × ratio 的各声道样本
+ */
+export function timeStretchChannels(
+  channels: Float32Array[],
+  sampleRate: number,
+  ratio: number,
+  options: TimeStretchOptions = {}
+): Float32Array[] {
+  if (!(ratio >= MIN_RATIO && ratio <= MAX_RATIO)) {
+    throw new Error(`时长比例须在 ${MIN_RATIO} 到 ${MAX_RATIO} 之间: ${ratio}`);
+  }
+  if (ratio === 1) return channels.map(data => data.slice());
+  
+  const params = getFrameParams(sampleRate, options);
+  const { tolerance, stride } = params;
+  const inputLength = channels[0]?.length ?? 0;
+  const outputLength = Math.round(inputLength * ratio);
+  
+  // 输入不足两帧时缩短帧长
+  const hop = Math.max(1, Math.min(params.hop, Math.floor(inputLength / 2)));
+  const frame = hop * 2;
+  const window = createWindow(frame);
+  
+  // 对齐用的单声道混音，末尾补零以免越界
+  const mono = new Float32Array(inputLength + frame + 2 * tolerance);
+  for (const data of channels) {
+    for (let i = 0; i < inputLength; i++) {
+      mono[i] += data[i] / channels.length;
+    }
+  }
+  
+  const outputs = channels.map(() => new Float32Array(Math.max(outputLength, frame)));
+  const norm = new Float32Array(Math.max(outputLength, frame));
+  
+  // 首帧前半段、末帧后半段不加窗，使结果的首尾与输入首尾样本一致，前后内容衔接处不产生跳变
+  const addFrame = (position: number, outputStart: number, first: boolean, last: boolean) => {
+    for (let i = 0; i < frame; i++) {
+      const weight = i < hop ? (first ? 1 : window[i]) : (last ? 1 : window[i]);
+      norm[outputStart + i] += weight;
+      if (position + i >= inputLength) continue;
+      
+      channels.forEach((data, channel) => {
+        outputs[channel][outputStart + i] += data[position + i] * weight;
+      });
+    }
+  };
+  
+  const analysisHop = hop / ratio;
+  let previous = 0;
+  addFrame(0, 0, true, outputLength <= frame);
+  
+  for (let k = 1; k * hop + frame <= outputLength; k++) {
+    // 候选帧不越过输入末尾
+    const nominal = Math.min(Math.round(k * analysisHop), Math.max(0, inputLength - frame));
+    const to = Math.min(nominal + tolerance, Math.max(0, inputLength - frame));
+    const position = findBestOffset(mono, previous + hop, Math.max(0, nominal - tolerance), to, hop, stride);
+    addFrame(position, k * hop, false, false);
+    previous = position;
+  }
+  
+  if (outputLength > frame) {
+    addFrame(inputLength - frame, outputLength - frame, false, true);
+  }
+  
+  // 按权重和归一化（重叠处和为 1，仅首尾帧与相邻帧的衔接处需要补偿）
+  return outputs.map(output => {
+    const result = new Float32Array(outputLength);
+    for (let i = 0; i < outputLength; i++) {
+      result[i] = norm[i] > 0 ? output[i] / norm[i] : 0;
+    }
+    return result;
+  });
+}
+
+/**
+ * 拉伸 AudioBuffer
+ * 
+ * 使用示例：
+ * ```typescript
+ * // 语音放慢到 0.8 倍速（时长 1.25 倍），音高不变
+ * const slower = timeStretchBuffer(context, buffer, 1.25, { mode: 'speech' });
+ * ```
+ * 
+ * @param context - 用于创建结果的上下文
+ * @param buffer - 输入
+ * @param ratio - 时长比例
+ * @param options - 处理模式
+ */
+export function timeStretchBuffer(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  ratio: number,
+  options: TimeStretchOptions = {}
+): AudioBuffer {
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    channels.push(buffer.getChannelData(channel));
+  }
+  
+  const stretched = timeStretchChannels(channels, buffer.sampleRate, ratio, options);
+  const output = context.createBuffer(buffer.numberOfChannels, Math.max(1, stretched[0].length), buffer.sampleRate);
+  stretched.forEach((data, channel) => output.getChannelData(channel).set(data));
+  return output;
+}
+
+// ============================================
+// 实时处理类
+// ============================================
+
+/**
+ * WAAudioTimeStretchNode - 实时变速不变调播放
+ * 
+ * 使用示例：
+ * ```typescript
+ * const stretch = await WAAudioTimeStretchNode.create(context, buffer, { mode: 'music' });
+ * stretch.connect(context.destination);
+ * stretch.start(10, 0.75);  // 从 10 秒处以 0.75 倍速播放，音高不变
+ * stretch.setRate(0.5);
+ * ```
+ */
+export class WAAudioTimeStretchNode {
+  /** 上下文 */
+  private readonly _context: BaseAudioContext;
+  
+  /** 处理节点 */
+  private readonly _node: AudioWorkletNode;
+  
+  /** 缓冲区采样率 */
+  private readonly _bufferRate: number;
+  
+  /** 播放速度 */
+  private _rate: number;
+  
+  /** 循环播放 */
+  private _loop: boolean;
+  
+  /** 是否正在播放 */
+  private _playing = false;
+  
+  /** 播放结束回调（循环播放时不触发） */
+  private _onEnded: (() => void) | null = null;
+  
+  // ============================================
+  // 构造函数
+  // ============================================
+  
+  /**
+   * 使用 WAAudioTimeStretchNode.create() 创建（需先异步加载处理器）
+   */
+  private constructor(context: BaseAudioContext, buffer: AudioBuffer, options: TimeStretchNodeOptions) {
+    this._context = context;
+    this._bufferRate = buffer.sampleRate;
+    this._rate = clampRate(options.rate ?? 1);
+    this._loop = options.loop ?? false;
+    
+    // 处理器按上下文采样率读取，采样率不同时先转换
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      channels.push(buffer.sampleRate === context.sampleRate
+        ? data.slice()
+        : resampleChannel(data, buffer.sampleRate, context.sampleRate, 'standard'));
+    }
+    
+    const { frame, tolerance, stride } = getFrameParams(context.sampleRate, options);
+    this._node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [buffer.numberOfChannels],
+      processorOptions: { channels, frame, tolerance, stride, rate: this._rate, loop: this._loop }
+    });
+    
+    this._node.port.onmessage = (e: MessageEvent<'ended'>) => {
+      if (e.data === 'ended' && this._playing) {
+        this._playing = false;
+        this._onEnded?.();
+      }
+    };
+  }
+  
+  /**
+   * 创建实时拉伸节点
+   * 
+   * @param context - 上下文
+   * @param buffer - 要播放的音频
+   * @param options - 处理模式、速度、循环
+   */
+  static async create(
+    context: BaseAudioContext,
+    buffer: AudioBuffer,
+    options: TimeStretchNodeOptions = {}
+  ): Promise<WAAudioTimeStretchNode> {
+    await loadProcessor(context);
+    return new WAAudioTimeStretchNode(context, buffer, options);
+  }
+  
+  // ============================================
+  // 属性访问器
+  // ============================================
+  
+  /** 上下文 */
+  get context(): BaseAudioContext {
+    return this._context;
+  }
+  
+  /** 输出节点 */
+  get node(): AudioNode {
+    return this._node;
+  }
+  
+  /** 播放速度 */
+  get rate(): number {
+    return this._rate;
+  }
+  
+  /** 循环播放 */
+  get loop(): boolean {
+    return this._loop;
+  }
+  
+  /** 是否正在播放 */
+  get playing(): boolean {
+    return this._playing;
+  }
+  
+  /** 播放结束回调 */
+  set onEnded(callback: (() => void) | null) {
+    this._onEnded = callback;
+  }
+  
+  // ============================================
+  // 播放控制
+  // ============================================
+  
+  /**
+   * 开始播放
+   * 
+   * @param offset - 起始位置（秒）
+   * @param rate - 播放速度（不传则保持当前速度）
+   */
+  start(offset: number = 0, rate?: number): void {
+    if (rate !== undefined) {
+      this.setRate(rate);
+    }
+    this._playing = true;
+    this._node.port.postMessage({ type: 'start', offset: Math.max(0, Math.round(offset * this._context.sampleRate)) });
+  }
+  
+  /** 停止播放 */
+  stop(): void {
+    this._playing = false;
+    this._node.port.postMessage({ type: 'stop' });
+  }
+  
+  /** 设置播放速度 (0.25-4)，立即生效 */
+  setRate(rate: number): this {
+    this._rate = clampRate(rate);
+    this._node.port.postMessage({ type: 'rate', rate: this._rate });
+    return this;
+  }
+  
+  /** 设置循环 */
+  setLoop(loop: boolean): this {
+    this._loop = loop;
+    this._node.port.postMessage({ type: 'loop', loop });
+    return this;
+  }
+  
+  // ============================================
+  // 连接
+  // ============================================
+  
+  /** 连接目标节点 */
+  connect(destination: AudioNode): void {
+    this._node.connect(destination);
+  }
+  
+  /** 断开连接 */
+  disconnect(): void {
+    this._node.disconnect();
+  }
+  
+  /** 释放处理器（之后不可再使用） */
+  dispose(): void {
+    this._playing = false;
+    this._node.port.postMessage({ type: 'dispose' });
+    this._node.port.onmessage = null;
+    this._node.disconnect();
+  }
+}
+
+// ============================================
+// 内部函数
+// ============================================
+
+/**
+ * 由采样率与选项计算帧参数（样本）
+ */
+function getFrameParams(
+  sampleRate: number,
+  options: TimeStretchOptions
+): { frame: number; hop: number; tolerance: number; stride: number } {
+  const preset = MODE_PRESETS[options.mode ?? 'music'];
+  const hop = Math.max(16, Math.round((options.frameSize ?? preset.frameSize) * sampleRate / 2));
+  return {
+    frame: hop * 2,
+    hop,
+    tolerance: Math.max(0, Math.round((options.tolerance ?? preset.tolerance) * sampleRate)),
+    stride: Math.max(1, Math.round(sampleRate / CORRELATION_RATE))
+  };
+}
+
+/**
+ * 周期汉宁窗（50% 重叠时叠加和为 1）
+ */
+function createWindow(length: number): Float32Array {
+  const window = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / length);
+  }
+  return window;
+}
+
+/**
+ * 在 [from, to] 中寻找与 target 处波形最相似的位置
+ * 
+ * 先按 stride 粗搜，再在最佳点附近逐样本细搜；相似度为按候选能量归一化的互相关
+ */
+function findBestOffset(
+  mono: Float32Array,
+  target: number,
+  from: number,
+  to: number,
+  length: number,
+  stride: number
+): number {
+  const correlate = (candidate: number) => {
+    let sum = 0;
+    let energy = 0;
+    for (let i = 0; i < length; i += stride) {
+      const y = mono[candidate + i];
+      sum += mono[target + i] * y;
+      energy += y * y;
+    }
+    return energy > 0 ? sum / Math.sqrt(energy) : 0;
+  };
+  
+  let best = from;
+  let bestScore = -Infinity;
+  for (let candidate = from; candidate <= to; candidate += stride) {
+    const score = correlate(candidate);
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+  
+  const center = best;
+  for (let candidate = Math.max(from, center - stride + 1); candidate < Math.min(to + 1, center + stride); candidate++) {
+    const score = correlate(candidate);
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+  
+  return best;
+}
+
+/** 限制播放速度范围 */
+function clampRate(rate: number): number {
+  return Math.max(MIN_RATIO, Math.min(rate, MAX_RATIO));
+}
@@ -0,0 +1,163 @@
+/**
+ * WAAudio Zip - ZIP 打包
+ * 
+ * 仅存储不压缩（音频数据压缩收益很小），不支持 ZIP64（总大小需小于 4GB）
+ */
+
+// ============================================
+// 类型定义
+// ============================================
+
+export interface ZipEntry {
+  /** 文件名（可含 / 分隔的目录） */
+  name: string;
+  /** 文件内容 */
+  data: Blob | ArrayBuffer | Uint8Array<ArrayBuffer>;
+  /** 修改时间（默认现在） */
+  modified?: Date;
+}
+
+// ============================================
+// 常量
+// ============================================
+
+/** ZIP 单个文件与归档的大小上限（无 ZIP64） */
+const MAX_SIZE = 0xFFFFFFFF;
+
+/** CRC-32 查找表 */
+let crcTable: Uint32Array | null = null;
+
+// ============================================
+// 打包函数
+// ============================================
+
+/**
+ * 打包为 ZIP Blob
+ * 
+ * @param entries - 文件列表（按顺序写入）
+ */
+export async function encodeZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const directory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+  
+  for (const entry of entries) {
+    const data = await toBytes(entry.data);
+    const name = encoder.encode(entry.name);
+    const crc = crc32(data);
+    const [time, date] = dosDateTime(entry.modified ?? new Date());
+    
+    if (data.length > MAX_SIZE || offset + 30 + name.length + data.length > MAX_SIZE) {
+      throw new Error('ZIP 文件过大（超过 4GB）');
+    }
+    
+    // 本地文件头
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);
+    writeEntryFields(local, 4, { crc, size: data.length, nameLength: name.length, time, date });
+    
+    // 中央目录项
+    const central = new DataView(new ArrayBuffer(46 + name.length));
+    central.setUint32(0, 0x02014B50, true);
+    central.setUint16(4, 20, true);
+    writeEntryFields(central, 6, { crc, size: data.length, nameLength: name.length, time, date });
+    central.setUint32(42, offset, true);
+    new Uint8Array(central.buffer).set(name, 46);
+    directory.push(new Uint8Array(central.buffer));
+    
+    parts.push(local.buffer, name, data);
+    offset += 30 + name.length + data.length;
+  }
+  
+  const directorySize = directory.reduce((sum, item) => sum + item.length, 0);
+  if (offset + directorySize > MAX_SIZE) {
+    throw new Error('ZIP 文件过大（超过 4GB）');
+  }
+  
+  // 中央目录结束记录
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+  
+  return new Blob([...parts, ...directory, end.buffer], { type: 'application/zip' });
+}
+
+/**
+ * 计算 CRC-32
+ */
+export function crc32(data: Uint8Array): number {
+  const table = crcTable ?? (crcTable = createCrcTable());
+  let crc = 0xFFFFFFFF;
+  
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// ============================================
+// 内部函数
+// ============================================
+
+/**
+ * 写入本地文件头与中央目录项共有的字段（从“所需版本”开始）
+ */
+function writeEntryFields(
+  view: DataView,
+  offset: number,
+  fields: { crc: number; size: number; nameLength: number; time: number; date: number }
+): void {
+  view.setUint16(offset, 20, true); // 所需版本 2.0
+  view.setUint16(offset + 2, 0x0800, true); // 文件名为 UTF-8
+  view.setUint16(offset + 4, 0, true); // 仅存储
+  view.setUint16(offset + 6, fields.time, true);
+  view.setUint16(offset + 8, fields.date, true);
+  view.setUint32(offset + 10, fields.crc, true);
+  view.setUint32(offset + 14, fields.size, true); // 压缩后大小
+  view.setUint32(offset + 18, fields.size, true); // 原始大小
+  view.setUint16(offset + 22, fields.nameLength, true);
+}
+
+/**
+ * 转换为字节数组
+ */
+async function toBytes(data: Blob | ArrayBuffer | Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+/**
+ * MS-DOS 日期时间（本地时间，精度 2 秒，最早 1980 年）
+ * 
+ * @returns [时间, 日期]
+ */
+function dosDateTime(date: Date): [number, number] {
+  const year = Math.max(1980, date.getFullYear());
+  return [
+    (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  ];
+}
+
+/**
+ * 生成 CRC-32 查找表
+ */
+function createCrcTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  
+  for (let i = 0; i < 256; i++) {
+    let value = i;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 1 ? 0xEDB88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[i] = value;
+  }
+  
+  return table;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { WAAudioMixer } from '../src/core/engine/mixer';
+import { SAMPLE_RATE } from './helpers';
+
+/** 混音器运行在离线上下文中，渲染时上下文时间推进 */
+function createMixer(duration: number): { mixer: WAAudioMixer; context: OfflineAudioContext } {
+  const context = new OfflineAudioContext(2, Math.round(duration * SAMPLE_RATE), SAMPLE_RATE);
+  return { mixer: new WAAudioMixer(context as unknown as AudioContext), context };
+}
+
+describe('track automation passes', () => {
+  it('keeps the current pass until a scheduled loop pass starts', async () => {
+    const { mixer, context } = createMixer(4);
+    const track = mixer.addTrack();
+    const lane = track.getAutomationLane('volume').setMode('latch');
+    
+    // 从位置 2 开始播放，循环 [0, 4) 的下一圈在上下文时间 2 开始
+    track.scheduleAutomation(2, 0);
+    track.scheduleAutomation(0, 2);
+    
+    // 下一圈开始前仍按当前段计算位置
+    track.setVolume(0.5);
+    expect(lane.points).toEqual([{ time: 2, value: 0.5, curve: 'linear' }]);
+    
+    // 下一圈开始后切换到新段
+    const resumed = context.suspend(3).then(() => {
+      track.setVolume(0.25);
+      context.resume();
+    });
+    await context.startRendering();
+    await resumed;
+    
+    // 挂起点落在渲染量子边界上，位置允许少量偏差
+    const points = lane.points;
+    expect(points.map(point => point.value)).toEqual([0.25, 0.5, 0.5]);
+    expect(points[0].time).toBeCloseTo(1, 2);
+    expect(points[1].time).toBe(2);
+    expect(points[2].time).toBe(4);
+  });
+  
+  it('drops passes that have not started when cancelled', () => {
+    const { mixer } = createMixer(1);
+    const track = mixer.addTrack();
+    const lane = track.getAutomationLane('volume').setMode('latch');
+    
+    track.scheduleAutomation(2, 0);
+    track.scheduleAutomation(0, 2);
+    track.setVolume(0.5);
+    track.cancelAutomation();
+    
+    // 在当前段的停止位置结束写入
+    expect(lane.points).toEqual([{ time: 2, value: 0.5, curve: 'linear' }]);
+    expect(lane.isWriting).toBe(false);
+  });
+  
+  it('does not fight the envelope when a reading lane is touched', async () => {
+    const { mixer, context } = createMixer(1);
+    
+    // 直流输入，直接取轨道增益节点的输出
+    const track = mixer.addTrack();
+    mixer.masterAnalyser.disconnect();
+    track.gainNode.connect(context.destination);
+    const dc = context.createBuffer(1, SAMPLE_RATE, SAMPLE_RATE);
+    dc.getChannelData(0).fill(0.5);
+    const source = context.createBufferSource();
+    source.buffer = dc;
+    source.connect(track.input);
+    source.start(0);
+    
+    track.getAutomationLane('volume').addPoint(0, 0.2).addPoint(1, 1);
+    track.scheduleAutomation(0, 0);
+    
+    // read 模式不写入：只记录推子值，参数继续跟随包络
+    const touched = context.suspend(0.25).then(() => {
+      track.setVolume(0.9);
+      context.resume();
+    });
+    const output = (await context.startRendering()).getChannelData(0);
+    await touched;
+    expect(track.faderVolume).toBe(0.9);
+    const at = (time: number) => output[Math.round(time * SAMPLE_RATE)];
+    expect(at(0.5) / at(0.25)).toBeCloseTo(0.6 / 0.4, 2);
+    expect(at(0.75) / at(0.25)).toBeCloseTo(0.8 / 0.4, 2);
+  });
+});
@@ -0,0 +1,623 @@
+import { describe, it, expect } from 'vitest';
+import { WAAudioEditor } from '../src/core/editor';
+import { WAAudioEffectChain } from '../src/core/effects';
+import { WAAudioMarkers } from '../src/core/markers';
+import { SAMPLE_RATE, createSine, createSteps, createBoostInput, createBoostEQ, expectBoosted } from './helpers';
+
+/** 编辑器只用上下文创建缓冲区，离线上下文即可 */
+function createEditor(buffer: AudioBuffer): WAAudioEditor {
+  const context = new OfflineAudioContext(buffer.numberOfChannels, 1, buffer.sampleRate);
+  return new WAAudioEditor(context as unknown as AudioContext, buffer);
+}
+
+/**
+ * 997Hz 正弦（-23 LUFS），每 0.5 秒有 5ms 放大 5 倍的尖峰
+ * 
+ * 尖峰只让响度升高约 1 LU，但决定了真峰值（约 -6 dBTP）
+ */
+function createSpiky(context: BaseAudioContext): AudioBuffer {
+  const buffer = createSine(context, 997, 3, 0.1);
+  const data = buffer.getChannelData(0);
+  const spike = Math.round(SAMPLE_RATE * 0.005);
+  for (let start = SAMPLE_RATE / 4; start < data.length; start += SAMPLE_RATE / 2) {
+    for (let i = start; i < start + spike; i++) {
+      data[i] *= 5;
+    }
+  }
+  return buffer;
+}
+
+describe('WAAudioEditor.normalizeLoudness', () => {
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  const input = createSpiky(context);
+  
+  it('hits the target loudness with a plain gain', () => {
+    const editor = createEditor(input);
+    const result = editor.normalizeLoudness({ target: -20 })!;
+    
+    expect(result.limited).toBe(false);
+    expect(Math.abs(result.after.integrated + 20)).toBeLessThan(0.1);
+    expect(Math.abs(editor.measureLoudness().integrated + 20)).toBeLessThan(0.1);
+  });
+  
+  it('limits true peaks above the ceiling and still hits the target', () => {
+    const editor = createEditor(input);
+    const result = editor.normalizeLoudness({ target: -16, truePeakCeiling: -1 })!;
+    
+    // 尖峰 +7dB 后超出上限
+    expect(result.before.truePeak + 7).toBeGreaterThan(-1);
+    expect(result.limited).toBe(true);
+    expect(result.gainReduction).toBeGreaterThan(0);
+    expect(Math.abs(result.after.integrated + 16)).toBeLessThan(0.1);
+    expect(result.after.truePeak).toBeLessThanOrEqual(-1);
+    expect(editor.measureLoudness().truePeak).toBeLessThanOrEqual(-1);
+  });
+  
+  it('lowers the gain instead of limiting with limit: false', () => {
+    const editor = createEditor(input);
+    const result = editor.normalizeLoudness({ target: -16, truePeakCeiling: -1, limit: false })!;
+    
+    const overshoot = result.before.truePeak + (-16 - result.before.integrated) + 1;
+    expect(result.limited).toBe(false);
+    expect(result.gain).toBeCloseTo(-16 - result.before.integrated - overshoot, 5);
+    expect(result.after.truePeak).toBeCloseTo(-1, 1);
+    expect(result.after.integrated).toBeCloseTo(-16 - overshoot, 1);
+  });
+  
+  it('restores the original samples on undo', () => {
+    const editor = createEditor(input);
+    editor.normalizeLoudness({ target: -16, truePeakCeiling: -1 });
+    expect(editor.undo()).toBe(true);
+    expect(editor.buffer.getChannelData(0)).toEqual(input.getChannelData(0));
+    
+    // 静音不处理
+    const silent = createEditor(context.createBuffer(1, SAMPLE_RATE, SAMPLE_RATE));
+    expect(silent.normalizeLoudness()).toBeNull();
+  });
+});
+
+/** 0.1 秒的缓冲区，各声道为互不相同的斜坡，便于定位样本 */
+function createRamp(context: BaseAudioContext, channels: number = 1): AudioBuffer {
+  const length = SAMPLE_RATE / 10;
+  const buffer = context.createBuffer(channels, length, SAMPLE_RATE);
+  for (let channel = 0; channel < channels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = (channel % 2 === 0 ? 1 : -1) * (i + 1) / (length * (channel + 1));
+    }
+  }
+  return buffer;
+}
+
+/** 秒 → 样本（与编辑器的取整一致） */
+function at(seconds: number): number {
+  return Math.floor(seconds * SAMPLE_RATE);
+}
+
+/** 缓冲区一个声道的样本 */
+function samples(buffer: AudioBuffer, channel: number = 0): number[] {
+  return Array.from(buffer.getChannelData(channel));
+}
+
+/** 逐样本比较（允许 32 位浮点的舍入误差） */
+function expectSamples(actual: AudioBuffer, expected: number[], channel: number = 0): void {
+  const data = actual.getChannelData(channel);
+  expect(data.length).toBe(expected.length);
+  let error = 0;
+  for (let i = 0; i < data.length; i++) {
+    error = Math.max(error, Math.abs(data[i] - expected[i]));
+  }
+  expect(error).toBeLessThan(1e-6);
+}
+
+describe('WAAudioEditor edit list', () => {
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  const input = createRamp(context);
+  const original = samples(input);
+  
+  it('cuts, pastes and trims', () => {
+    const editor = createEditor(input);
+    
+    const clip = editor.cut(0.02, 0.04)!;
+    expect(samples(clip)).toEqual(original.slice(at(0.02), at(0.04)));
+    let expected = [...original.slice(0, at(0.02)), ...original.slice(at(0.04))];
+    expectSamples(editor.render(), expected);
+    
+    // 粘贴覆盖原有内容
+    editor.paste(0.01, clip);
+    expected = [...expected.slice(0, at(0.01)), ...samples(clip), ...expected.slice(at(0.01) + clip.length)];
+    expectSamples(editor.render(), expected);
+    
+    editor.trim(0.005, 0.05);
+    expected = expected.slice(at(0.005), at(0.05));
+    expectSamples(editor.render(), expected);
+    expect(editor.length).toBe(expected.length);
+  });
+  
+  it('extends the buffer when pasting past the end', () => {
+    const editor = createEditor(input);
+    const clip = editor.copy(0, 0.03)!;
+    
+    editor.paste(0.09, clip);
+    const expected = [...original.slice(0, at(0.09)), ...samples(clip)];
+    expectSamples(editor.render(), expected);
+    expect(editor.length).toBe(at(0.09) + clip.length);
+  });
+  
+  it('reverses across several segments after a fade', () => {
+    const editor = createEditor(input);
+    
+    // 粘贴把编辑列表分成多个片段
+    editor.paste(0.03, editor.copy(0.06, 0.08)!);
+    expect(editor.editList.length).toBe(3);
+    let expected = [...original];
+    expected.splice(at(0.03), at(0.08) - at(0.06), ...original.slice(at(0.06), at(0.08)));
+    
+    editor.fadeIn(0.01, 0.04);
+    const fadeStart = at(0.01);
+    const fadeLength = at(0.05) - fadeStart;
+    for (let i = 0; i < fadeLength; i++) {
+      expected[fadeStart + i] *= i / fadeLength;
+    }
+    expectSamples(editor.render(), expected);
+    
+    const faded = [...expected];
+    editor.reverse(0.02, 0.07);
+    expected = [
+      ...faded.slice(0, at(0.02)),
+      ...faded.slice(at(0.02), at(0.07)).reverse(),
+      ...faded.slice(at(0.07))
+    ];
+    expectSamples(editor.render(), expected);
+    
+    // 再次反转回到原样
+    editor.reverse(0.02, 0.07);
+    expectSamples(editor.render(), faded);
+  });
+  
+  it('round-trips undo and redo to the same samples', () => {
+    const editor = createEditor(input);
+    editor.cut(0.01, 0.02);
+    editor.fadeOut(0.05, 0.02);
+    editor.reverse(0, 0.04);
+    editor.silence(0.07, 0.08);
+    const edited = samples(editor.render());
+    
+    while (editor.undo());
+    expectSamples(editor.render(), original);
+    
+    while (editor.redo());
+    expectSamples(editor.render(), edited);
+  });
+});
+
+describe('WAAudioEditor history', () => {
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  const input = createRamp(context);
+  
+  /** 单声道缓冲区占用的字节数 */
+  const bytes = (length: number) => length * Float32Array.BYTES_PER_ELEMENT;
+  
+  /** 依次粘贴覆盖全部内容，每次都引入新的源缓冲区 */
+  const pasteOver = (editor: WAAudioEditor, count: number) => {
+    for (let i = 1; i <= count; i++) {
+      editor.paste(0, createSine(context, 441, 0.1 + i * 0.01));
+    }
+  };
+  
+  it('labels entries by operation and range', () => {
+    const editor = createEditor(input);
+    editor.cut(0.01, 0.02);
+    editor.fadeIn(0, 0.03, 'sigmoid');
+    editor.gain(-3);
+    editor.normalize(-1);
+    editor.reverse(0.02, 0.04);
+    
+    expect(editor.getHistory().map(entry => entry.label)).toEqual([
+      '剪切 0:00.01–0:00.02',
+      '淡入 0:00.00–0:00.03',
+      '增益 -3.0dB',
+      '归一化 -1dB',
+      '反转 0:00.02–0:00.04'
+    ]);
+  });
+  
+  it('moves across several entries with goTo', () => {
+    const editor = createEditor(input);
+    const states = [samples(editor.render())];
+    editor.cut(0.01, 0.02);
+    states.push(samples(editor.render()));
+    editor.fadeOut(0.02, 0.03);
+    states.push(samples(editor.render()));
+    editor.reverse(0, 0.05);
+    states.push(samples(editor.render()));
+    editor.gain(6);
+    states.push(samples(editor.render()));
+    
+    expect(editor.goTo(1)).toBe(true);
+    expectSamples(editor.render(), states[1]);
+    expect(editor.getHistory().map(entry => entry.applied)).toEqual([true, false, false, false]);
+    
+    expect(editor.goTo(4)).toBe(true);
+    expectSamples(editor.render(), states[4]);
+    expect(editor.goTo(0)).toBe(true);
+    expectSamples(editor.render(), states[0]);
+    expect(editor.goTo(3)).toBe(true);
+    expectSamples(editor.render(), states[3]);
+    expect([editor.undoSteps, editor.redoSteps]).toEqual([3, 1]);
+    
+    expect(editor.goTo(-1)).toBe(false);
+    expect(editor.goTo(5)).toBe(false);
+    expect(editor.undoSteps).toBe(3);
+  });
+  
+  it('does not count sources the current state still uses', () => {
+    const editor = createEditor(input);
+    
+    // 只改包络，源缓冲区仍在当前状态中
+    editor.fadeIn(0, 0.05);
+    editor.gain(-6);
+    expect(editor.historyBytes).toBeLessThan(1024);
+    expect(editor.historyBytes).toBe(editor.getHistory().reduce((sum, entry) => sum + entry.bytes, 0));
+    
+    // 覆盖后原缓冲区只被历史引用
+    pasteOver(editor, 1);
+    expect(editor.historyBytes).toBeGreaterThanOrEqual(bytes(input.length));
+    expect(editor.historyBytes).toBeLessThan(bytes(input.length) + 1024);
+    
+    // 撤销后原缓冲区回到当前状态，改为计入粘贴的缓冲区
+    editor.undo();
+    const pasted = Math.round(0.11 * SAMPLE_RATE);
+    expect(editor.historyBytes).toBeGreaterThanOrEqual(bytes(pasted));
+    expect(editor.historyBytes).toBeLessThan(bytes(pasted) + 1024);
+  });
+  
+  it('evicts the oldest undo entries first, then the furthest redo entries', () => {
+    const editor = createEditor(input);
+    pasteOver(editor, 3);
+    const labels = editor.getHistory().map(entry => entry.label);
+    
+    // 回到第 1 步：撤销 1 条（原缓冲区），重做 2 条（第 2、3 次粘贴）
+    editor.goTo(1);
+    const redo = bytes(Math.round(0.12 * SAMPLE_RATE)) + bytes(Math.round(0.13 * SAMPLE_RATE));
+    editor.setHistoryBudget(redo + 1024);
+    expect([editor.undoSteps, editor.redoSteps]).toEqual([0, 2]);
+    expect(editor.getHistory().map(entry => entry.label)).toEqual(labels.slice(1));
+    
+    // 只剩重做记录时从最远处丢弃
+    editor.setHistoryBudget(bytes(Math.round(0.12 * SAMPLE_RATE)) + 1024);
+    expect([editor.undoSteps, editor.redoSteps]).toEqual([0, 1]);
+    expect(editor.getHistory().map(entry => entry.label)).toEqual(labels.slice(1, 2));
+    
+    editor.setHistoryBudget(0);
+    expect(editor.getHistory()).toEqual([]);
+    expect(editor.historyBytes).toBe(0);
+  });
+});
+
+describe('WAAudioEditor splicing', () => {
+  const context = new OfflineAudioContext(2, 1, SAMPLE_RATE);
+  
+  /** 441Hz 正弦，一个周期 100 个样本 */
+  const input = createSine(context, 441, 0.1);
+  const original = samples(input);
+  
+  /** 相邻样本的最大跳变 */
+  const maxStep = (data: Float32Array) => {
+    let step = 0;
+    for (let i = 1; i < data.length; i++) {
+      step = Math.max(step, Math.abs(data[i] - data[i - 1]));
+    }
+    return step;
+  };
+  
+  /** 剪切内容在原缓冲区 [from, to] 中的起点 */
+  const locate = (clip: AudioBuffer, source: Float32Array, from: number, to: number) => {
+    const data = clip.getChannelData(0);
+    for (let i = from; i <= to; i++) {
+      if (data.every((value, k) => value === source[i + k])) return i;
+    }
+    return -1;
+  };
+  
+  /** 吸附搜索半径（1ms） */
+  const radius = Math.round(SAMPLE_RATE * 0.001);
+  
+  it('shortens the buffer by exactly the deleted range with a crossfade', () => {
+    const editor = createEditor(input);
+    editor.setSpliceOptions({ crossfade: 0.005 });
+    
+    // 删除 51 个样本，前后半个周期反相
+    editor.delete(0.02, 0.02 + 51 / SAMPLE_RATE);
+    expect(editor.length).toBe(input.length - 51);
+    
+    // 交叉淡化区外不变
+    const output = samples(editor.render());
+    const half = Math.floor(SAMPLE_RATE * 0.005 / 2);
+    expect(output.slice(0, at(0.02) - half)).toEqual(original.slice(0, at(0.02) - half));
+    expect(output.slice(at(0.02) + half)).toEqual(original.slice(at(0.02) + 51 + half));
+  });
+  
+  it('leaves no step at the seam', () => {
+    const step = maxStep(input.getChannelData(0));
+    
+    const hard = createEditor(input);
+    hard.delete(0.02, 0.02 + 51 / SAMPLE_RATE);
+    expect(maxStep(hard.render().getChannelData(0))).toBeGreaterThan(step * 5);
+    
+    const faded = createEditor(input);
+    faded.setSpliceOptions({ crossfade: 0.005 });
+    faded.delete(0.02, 0.02 + 51 / SAMPLE_RATE);
+    expect(maxStep(faded.render().getChannelData(0))).toBeLessThan(step * 1.2);
+  });
+  
+  it('snaps the splice points to sign changes in channel mode', () => {
+    const editor = createEditor(input);
+    editor.setSpliceOptions({ snap: 'channel', snapWindow: 0.001 });
+    
+    // 两端都在波峰附近
+    const from = at(0.02) + 25;
+    const to = at(0.05) + 25;
+    const clip = editor.cut(from / SAMPLE_RATE, to / SAMPLE_RATE)!;
+    const start = locate(clip, input.getChannelData(0), from - radius, from + radius);
+    const end = start + clip.length;
+    
+    expect(start).not.toBe(-1);
+    expect(Math.abs(end - to)).toBeLessThanOrEqual(radius);
+    for (const point of [start, end]) {
+      expect(Math.sign(original[point - 1]) !== Math.sign(original[point]) || original[point] === 0).toBe(true);
+    }
+    expect(editor.length).toBe(input.length - clip.length);
+  });
+  
+  it('snaps to the quietest point across channels in joint mode', () => {
+    // 两个声道相位差 90°：联合最小值不在任一声道的过零点上
+    const stereo = context.createBuffer(2, input.length, SAMPLE_RATE);
+    const left = stereo.getChannelData(0);
+    const right = stereo.getChannelData(1);
+    left.set(input.getChannelData(0));
+    right.set(left.map((_, i) => 0.5 * Math.cos(2 * Math.PI * 441 * i / SAMPLE_RATE)));
+    const score = (i: number) => Math.abs(left[i - 1]) + Math.abs(left[i]) + Math.abs(right[i - 1]) + Math.abs(right[i]);
+    
+    const editor = createEditor(stereo);
+    editor.setSpliceOptions({ snap: 'joint', snapWindow: 0.001 });
+    const from = at(0.02) + 10;
+    const to = at(0.05) + 30;
+    const clip = editor.cut(from / SAMPLE_RATE, to / SAMPLE_RATE)!;
+    const start = locate(clip, left, from - radius, from + radius);
+    const end = start + clip.length;
+    
+    expect(start).not.toBe(-1);
+    expect(Math.abs(end - to)).toBeLessThanOrEqual(radius);
+    for (let i = -radius; i <= radius; i++) {
+      expect(score(start)).toBeLessThanOrEqual(score(from + i));
+      expect(score(end)).toBeLessThanOrEqual(score(to + i));
+    }
+    expect(samples(clip, 1)).toEqual(Array.from(right.subarray(start, end)));
+  });
+});
+
+describe('WAAudioEditor.applyEffect', () => {
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  const input = createBoostInput(context, 1.5);
+  const dry = input.getChannelData(0);
+  const start = SAMPLE_RATE * 0.5;
+  const end = SAMPLE_RATE;
+  
+  it('renders an effect over the selection only', async () => {
+    const editor = createEditor(input);
+    await editor.applyEffect(0.5, 1, createBoostEQ(context));
+    
+    const output = editor.render().getChannelData(0);
+    expect(output.length).toBe(dry.length);
+    
+    // 选区外不变
+    for (let i = 0; i < start; i += 101) {
+      expect(output[i]).toBe(dry[i]);
+    }
+    for (let i = end; i < dry.length; i += 101) {
+      expect(output[i]).toBe(dry[i]);
+    }
+    
+    expectBoosted(output, { from: start + 4410, to: end });
+    
+    expect(editor.getHistory()[0].label).toMatch(/^效果 eq/);
+    editor.undo();
+    expect(editor.render().getChannelData(0)[start + 4410]).toBe(dry[start + 4410]);
+  });
+  
+  it('applies an effect chain and blends with the dry signal', async () => {
+    const editor = createEditor(input);
+    const chain = new WAAudioEffectChain(context).add('eq', createBoostEQ(context));
+    await editor.applyEffect(0.5, 1, chain, { mix: 0 });
+    
+    const output = editor.render().getChannelData(0);
+    for (let i = start; i < end; i += 101) {
+      expect(output[i]).toBeCloseTo(dry[i], 6);
+    }
+  });
+});
+
+describe('WAAudioEditor silence', () => {
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  
+  /**
+   * 441Hz 正弦（每个 10ms 分析窗口正好 10 个周期）
+   * 
+   * 0–0.6 静音，1.0–1.8 为 -40dB 的弱信号，2.0–2.3 短停顿，2.5 之后静音
+   */
+  const input = createSteps(context, 441, [
+    [0, 0.6], [0.5, 0.4], [0.014, 0.8], [0.5, 0.2], [0, 0.3], [0.5, 0.2], [0, 0.7]
+  ]);
+  const original = samples(input);
+  
+  /** 比较区间（秒，允许浮点误差） */
+  const expectRanges = (actual: { start: number; end: number }[], expected: [number, number][]) => {
+    expect(actual.map(range => [range.start, range.end])).toEqual(
+      expected.map(([start, end]) => [expect.closeTo(start, 6), expect.closeTo(end, 6)])
+    );
+  };
+  
+  it('detects silence below the threshold', () => {
+    const editor = createEditor(input);
+    
+    // 开头与结尾的静音不加余量
+    expectRanges(editor.detectSilence(), [[0, 0.5], [2.6, 3.2]]);
+    expectRanges(editor.detectSilence({ threshold: -30 }), [[0, 0.5], [1.1, 1.7], [2.6, 3.2]]);
+  });
+  
+  it('skips pauses shorter than minDuration', () => {
+    const editor = createEditor(input);
+    expectRanges(editor.detectSilence({ threshold: -30, minDuration: 0.2 }), [
+      [0, 0.5], [1.1, 1.7], [2.1, 2.2], [2.6, 3.2]
+    ]);
+    expectRanges(editor.detectSilence({ threshold: -30, minDuration: 0.7 }), [[1.1, 1.7], [2.6, 3.2]]);
+  });
+  
+  it('keeps padding next to sound only', () => {
+    const editor = createEditor(input);
+    expectRanges(editor.detectSilence({ threshold: -30, padding: 0 }), [[0, 0.6], [1, 1.8], [2.5, 3.2]]);
+    
+    // 余量超过静音一半时该处不再视为静音
+    expectRanges(editor.detectSilence({ threshold: -30, padding: 0.45 }), [[0, 0.15], [2.95, 3.2]]);
+  });
+  
+  it('strips silence in one undoable step', () => {
+    const editor = createEditor(input);
+    const silences = editor.detectSilence({ threshold: -30 });
+    
+    expect(editor.stripSilence({ threshold: -30 })).toBeCloseTo(1.7, 4);
+    const expected = [
+      ...original.slice(at(silences[0].end), at(silences[1].start)),
+      ...original.slice(at(silences[1].end), at(silences[2].start))
+    ];
+    expectSamples(editor.render(), expected);
+    expect(editor.getHistory().map(entry => entry.label)).toEqual(['删除静音 (3 处)']);
+    
+    editor.undo();
+    expectSamples(editor.render(), original);
+  });
+  
+  it('shortens silence to maxDuration', () => {
+    const editor = createEditor(input);
+    
+    // 各处静音保留前后各 0.2 秒：开头 0.5 → 0.4，中间 0.6 → 0.4，结尾 0.6 → 0.4
+    expect(editor.stripSilence({ threshold: -30, maxDuration: 0.4 })).toBeCloseTo(0.5, 4);
+    expect(Math.abs(editor.length - (input.length - SAMPLE_RATE / 2))).toBeLessThanOrEqual(3);
+    expectRanges(editor.detectSilence({ threshold: -30, padding: 0, minDuration: 0.2 }), [
+      [0, 0.5], [0.9, 1.5], [1.7, 2.0], [2.2, 2.7]
+    ]);
+    expect(editor.getHistory()[0].label).toBe('缩短静音 (3 处)');
+  });
+  
+  it('finds and marks the sound regions between silences', () => {
+    const editor = createEditor(input);
+    expectRanges(editor.findSoundRegions(), [[0.5, 2.6]]);
+    expectRanges(editor.findSoundRegions({ threshold: -30 }), [[0.5, 1.1], [1.7, 2.6]]);
+    expect(editor.splitOnSilence({ threshold: -30 }).map(buffer => buffer.length)).toEqual([
+      at(1.1) - at(0.5), at(2.6) - at(1.7)
+    ]);
+    
+    const markers = new WAAudioMarkers(editor.duration);
+    const regions = editor.markSoundRegions(markers, { threshold: -30 }, '句子');
+    expect(markers.count).toBe(4);
+    expect(regions.map(region => [region.start.name, region.end?.name])).toEqual([
+      ['句子 1', '句子 1 结束'],
+      ['句子 2', '句子 2 结束']
+    ]);
+    expectRanges(regions.map(region => ({ start: region.start.time, end: region.end!.time })), [[0.5, 1.1], [1.7, 2.6]]);
+  });
+});
+
+describe('WAAudioEditor channel operations', () => {
+  const context = new OfflineAudioContext(2, 1, SAMPLE_RATE);
+  const input = createRamp(context, 2);
+  const left = samples(input, 0);
+  const right = samples(input, 1);
+  
+  it('downmixes to mono under each law', () => {
+    const laws = { average: 0.5, 'equal-power': Math.SQRT1_2, sum: 1 } as const;
+    for (const [law, weight] of Object.entries(laws)) {
+      const editor = createEditor(input);
+      editor.toMono(law as keyof typeof laws);
+      expect(editor.numberOfChannels).toBe(1);
+      expectSamples(editor.render(), left.map((value, i) => (value + right[i]) * weight));
+    }
+  });
+  
+  it('upmixes mono by copying or at equal power', () => {
+    const editor = createEditor(input);
+    editor.extractChannel(1);
+    expect(editor.numberOfChannels).toBe(1);
+    expectSamples(editor.render(), right);
+    
+    editor.upmix(2);
+    expectSamples(editor.render(), right, 0);
+    expectSamples(editor.render(), right, 1);
+    expect(() => editor.upmix(2)).toThrow('只能从单声道升混');
+    
+    editor.undo();
+    editor.upmix(2, 'equal-power');
+    expectSamples(editor.render(), right.map(value => value * Math.SQRT1_2), 1);
+  });
+  
+  it('swaps channels and inverts polarity', () => {
+    const editor = createEditor(input);
+    editor.swapChannels();
+    expectSamples(editor.render(), right, 0);
+    expectSamples(editor.render(), left, 1);
+    
+    editor.invertPolarity([1]);
+    expectSamples(editor.render(), right, 0);
+    expectSamples(editor.render(), left.map(value => -value), 1);
+    
+    expect(() => editor.invertPolarity([2])).toThrow('声道不存在: 2');
+    expect(() => editor.extractChannel(-1)).toThrow('声道不存在: -1');
+  });
+  
+  it('round-trips through mid/side', () => {
+    const editor = createEditor(input);
+    editor.cut(0.02, 0.03);
+    const cut = [0, 1].map(channel => samples(editor.render(), channel));
+    
+    editor.toMidSide();
+    expectSamples(editor.render(), cut[0].map((value, i) => (value + cut[1][i]) / 2), 0);
+    expectSamples(editor.render(), cut[0].map((value, i) => (value - cut[1][i]) / 2), 1);
+    
+    editor.fromMidSide();
+    expectSamples(editor.render(), cut[0], 0);
+    expectSamples(editor.render(), cut[1], 1);
+  });
+  
+  it('restores the channel count on undo', () => {
+    const editor = createEditor(input);
+    editor.toMono();
+    expect(editor.render().numberOfChannels).toBe(1);
+    
+    editor.undo();
+    expect(editor.numberOfChannels).toBe(2);
+    expect(editor.render().numberOfChannels).toBe(2);
+    expectSamples(editor.render(), left, 0);
+    expectSamples(editor.render(), right, 1);
+    
+    editor.redo();
+    expect(editor.numberOfChannels).toBe(1);
+  });
+  
+  it('downmixes a stereo paste after converting to mono', () => {
+    const editor = createEditor(input);
+    const clip = editor.copy(0.05, 0.07)!;
+    editor.toMono();
+    editor.paste(0.01, clip);
+    
+    const mono = left.map((value, i) => (value + right[i]) / 2);
+    const pasted = samples(clip, 0).map((value, i) => (value + clip.getChannelData(1)[i]) / 2);
+    mono.splice(at(0.01), clip.length, ...pasted);
+    expect(editor.render().numberOfChannels).toBe(1);
+    expectSamples(editor.render(), mono);
+    
+    // 撤销粘贴与缩混后回到立体声
+    editor.goTo(0);
+    expect(editor.render().numberOfChannels).toBe(2);
+  });
+});
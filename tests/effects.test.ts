@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { WAAudioEQ, WAAudioDelay, WAAudioReverb, WAAudioEffectChain } from '../src/core/effects';
+import { SAMPLE_RATE, BOOST_AMPLITUDE, createBoostInput, createBoostEQ, expectBoosted, peak, renderThrough } from './helpers';
+
+describe('WAAudioEffectBase', () => {
+  it('exposes input and output nodes', () => {
+    const context = new OfflineAudioContext(1, 128, SAMPLE_RATE);
+    const eq = new WAAudioEQ(context);
+    expect(eq.input).toBeDefined();
+    expect(eq.output).toBeDefined();
+    expect(eq.input).not.toBe(eq.output);
+  });
+});
+
+describe('WAAudioEffectChain', () => {
+  const input = createBoostInput(new OfflineAudioContext(1, 1, SAMPLE_RATE), 0.2);
+  
+  it('routes the signal through an added effect', async () => {
+    const output = await renderThrough(input, context => {
+      const chain = new WAAudioEffectChain(context);
+      chain.add('eq', createBoostEQ(context));
+      return chain;
+    });
+    expectBoosted(output.getChannelData(0));
+  });
+  
+  it('passes the signal through unchanged when empty or after removing effects', async () => {
+    for (const build of [
+      (context: OfflineAudioContext) => new WAAudioEffectChain(context),
+      (context: OfflineAudioContext) => new WAAudioEffectChain(context)
+        .add('eq', createBoostEQ(context))
+        .add('eq2', new WAAudioEQ(context).setHigh(-12))
+        .remove('eq')
+        .remove('eq2')
+    ]) {
+      const output = (await renderThrough(input, build)).getChannelData(0);
+      const dry = input.getChannelData(0);
+      for (let i = 0; i < dry.length; i += 97) {
+        expect(output[i]).toBeCloseTo(dry[i], 5);
+      }
+    }
+  });
+  
+  it('keeps effects in order after moving and clones into another context', async () => {
+    const source = new OfflineAudioContext(1, 128, SAMPLE_RATE);
+    const chain = new WAAudioEffectChain(source)
+      .add('a', createBoostEQ(source))
+      .add('b', new WAAudioEQ(source).setMid(6))
+      .move('b', 0);
+    expect(chain.ids).toEqual(['b', 'a']);
+    
+    const output = await renderThrough(input, context => chain.clone(context));
+    expect(peak(output.getChannelData(0), 4410) / BOOST_AMPLITUDE).toBeGreaterThan(3.5);
+  });
+  
+  it('bypasses a disabled effect', async () => {
+    const output = await renderThrough(input, context => new WAAudioEffectChain(context)
+      .add('eq', createBoostEQ(context).setEnabled(false)));
+    expect(peak(output.getChannelData(0), 4410)).toBeCloseTo(BOOST_AMPLITUDE, 3);
+  });
+});
+
+describe('WAAudioDelay / WAAudioReverb mix', () => {
+  // 默认延迟时间 0.3 秒
+  const input = createBoostInput(new OfflineAudioContext(1, 1, SAMPLE_RATE), 0.5);
+  const echo = SAMPLE_RATE * 0.3;
+  
+  it('has no dry signal when fully wet', async () => {
+    const output = await renderThrough(input, context => new WAAudioDelay(context).setDryWet(1));
+    const data = output.getChannelData(0);
+    
+    // 延迟到达前没有声音
+    expect(peak(data, 0, echo)).toBe(0);
+    expect(peak(data, echo)).toBeCloseTo(BOOST_AMPLITUDE, 3);
+  });
+  
+  it('keeps the dry signal at the dry/wet ratio', async () => {
+    const output = await renderThrough(input, context => new WAAudioDelay(context).setDryWet(0.3));
+    expect(peak(output.getChannelData(0), 0, echo)).toBeCloseTo(BOOST_AMPLITUDE * 0.7, 3);
+  });
+  
+  it('maps setMix onto the insert dry/wet', () => {
+    const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+    expect(new WAAudioReverb(context).dryWet).toBe(0.3);
+    expect(new WAAudioReverb(context).setMix(0.8).dryWet).toBe(0.8);
+    expect(new WAAudioDelay(context).setMix(1).dryWet).toBe(1);
+  });
+});
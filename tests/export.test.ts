@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { encodeWAV } from '../src/core/export';
+import { resampleChannels } from '../src/core/resampler';
+import { SAMPLE_RATE, createSine, peak } from './helpers';
+
+/** 读取 16 位 PCM WAV 的第一个声道 */
+async function decodeWAV(blob: Blob): Promise<{ sampleRate: number; samples: Int16Array }> {
+  const view = new DataView(await blob.arrayBuffer());
+  const channels = view.getUint16(22, true);
+  const length = view.getUint32(40, true) / 2 / channels;
+  const samples = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = view.getInt16(44 + i * channels * 2, true);
+  }
+  return { sampleRate: view.getUint32(24, true), samples };
+}
+
+describe('encodeWAV', () => {
+  it('clamps resampling overshoot instead of wrapping around', async () => {
+    // 接近满幅的方波，重采样后过冲超出 [-1, 1]
+    const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+    const buffer = createSine(context, 100, 0.1, 1);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = data[i] >= 0 ? 0.99 : -0.99;
+    }
+    
+    const { sampleRate, samples } = await decodeWAV(encodeWAV(buffer, { sampleRate: 48000 }));
+    expect(sampleRate).toBe(48000);
+    
+    const [resampled] = resampleChannels([data], SAMPLE_RATE, 48000);
+    expect(samples.length).toBe(resampled.length);
+    expect(peak(resampled)).toBeGreaterThan(1);
+    
+    // 过冲处贴住满幅，符号与重采样结果一致
+    for (let i = 0; i < samples.length; i++) {
+      if (resampled[i] >= 1) expect(samples[i]).toBe(0x7FFF);
+      if (resampled[i] <= -1) expect(samples[i]).toBe(-0x8000);
+      if (Math.abs(resampled[i]) > 0.01) expect(Math.sign(samples[i])).toBe(Math.sign(resampled[i]));
+    }
+  });
+  
+  it('keeps in-range samples unchanged without resampling', async () => {
+    const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+    const buffer = createSine(context, 440, 0.01, 0.5);
+    const { samples } = await decodeWAV(encodeWAV(buffer));
+    
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) {
+      expect(samples[i]).toBe(Math.trunc(data[i] < 0 ? data[i] * 0x8000 : data[i] * 0x7FFF));
+    }
+  });
+});
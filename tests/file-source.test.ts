@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WAAudioSource } from '../src/core/source/file-source';
+import { WAAudioTimeStretchNode } from '../src/core/time-stretch';
+import { SAMPLE_RATE, createSine } from './helpers';
+
+/** 挂起点落在渲染量子边界上，时间允许一个量子的偏差 */
+const PRECISION = 2;
+
+/**
+ * 在离线上下文中播放，按顺序在指定时刻执行检查
+ * 
+ * 同一时刻只能有一个挂起点，每个挂起点在上一个执行后安排
+ */
+async function playWith(
+  steps: Array<[number, (source: WAAudioSource) => void | Promise<void>]>
+): Promise<void> {
+  const context = new OfflineAudioContext(1, SAMPLE_RATE * 2, SAMPLE_RATE);
+  const source = new WAAudioSource(
+    context as unknown as AudioContext,
+    createSine(context, 440, 4),
+    context.destination
+  );
+  source.play();
+  
+  const errors: unknown[] = [];
+  const next = (index: number) => {
+    if (index >= steps.length) return;
+    const [time, step] = steps[index];
+    context.suspend(time).then(async () => {
+      try {
+        await step(source);
+      } catch (error) {
+        errors.push(error);
+      }
+      next(index + 1);
+      context.resume();
+    });
+  };
+  next(0);
+  
+  await context.startRendering();
+  if (errors.length > 0) throw errors[0];
+}
+
+describe('WAAudioSource position', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+  
+  it('keeps the position across playback rate changes', async () => {
+    await playWith([
+      [0.5, (source) => {
+        expect(source.currentTime).toBeCloseTo(0.5, PRECISION);
+        source.setPlaybackRate(2);
+        expect(source.currentTime).toBeCloseTo(0.5, PRECISION);
+      }],
+      [1, (source) => {
+        // 0.5 秒 × 2 倍速
+        expect(source.currentTime).toBeCloseTo(1.5, PRECISION);
+      }]
+    ]);
+  });
+  
+  it('keeps the position when switching preserve pitch while playing', async () => {
+    const start = vi.fn();
+    vi.spyOn(WAAudioTimeStretchNode, 'create').mockResolvedValue({
+      connect: () => {},
+      setLoop() { return this; },
+      start,
+      stop: () => {},
+      setRate() { return this; },
+      dispose: () => {},
+      set onEnded(_callback: (() => void) | null) {}
+    } as unknown as WAAudioTimeStretchNode);
+    
+    await playWith([
+      [0.5, async (source) => {
+        source.setPlaybackRate(0.5);
+        await source.setPreservePitch(true);
+        expect(source.preservePitch).toBe(true);
+        expect(source.currentTime).toBeCloseTo(0.5, PRECISION);
+        expect(start.mock.calls[0][0]).toBeCloseTo(0.5, PRECISION);
+      }],
+      [1, async (source) => {
+        // 0.5 秒 × 0.5 倍速
+        expect(source.currentTime).toBeCloseTo(0.75, PRECISION);
+        await source.setPreservePitch(false);
+        expect(source.currentTime).toBeCloseTo(0.75, PRECISION);
+      }]
+    ]);
+  });
+  
+  it('resumes from the paused or seeked position', async () => {
+    await playWith([
+      [0.5, (source) => {
+        source.pause();
+        expect(source.currentTime).toBeCloseTo(0.5, PRECISION);
+      }],
+      [1, (source) => {
+        source.play();
+        expect(source.currentTime).toBeCloseTo(0.5, PRECISION);
+        source.seek(3);
+        expect(source.currentTime).toBe(3);
+      }],
+      [1.5, (source) => {
+        expect(source.currentTime).toBeCloseTo(3.5, PRECISION);
+      }]
+    ]);
+  });
+});
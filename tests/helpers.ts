@@ -0,0 +1,114 @@
+/**
+ * 测试工具函数
+ */
+
+import { expect } from 'vitest';
+import { WAAudioEQ } from '../src/core/effects';
+
+/** 采样率 */
+export const SAMPLE_RATE = 44100;
+
+/** 生成正弦波缓冲区（各声道相同） */
+export function createSine(
+  context: BaseAudioContext,
+  frequency: number,
+  duration: number,
+  amplitude: number = 0.5,
+  channels: number = 1
+): AudioBuffer {
+  const length = Math.round(duration * context.sampleRate);
+  const buffer = context.createBuffer(channels, length, context.sampleRate);
+  for (let channel = 0; channel < channels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / context.sampleRate);
+    }
+  }
+  return buffer;
+}
+
+/**
+ * 按段改变幅度的正弦波（单声道或各声道相同）
+ * 
+ * @param segments - [幅度, 时长（秒）] 列表，相位在段间连续
+ */
+export function createSteps(
+  context: BaseAudioContext,
+  frequency: number,
+  segments: Array<[number, number]>,
+  channels: number = 1
+): AudioBuffer {
+  const rate = context.sampleRate;
+  const length = segments.reduce((sum, [, seconds]) => sum + Math.round(seconds * rate), 0);
+  const buffer = context.createBuffer(channels, length, rate);
+  for (let channel = 0; channel < channels; channel++) {
+    const data = buffer.getChannelData(channel);
+    let offset = 0;
+    for (const [amplitude, seconds] of segments) {
+      const end = offset + Math.round(seconds * rate);
+      for (let i = offset; i < end; i++) {
+        data[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / rate);
+      }
+      offset = end;
+    }
+  }
+  return buffer;
+}
+
+/** 低频提升测试信号的幅度 */
+export const BOOST_AMPLITUDE = 0.1;
+
+/**
+ * 低频提升测试信号：50Hz 远低于 EQ 的 320Hz 低频搁架
+ */
+export function createBoostInput(context: BaseAudioContext, duration: number): AudioBuffer {
+  return createSine(context, 50, duration, BOOST_AMPLITUDE);
+}
+
+/** 低频 +12dB 的 EQ */
+export function createBoostEQ(context: BaseAudioContext): WAAudioEQ {
+  return new WAAudioEQ(context as AudioContext).setLow(12);
+}
+
+/**
+ * 断言低频提升测试信号经过了 createBoostEQ（增益接近 +12dB）
+ * 
+ * @param from - 起始采样（跳过滤波器起振）
+ * @param scale - 路径上的其他增益（音量、声像等）
+ */
+export function expectBoosted(
+  data: Float32Array,
+  { from = 4410, to = data.length, scale = 1 }: { from?: number; to?: number; scale?: number } = {}
+): void {
+  const gain = peak(data, from, to) / BOOST_AMPLITUDE / scale;
+  expect(gain).toBeGreaterThan(3.5);
+  expect(gain).toBeLessThan(4.1);
+}
+
+/** [from, to) 内的最大绝对值 */
+export function peak(data: Float32Array, from: number = 0, to: number = data.length): number {
+  let max = 0;
+  for (let i = from; i < to; i++) {
+    max = Math.max(max, Math.abs(data[i]));
+  }
+  return max;
+}
+
+/**
+ * 让缓冲区经过 input → output 离线渲染
+ *
+ * @param build - 在离线上下文中创建处理链，返回其输入与输出
+ */
+export async function renderThrough(
+  buffer: AudioBuffer,
+  build: (context: OfflineAudioContext) => { input: AudioNode; output: AudioNode }
+): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  const { input, output } = build(context);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(input);
+  output.connect(context.destination);
+  source.start(0);
+  return context.startRendering();
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { calibrateLatency, getRecordingLatency } from '../src/core/latency';
+import { WAAudioCapture } from '../src/core/capture';
+import { SAMPLE_RATE } from './helpers';
+
+/**
+ * 离线上下文没有 AudioWorklet：采集器替身把输入接到输出，停止时渲染并一次送出全部数据
+ * 
+ * 离线上下文开始渲染前不能 resume，替换为空操作
+ */
+function createContext(duration: number): OfflineAudioContext {
+  const context = new OfflineAudioContext(1, Math.round(duration * SAMPLE_RATE), SAMPLE_RATE);
+  Object.assign(context, { resume: async () => {} });
+  
+  const capture = {
+    onData: null as ((channels: Float32Array[]) => void) | null,
+    stopped: false,
+    connect: (node: AudioNode) => node.connect(context.destination),
+    disconnect: () => {},
+    started: async () => 0,
+    async stop() {
+      if (this.stopped) return;
+      this.stopped = true;
+      const rendered = await context.startRendering();
+      this.onData?.([rendered.getChannelData(0)]);
+    }
+  };
+  vi.spyOn(WAAudioCapture, 'create').mockResolvedValue(capture as unknown as WAAudioCapture);
+  return context;
+}
+
+describe('calibrateLatency', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+  
+  it('measures a 12ms loopback within one sample', async () => {
+    const context = createContext(0.5);
+    const result = await calibrateLatency(context as unknown as AudioContext, { loopback: 0.012, window: 0.1 });
+    
+    expect(result.measurements).toHaveLength(3);
+    for (const measurement of result.measurements) {
+      expect(Math.abs(measurement - 0.012)).toBeLessThanOrEqual(1 / SAMPLE_RATE);
+    }
+    expect(Math.abs(result.samples - 0.012 * SAMPLE_RATE)).toBeLessThanOrEqual(1);
+    expect(result.confidence).toBeGreaterThan(0.9);
+    expect(getRecordingLatency(context)).toBe(result.latency);
+  });
+  
+  it('rejects when the pulse does not come back', async () => {
+    const context = createContext(0.5);
+    const options = { input: context.createGain(), output: context.createGain(), window: 0.1, store: false };
+    
+    await expect(calibrateLatency(context as unknown as AudioContext, options)).rejects.toThrow('未检测到测试脉冲');
+    expect(getRecordingLatency(context)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { WAAudioLoudness } from '../src/core/loudness';
+import { createSine, createSteps } from './helpers';
+
+/** 参考信号采样率 */
+const RATE = 48000;
+
+/** -20 dBFS 正弦的幅度 */
+const MINUS_20_DB = 0.1;
+
+/** 997Hz 正弦，按段改变电平 */
+function createTone(segments: Array<[number, number]>): AudioBuffer {
+  return createSteps(new OfflineAudioContext(1, 1, RATE), 997, segments);
+}
+
+describe('WAAudioLoudness.measure', () => {
+  const context = new OfflineAudioContext(1, 1, RATE);
+  
+  it('reads a -20 dBFS 997Hz sine as -23 LUFS in mono and -20 LUFS in stereo', () => {
+    const mono = WAAudioLoudness.measure(createSine(context, 997, 5, MINUS_20_DB));
+    expect(mono.integrated).toBeCloseTo(-23, 1);
+    expect(mono.momentary).toBeCloseTo(-23, 1);
+    expect(mono.shortTerm).toBeCloseTo(-23, 1);
+    
+    const stereo = WAAudioLoudness.measure(createSine(context, 997, 5, MINUS_20_DB, 2));
+    expect(stereo.integrated).toBeCloseTo(-20, 1);
+  });
+  
+  // 跨越电平交界的门限块会略微拉低结果，响亮段取得足够长
+  it('ignores silence below the absolute gate', () => {
+    const result = WAAudioLoudness.measure(createTone([[MINUS_20_DB, 20], [0, 5], [0.00001, 5]]));
+    expect(result.integrated).toBeCloseTo(-23, 1);
+  });
+  
+  it('ignores quiet passages below the relative gate', () => {
+    // -43 LUFS 段高于绝对门限，但比 -23 LUFS 段低 20 LU
+    const result = WAAudioLoudness.measure(createTone([[MINUS_20_DB, 20], [MINUS_20_DB / 10, 5]]));
+    expect(result.integrated).toBeCloseTo(-23, 1);
+    
+    // 相对门限内的段参与平均
+    const mixed = WAAudioLoudness.measure(createTone([[MINUS_20_DB, 5], [MINUS_20_DB / 2, 5]]));
+    expect(mixed.integrated).toBeLessThan(-23.5);
+    expect(mixed.integrated).toBeGreaterThan(-29);
+  });
+  
+  it('measures the loudness range of a two-level signal', () => {
+    // -20 LUFS 与 -30 LUFS 各 10 秒
+    const loud = MINUS_20_DB * Math.pow(10, 3 / 20);
+    const result = WAAudioLoudness.measure(createTone([[loud, 10], [loud / Math.sqrt(10), 10]]));
+    expect(result.range).toBeCloseTo(10, 0);
+    expect(result.shortTermMax).toBeCloseTo(-20, 1);
+    
+    // 恒定电平没有响度范围
+    expect(WAAudioLoudness.measure(createSine(context, 997, 5, MINUS_20_DB)).range).toBeCloseTo(0, 1);
+  });
+});
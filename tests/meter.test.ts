@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WAAudioPeakDetector, WAAudioPeakMeter } from '../src/core/meter';
+import { WAAudioCapture } from '../src/core/capture';
+import { SAMPLE_RATE } from './helpers';
+
+/** 刷新周期的样本数（10ms） */
+const BLOCK = SAMPLE_RATE / 100;
+
+/** 固定电平的块 */
+function block(amplitude: number): Float32Array[] {
+  return [new Float32Array(BLOCK).fill(amplitude)];
+}
+
+/**
+ * 离线上下文没有 AudioWorklet，采集器用替身代替，数据由测试直接送入
+ */
+async function createMeter(
+  options: { holdTime?: number; decayRate?: number; clipLevel?: number } = {}
+): Promise<{ meter: WAAudioPeakMeter; send: (channels: Float32Array[]) => void }> {
+  const capture = {
+    channels: 1,
+    sampleRate: SAMPLE_RATE,
+    onData: null as ((channels: Float32Array[]) => void) | null,
+    connect: () => {},
+    stop: async () => {}
+  };
+  vi.spyOn(WAAudioCapture, 'create').mockResolvedValue(capture as unknown as WAAudioCapture);
+  
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  const meter = await WAAudioPeakMeter.create(context, undefined, { channels: 1, ...options });
+  return { meter, send: (channels) => capture.onData?.(channels) };
+}
+
+describe('WAAudioPeakDetector.measure', () => {
+  it('reads an fs/4 sine at 45° as -3 dB sample peak and 0 dBTP', () => {
+    // 采样点全部落在 ±0.707，波峰在采样点之间
+    const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+    const buffer = context.createBuffer(1, SAMPLE_RATE, SAMPLE_RATE);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.sin(Math.PI / 2 * i + Math.PI / 4);
+    }
+    
+    const [level] = WAAudioPeakDetector.measure(buffer);
+    expect(level.sample).toBeCloseTo(-3.01, 1);
+    expect(Math.abs(level.true)).toBeLessThan(0.3);
+  });
+});
+
+describe('WAAudioPeakMeter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+  
+  it('holds the peak, then decays at the configured rate', async () => {
+    const { meter, send } = await createMeter({ holdTime: 0.05, decayRate: 100 });
+    send(block(0.5));
+    expect(meter.getLevel(0)!.peak).toBeCloseTo(-6.02, 1);
+    
+    // 第一个静音块仍含插值滤波器的余振，从下一块起测量
+    send(block(0));
+    const { level: start, hold } = meter.getLevel(0)!;
+    expect(hold).toBe(meter.getLevel(0)!.maxTruePeak);
+    expect(meter.getLevel(0)!.peak).toBe(-120);
+    
+    // 显示电平每 10ms 下落 1dB，保持值在保持时间内不变
+    send(block(0));
+    send(block(0));
+    expect(meter.getLevel(0)!.level).toBeCloseTo(start - 2, 5);
+    expect(meter.getLevel(0)!.hold).toBe(hold);
+    
+    // 保持时间到后跟随显示电平
+    for (let i = 0; i < 3; i++) send(block(0));
+    const level = meter.getLevel(0)!;
+    expect(level.level).toBeCloseTo(start - 5, 5);
+    expect(level.hold).toBe(level.level);
+    expect(level.maxTruePeak).toBe(hold);
+  });
+  
+  it('counts consecutive clipped samples once', async () => {
+    const { meter, send } = await createMeter({ clipLevel: -6 });
+    
+    // 一段连续削波跨越两个块，计一次
+    send([new Float32Array(BLOCK).fill(0.1).fill(0.9, BLOCK - 10)]);
+    send([new Float32Array(BLOCK).fill(0.9).fill(0.1, 10)]);
+    expect(meter.clips).toBe(1);
+    
+    // 回落后再次削波另计
+    send([new Float32Array(BLOCK).fill(0.1).fill(-0.9, 100, 110).fill(0.9, 200, 201)]);
+    expect(meter.clips).toBe(3);
+    
+    meter.resetClips();
+    expect(meter.getLevel(0)!.clips).toBe(0);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { WAAudioMixer } from '../src/core/engine/mixer';
+import type { WAAudioTrack } from '../src/core/engine/mixer';
+import type { OfflineRenderOptions } from '../src/core/engine/offline-renderer';
+import { SAMPLE_RATE, createSine, createBoostInput, createBoostEQ, expectBoosted, peak } from './helpers';
+
+/** 混音器的实时上下文只用于创建节点，离线上下文即可 */
+function createMixer(): WAAudioMixer {
+  const context = new OfflineAudioContext(2, 1, SAMPLE_RATE);
+  const mixer = new WAAudioMixer(context as unknown as AudioContext);
+  
+  // 主压缩器不参与电平比较
+  mixer.masterCompressor.threshold.value = 0;
+  mixer.masterCompressor.ratio.value = 1;
+  return mixer;
+}
+
+/** 从 0 秒播放各轨道的缓冲区 */
+function playBuffers(buffers: Map<WAAudioTrack, AudioBuffer>, duration: number): OfflineRenderOptions {
+  return {
+    duration,
+    progressInterval: 0.1,
+    schedule: (track, input, context) => {
+      const buffer = buffers.get(track);
+      if (!buffer) return;
+      
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(input);
+      source.start(0);
+    }
+  };
+}
+
+describe('WAAudioOfflineRenderer', () => {
+  it('renders a track through its effects', async () => {
+    const mixer = createMixer();
+    const track = mixer.addTrack({ volume: 1 });
+    track.addEffect(createBoostEQ(mixer.context));
+    
+    const buffers = new Map([[track, createBoostInput(mixer.context, 0.5)]]);
+    const output = await mixer.renderOffline(playBuffers(buffers, 0.5));
+    expect(output.length).toBe(SAMPLE_RATE * 0.5);
+    
+    // 声像居中（等功率 -3dB）
+    expectBoosted(output.getChannelData(0), { scale: Math.SQRT1_2 });
+  });
+  
+  it('reports progress and finishes', async () => {
+    const mixer = createMixer();
+    const track = mixer.addTrack();
+    
+    const buffers = new Map([[track, createSine(mixer.context, 440, 0.5)]]);
+    const renderer = mixer.createOfflineRenderer(playBuffers(buffers, 0.5));
+    const progress: number[] = [];
+    renderer.onProgress = (value) => progress.push(value);
+    
+    await renderer.render();
+    expect(renderer.isRendering).toBe(false);
+    expect(progress.length).toBeGreaterThan(2);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+  
+  it('rejects promptly and stops rendering on cancel', async () => {
+    const mixer = createMixer();
+    const track = mixer.addTrack();
+    
+    const buffers = new Map([[track, createSine(mixer.context, 440, 2)]]);
+    const renderer = mixer.createOfflineRenderer(playBuffers(buffers, 2));
+    const progress: number[] = [];
+    renderer.onProgress = (value) => {
+      progress.push(value);
+      if (progress.length === 2) renderer.cancel();
+    };
+    
+    await expect(renderer.render()).rejects.toThrow('渲染已取消');
+    expect(renderer.isRendering).toBe(false);
+    
+    // 取消后的检查点不再恢复渲染
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(progress).toHaveLength(2);
+  });
+  
+  it('renders sends into a bus through its effects', async () => {
+    const mixer = createMixer();
+    const bus = mixer.addBus('fx');
+    bus.addEffect(createBoostEQ(mixer.context));
+    
+    const track = mixer.addTrack({ volume: 1 });
+    expect(track.setSend('fx', 1)).toBe(true);
+    const buffers = new Map([[track, createBoostInput(mixer.context, 0.5)]]);
+    
+    // 只渲染总线，信号全部来自发送
+    const output = await mixer.renderOffline({ ...playBuffers(buffers, 0.5), buses: [bus] });
+    expectBoosted(output.getChannelData(0), { scale: Math.SQRT1_2 });
+    
+    // 完整混音: 干声 + 总线返回
+    const mix = await mixer.renderOffline(playBuffers(buffers, 0.5));
+    expect(peak(mix.getChannelData(0), 4410)).toBeGreaterThan(peak(output.getChannelData(0), 4410));
+  });
+});
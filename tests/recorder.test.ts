@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WAAudioRecorder, punchReplace } from '../src/core/recorder';
+import { WAAudioCapture } from '../src/core/capture';
+import { SAMPLE_RATE, BOOST_AMPLITUDE, createBoostInput, createBoostEQ, expectBoosted, peak } from './helpers';
+
+/**
+ * 离线上下文没有 AudioWorklet 和 MediaStream，采集器与流目标用替身代替
+ */
+function createContext(duration: number): OfflineAudioContext {
+  const context = new OfflineAudioContext(1, Math.round(duration * SAMPLE_RATE), SAMPLE_RATE);
+  Object.assign(context, {
+    createMediaStreamDestination: () => Object.assign(context.createGain(), { stream: {} })
+  });
+  return context;
+}
+
+/** 以缓冲区作为节点录音源，开启监听并渲染监听输出 */
+async function renderMonitor(
+  setup: (recorder: WAAudioRecorder, context: OfflineAudioContext) => Promise<void>
+): Promise<Float32Array> {
+  const context = createContext(0.5);
+  const source = context.createBufferSource();
+  source.buffer = createBoostInput(context, 0.5);
+  source.start(0);
+  
+  const recorder = new WAAudioRecorder(context as unknown as AudioContext, {
+    source,
+    channels: 1,
+    mimeType: 'audio/webm'
+  });
+  await setup(recorder, context);
+  
+  const output = await context.startRendering();
+  recorder.disarm();
+  return output.getChannelData(0);
+}
+
+describe('punchReplace', () => {
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  
+  /** 恒定值的缓冲区 */
+  const constant = (value: number, length: number) => {
+    const buffer = context.createBuffer(1, length, SAMPLE_RATE);
+    buffer.getChannelData(0).fill(value);
+    return buffer;
+  };
+  
+  it('replaces the range and crossfades both ends inside the take', () => {
+    const target = constant(0, SAMPLE_RATE);
+    const take = constant(1, SAMPLE_RATE / 2);
+    const fade = SAMPLE_RATE * 0.02;
+    const at = SAMPLE_RATE / 4;
+    
+    const output = punchReplace(context, target, take, 0.25, 0.02).getChannelData(0);
+    expect(output.length).toBe(target.length);
+    expect(output[at - 1]).toBe(0);
+    expect(output[at + fade]).toBe(1);
+    expect(output[at + take.length - fade - 1]).toBe(1);
+    expect(output[at + take.length]).toBe(0);
+    
+    // 淡入为等功率曲线，关于淡化区间中点对称
+    for (let k = 0; k < fade / 2; k += 7) {
+      const fadingIn = output[at + fade / 2 + k];
+      const mirrored = output[at + fade / 2 - 1 - k];
+      expect(fadingIn ** 2 + mirrored ** 2).toBeCloseTo(1, 6);
+    }
+    
+    // 原缓冲区不变
+    expect(target.getChannelData(0).every(value => value === 0)).toBe(true);
+  });
+  
+  it('extends the buffer when the take runs past the end', () => {
+    const target = constant(0, SAMPLE_RATE);
+    const take = constant(1, SAMPLE_RATE / 2);
+    
+    const output = punchReplace(context, target, take, 0.75);
+    expect(output.length).toBe(SAMPLE_RATE * 0.75 + take.length);
+    expect(output.getChannelData(0)[output.length - SAMPLE_RATE / 100 - 1]).toBe(1);
+    
+    // 入点早于缓冲区起点时丢弃之前的部分
+    expect(punchReplace(context, target, take, -0.25).length).toBe(target.length);
+    expect(() => punchReplace(context, target, new OfflineAudioContext(1, 1, 48000).createBuffer(1, 10, 48000), 0))
+      .toThrow('采样率不一致');
+  });
+});
+
+describe('WAAudioRecorder monitoring', () => {
+  beforeEach(() => {
+    vi.spyOn(WAAudioCapture, 'create').mockResolvedValue({
+      onData: null,
+      stopped: false,
+      connect: () => {},
+      stop: async () => {}
+    } as unknown as WAAudioCapture);
+    vi.stubGlobal('requestAnimationFrame', () => 0);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+  });
+  
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+  
+  it('monitors the input through its effects', async () => {
+    const data = await renderMonitor(async (recorder, context) => {
+      recorder.monitorEffects.add('eq', createBoostEQ(context));
+      recorder.enableMonitoring({ mix: 1 });
+      await recorder.arm();
+      expect(recorder.monitoring).toBe(true);
+    });
+    expectBoosted(data);
+  });
+  
+  it('reconnects monitoring when enabled while armed', async () => {
+    const data = await renderMonitor(async (recorder, context) => {
+      await recorder.arm();
+      recorder.monitorEffects.add('eq', createBoostEQ(context));
+      recorder.enableMonitoring({ mix: 1, volume: 0.5 });
+    });
+    expectBoosted(data, { scale: 0.5 });
+  });
+  
+  it('passes the direct signal with mix 0', async () => {
+    const data = await renderMonitor(async (recorder, context) => {
+      recorder.monitorEffects.add('eq', createBoostEQ(context));
+      recorder.enableMonitoring({ mix: 0 });
+      await recorder.arm();
+    });
+    expect(peak(data, 4410)).toBeCloseTo(BOOST_AMPLITUDE, 2);
+  });
+});
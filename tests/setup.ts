@@ -0,0 +1,7 @@
+/**
+ * 测试环境 - 用纯 JS 实现的 Web Audio API 提供离线渲染
+ */
+
+import { OfflineAudioContext } from '@descript/web-audio-js';
+
+Object.assign(globalThis, { OfflineAudioContext });
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { WAAudioMixer } from '../src/core/engine/mixer';
+import { WAAudioStemExporter, encodeStems } from '../src/core/engine/stem-exporter';
+import { crc32 } from '../src/core/zip';
+import { SAMPLE_RATE, createSine } from './helpers';
+
+function createMixer(): WAAudioMixer {
+  const context = new OfflineAudioContext(2, 1, SAMPLE_RATE);
+  const mixer = new WAAudioMixer(context as unknown as AudioContext);
+  mixer.addTrack({ name: 'Drums' }).addClip(createSine(mixer.context, 100, 0.1));
+  mixer.addTrack({ name: 'Bass' }).addClip(createSine(mixer.context, 50, 0.1));
+  return mixer;
+}
+
+/** 按中央目录读取 ZIP 中的文件 */
+function readZip(bytes: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054B50);
+  
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const files = new Map<string, Uint8Array>();
+  
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014B50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    
+    expect(view.getUint32(local, true)).toBe(0x04034B50);
+    const start = local + 30 + view.getUint16(local + 26, true);
+    const data = bytes.subarray(start, start + size);
+    expect(crc32(data)).toBe(crc);
+    
+    files.set(name, data);
+    offset += 46 + nameLength;
+  }
+  return files;
+}
+
+describe('WAAudioStemExporter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+  
+  it('bundles every stem as a WAV in one zip', async () => {
+    const stems = await new WAAudioStemExporter(createMixer()).render();
+    const zip = await encodeStems(stems);
+    expect(zip.type).toBe('application/zip');
+    
+    const files = readZip(new Uint8Array(await zip.arrayBuffer()));
+    expect([...files.keys()]).toEqual(['01 - Drums.wav', '02 - Bass.wav']);
+    
+    for (const data of files.values()) {
+      expect(new TextDecoder().decode(data.subarray(0, 4))).toBe('RIFF');
+      expect(data.length).toBe(44 + SAMPLE_RATE * 0.1 * 2 * 2);
+    }
+  });
+  
+  it('downloads a single file on export', async () => {
+    const click = vi.fn();
+    const anchor = { href: '', download: '', click };
+    vi.stubGlobal('document', { createElement: () => anchor });
+    
+    const stems = await new WAAudioStemExporter(createMixer()).export('song.zip');
+    expect(stems).toHaveLength(2);
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(anchor.download).toBe('song.zip');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { WAAudioTakeLanes } from '../src/core/engine/takes';
+import { SAMPLE_RATE } from './helpers';
+
+/** 恒定值的缓冲区 */
+function createConstant(context: BaseAudioContext, value: number, duration: number): AudioBuffer {
+  const buffer = context.createBuffer(1, Math.round(duration * SAMPLE_RATE), SAMPLE_RATE);
+  buffer.getChannelData(0).fill(value);
+  return buffer;
+}
+
+/** 版本通道只用上下文创建缓冲区，离线上下文即可 */
+function createLanes(): { lanes: WAAudioTakeLanes; context: OfflineAudioContext } {
+  const context = new OfflineAudioContext(1, 1, SAMPLE_RATE);
+  return { lanes: new WAAudioTakeLanes(context as unknown as AudioContext), context };
+}
+
+describe('WAAudioTakeLanes.select', () => {
+  it('splits the covered segment and merges neighbours from the same take', () => {
+    const { lanes, context } = createLanes();
+    const take1 = lanes.addTake(createConstant(context, 1, 4), 0);
+    const take2 = lanes.addTake(createConstant(context, 2, 4), 0);
+    
+    lanes.selectTake(take1).select(take2, 1, 2);
+    expect(lanes.getComp()).toEqual([
+      { take: take1.id, start: 0, end: 1 },
+      { take: take2.id, start: 1, end: 2 },
+      { take: take1.id, start: 2, end: 4 }
+    ]);
+    
+    // 与后一段取自同一版本，合并
+    lanes.select(take1, 1.5, 3);
+    expect(lanes.getComp()).toEqual([
+      { take: take1.id, start: 0, end: 1 },
+      { take: take2.id, start: 1, end: 1.5 },
+      { take: take1.id, start: 1.5, end: 4 }
+    ]);
+    
+    // 覆盖整段后两侧合并为一段
+    lanes.select(take1, 1, 1.5);
+    expect(lanes.getComp()).toEqual([{ take: take1.id, start: 0, end: 4 }]);
+  });
+  
+  it('clips the selection to the take', () => {
+    const { lanes, context } = createLanes();
+    const take = lanes.addTake(createConstant(context, 1, 1), 2);
+    
+    lanes.select(take, 3, 0);
+    expect(lanes.getComp()).toEqual([{ take: take.id, start: 2, end: 3 }]);
+    expect(lanes.takeAt(2.5)).toBe(take.id);
+    expect(lanes.takeAt(3)).toBeNull();
+    
+    lanes.removeTake(take);
+    expect(lanes.getComp()).toEqual([]);
+  });
+});
+
+describe('WAAudioTakeLanes.render', () => {
+  it('centers the crossfade on the splice point', () => {
+    const { lanes, context } = createLanes();
+    const take1 = lanes.addTake(createConstant(context, 1, 2), 0);
+    const take2 = lanes.addTake(createConstant(context, 0, 2), 0);
+    lanes.setCrossfade(0.02).selectTake(take1).select(take2, 1, 2);
+    
+    const output = lanes.render()!.getChannelData(0);
+    expect(output.length).toBe(SAMPLE_RATE * 2);
+    
+    // 输出即版本 1 的包络：拼接点前 10ms 开始淡出，拼接点后 10ms 结束
+    const seam = SAMPLE_RATE;
+    const half = SAMPLE_RATE * 0.01;
+    expect(output[seam - half - 1]).toBe(1);
+    expect(output[seam + half]).toBe(0);
+    expect(output[seam - 1]).toBeGreaterThan(Math.SQRT1_2);
+    expect(output[seam]).toBeLessThan(Math.SQRT1_2);
+    
+    // 包络关于拼接点对称（等功率）
+    for (let k = 0; k < half; k += 21) {
+      expect(output[seam - 1 - k] ** 2 + output[seam + k] ** 2).toBeCloseTo(1, 6);
+    }
+  });
+  
+  it('fades edges next to gaps inside the segment', () => {
+    const { lanes, context } = createLanes();
+    const take = lanes.addTake(createConstant(context, 1, 1), 0.5);
+    lanes.setCrossfade(0.02).selectTake(take);
+    
+    const output = lanes.render()!.getChannelData(0);
+    expect(lanes.compStart).toBe(0.5);
+    expect(output.length).toBe(SAMPLE_RATE);
+    expect(output[0]).toBeLessThan(0.1);
+    expect(output[SAMPLE_RATE * 0.02]).toBe(1);
+    expect(output[SAMPLE_RATE - 1]).toBeLessThan(0.1);
+  });
+});
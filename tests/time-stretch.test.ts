@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { timeStretchChannels } from '../src/core/time-stretch';
+import { SAMPLE_RATE } from './helpers';
+
+/** 1 秒 441Hz 余弦（首尾样本不为零） */
+function createTone(): Float32Array {
+  return new Float32Array(SAMPLE_RATE).map((_, i) => 0.5 * Math.cos(2 * Math.PI * 441 * (i + 0.3) / SAMPLE_RATE));
+}
+
+/** 每秒过零次数 */
+function crossingRate(data: Float32Array): number {
+  let count = 0;
+  for (let i = 1; i < data.length; i++) {
+    if ((data[i - 1] < 0) !== (data[i] < 0)) count++;
+  }
+  return count / (data.length / SAMPLE_RATE);
+}
+
+describe('timeStretchChannels', () => {
+  const input = createTone();
+  
+  it('outputs round(length × ratio) samples', () => {
+    for (const ratio of [0.5, 1.25, 2]) {
+      const [output] = timeStretchChannels([input], SAMPLE_RATE, ratio);
+      expect(output.length).toBe(Math.round(input.length * ratio));
+    }
+    
+    // 比例为 1 时原样复制
+    const [copy] = timeStretchChannels([input], SAMPLE_RATE, 1);
+    expect(copy).toEqual(input);
+    expect(copy).not.toBe(input);
+  });
+  
+  it('preserves the pitch', () => {
+    const expected = crossingRate(input);
+    for (const ratio of [0.5, 2]) {
+      for (const mode of ['speech', 'music'] as const) {
+        const [output] = timeStretchChannels([input], SAMPLE_RATE, ratio, { mode });
+        expect(Math.abs(crossingRate(output) / expected - 1)).toBeLessThan(0.02);
+      }
+    }
+  });
+  
+  it('keeps the first and last samples of the input', () => {
+    for (const ratio of [0.5, 2]) {
+      const [output] = timeStretchChannels([input], SAMPLE_RATE, ratio);
+      expect(output[0]).toBeCloseTo(input[0], 6);
+      expect(output[output.length - 1]).toBeCloseTo(input[input.length - 1], 6);
+    }
+  });
+  
+  it('stretches all channels with the same alignment', () => {
+    const [left, right] = timeStretchChannels([input, input.map(value => value * -0.5)], SAMPLE_RATE, 1.5);
+    expect(right.length).toBe(left.length);
+    expect(right.every((value, i) => Math.abs(value + left[i] * 0.5) < 1e-6)).toBe(true);
+  });
+  
+  it('rejects ratios outside 0.25–4', () => {
+    for (const ratio of [0.2, 4.5, 0, NaN]) {
+      expect(() => timeStretchChannels([input], SAMPLE_RATE, ratio)).toThrow('时长比例须在 0.25 到 4 之间');
+    }
+  });
+});